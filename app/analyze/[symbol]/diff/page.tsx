@@ -0,0 +1,79 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import SnapshotDiffView from "../../../components/SnapshotDiffView";
+import { resolveEntity } from "@/lib/entities";
+import { analysisPath } from "@/lib/analysisOptions";
+import { snapshotStore, diffSnapshots } from "@/lib/snapshots";
+
+interface DiffPageProps {
+	params: Promise<{ symbol: string }>;
+	searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export async function generateMetadata({
+	params,
+}: DiffPageProps): Promise<Metadata> {
+	const { symbol } = await params;
+	const entity = resolveEntity(decodeURIComponent(symbol));
+
+	return {
+		title: `${entity.ticker}: what changed · Narrative Check`,
+		description: `How the narrative around ${entity.shortName} shifted between two analyses`,
+	};
+}
+
+/**
+ * Diff of two stored analyses of one company,
+ * e.g. /analyze/TSLA/diff?from=<id>&to=<id>
+ */
+export default async function SnapshotDiffPage({
+	params,
+	searchParams,
+}: DiffPageProps) {
+	const { symbol } = await params;
+	const query = await searchParams;
+	const entity = resolveEntity(decodeURIComponent(symbol));
+	if (typeof query.from !== "string" || typeof query.to !== "string") {
+		notFound();
+	}
+
+	const [from, to] = await Promise.all([
+		snapshotStore.get(query.from),
+		snapshotStore.get(query.to),
+	]);
+	if (
+		!from ||
+		!to ||
+		from.ticker !== entity.ticker ||
+		to.ticker !== entity.ticker
+	) {
+		notFound();
+	}
+
+	const diff = diffSnapshots(from, to);
+
+	return (
+		<main className="flex min-h-screen flex-col items-center p-6 bg-gray-900 text-white">
+			<div className="w-full max-w-3xl space-y-8">
+				{/* Header */}
+				<div className="text-center mb-4">
+					<h1 className="text-4xl font-bold tracking-tight text-white mb-2">
+						{entity.known ? entity.shortName : entity.ticker}
+					</h1>
+					<p className="text-gray-400">
+						How the narrative shifted between two analyses
+					</p>
+					<Link
+						href={analysisPath(entity.ticker)}
+						className="mt-2 inline-block text-sm text-blue-400 hover:underline"
+					>
+						Back to the live analysis
+					</Link>
+				</div>
+
+				<SnapshotDiffView diff={diff} />
+			</div>
+		</main>
+	);
+}
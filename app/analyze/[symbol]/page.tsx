@@ -1,19 +1,122 @@
-interface Params {
-	symbol: string;
+import type { Metadata } from "next";
+import { notFound, redirect } from "next/navigation";
+import AnalysisView from "../../components/AnalysisView";
+import { resolveEntity, type ResolvedEntity } from "@/lib/entities";
+import { analysisPath, parseAnalysisOptions } from "@/lib/analysisOptions";
+import { prefetchNarrative, prefetchFinancial } from "@/app/api/cachedResults";
+import { snapshotEvents } from "@/app/api/snapshotData";
+import { snapshotStore, summarizeSnapshot } from "@/lib/snapshots";
+
+interface AnalyzePageProps {
+	params: Promise<{ symbol: string }>;
+	searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export async function generateMetadata({
+	params,
+}: AnalyzePageProps): Promise<Metadata> {
+	const { symbol } = await params;
+	const entity = resolveEntity(decodeURIComponent(symbol));
+
+	return {
+		title: `${entity.known ? `${entity.shortName} (${entity.ticker})` : entity.ticker} · Narrative Check`,
+		description: `How Reddit talks about ${entity.shortName} compared with its financial filings`,
+	};
 }
 
-export default async function AnalyzePage({ params }: { params: Params }) {
-	const { symbol } = params;
+/**
+ * Shareable analysis of one company, e.g. /analyze/TSLA?window=30d.
+ * Results already in the server cache are rendered without streaming, and
+ * `?snapshot=<id>` reopens a stored run exactly as it was.
+ */
+export default async function AnalyzePage({
+	params,
+	searchParams,
+}: AnalyzePageProps) {
+	const { symbol } = await params;
+	const query = await searchParams;
+	const entity = resolveEntity(decodeURIComponent(symbol));
+	const snapshotId = typeof query.snapshot === "string" ? query.snapshot : null;
+
+	// Stored runs carry their own window, sources and aggregation
+	if (snapshotId) {
+		const snapshot = await snapshotStore.get(snapshotId);
+		if (!snapshot || snapshot.ticker !== entity.ticker) notFound();
+
+		const events = snapshotEvents(snapshot);
+		return (
+			<AnalyzeLayout entity={snapshot.entity}>
+				<AnalysisView
+					key={snapshot.id}
+					company={snapshot.ticker}
+					options={{
+						window: snapshot.window,
+						sources: snapshot.sources,
+						aggregation: snapshot.aggregation,
+					}}
+					initialNarrative={events.narrative ?? undefined}
+					initialFinancial={events.financial ?? undefined}
+					snapshot={summarizeSnapshot(snapshot)}
+					storedDivergence={snapshot.divergence ?? undefined}
+				/>
+			</AnalyzeLayout>
+		);
+	}
+
+	const options = parseAnalysisOptions(query);
+
+	// One URL per company: names, aliases and lowercase tickers go to the canonical ticker
+	if (entity.known && entity.ticker !== decodeURIComponent(symbol)) {
+		redirect(analysisPath(entity.ticker, options));
+	}
+
+	const [initialNarrative, initialFinancial] = await Promise.all([
+		options.sources.includes("reddit")
+			? prefetchNarrative(entity, options.window, options.aggregation)
+			: null,
+		options.sources.includes("filings") ? prefetchFinancial(entity) : null,
+	]);
 
 	return (
-		<main className="p-6">
-			<h2 className="text-2xl font-semibold">
-				Analysis for{" "}
-				<span className="font-mono uppercase">{symbol}</span>
-			</h2>
-			<p className="mt-4 text-gray-600 dark:text-gray-400">
-				Fetching narrative &amp; fundamentals… (coming soon)
-			</p>
+		<AnalyzeLayout entity={entity}>
+			<AnalysisView
+				key="live"
+				company={entity.ticker}
+				options={options}
+				initialNarrative={initialNarrative ?? undefined}
+				initialFinancial={initialFinancial ?? undefined}
+			/>
+		</AnalyzeLayout>
+	);
+}
+
+/**
+ * Page chrome: the company heading above the analysis
+ */
+function AnalyzeLayout({
+	entity,
+	children,
+}: {
+	entity: ResolvedEntity;
+	children: React.ReactNode;
+}) {
+	return (
+		<main className="flex min-h-screen flex-col items-center p-6 bg-gray-900 text-white">
+			<div className="w-full max-w-2xl space-y-8">
+				{/* Header */}
+				<div className="text-center mb-4">
+					<h1 className="text-4xl font-bold tracking-tight text-white mb-2">
+						{entity.known ? entity.shortName : entity.ticker}
+					</h1>
+					<p className="text-gray-400">
+						{entity.known
+							? `${entity.name} · ${entity.exchange}: ${entity.ticker}`
+							: "Media narrative vs. financial reality"}
+					</p>
+				</div>
+
+				<div className="flex justify-center">{children}</div>
+			</div>
 		</main>
 	);
 }
@@ -0,0 +1,173 @@
+// app/api/cachedResults.ts
+/**
+ * Cached narrative and financial stream results, shared by the streaming
+ * routes (which replay them as responses) and the analysis page (which
+ * prefetches them on the server so a shared link renders without waiting).
+ */
+import {
+  resultCache,
+  cacheKey,
+  replayCompletion,
+  type CacheStatus,
+  type CachedCompletion
+} from "@/lib/cache";
+import { createJsonStreamParser } from "@/lib/streamParser";
+import type { EventSender, StreamEvent } from "@/lib/streamProtocol";
+import type { CollectionProgress } from "@/lib/redditClient";
+import type { VerificationReport } from "@/lib/figureVerifier";
+import type { ResolvedEntity } from "@/lib/entities";
+import type { AnalysisWindow } from "@/lib/analysisOptions";
+import { DEFAULT_AGGREGATION, type AggregationStrategy, type SentimentBreakdown } from "@/lib/sentiment";
+import type { Message, SonarRequest } from "@/types/perplexity";
+
+// Bump when the narrative analysis prompt or cached shape changes so cached results are not reused
+export const NARRATIVE_PROMPT_VERSION = 5;
+// Bump when the financial prompt, schema or cached shape changes so cached results are not reused
+export const FINANCIAL_PROMPT_VERSION = 3;
+// Filings searched cover the past year
+export const FINANCIAL_WINDOW = "365d";
+
+// The model and prompts that produced a result, kept for snapshots
+export interface CachedRequest {
+  model: string;
+  messages: Message[];
+}
+
+// A cached completion and how it was produced; financial results are stored as-is
+export interface CachedResult extends CachedCompletion {
+  request: CachedRequest;
+  completedAt: string;  // ISO time the completion finished
+}
+
+// Cached analysis: the completion plus what the meta and done events carry
+export interface CachedNarrative extends CachedResult {
+  verification: VerificationReport;
+  totalPosts: number;
+  subredditCount: number;
+  sentiment?: SentimentBreakdown;  // Behind the headline percentages; absent in older snapshots
+  collection: CollectionProgress;  // Final collection progress, replayed as one event
+}
+
+/**
+ * What a cached result keeps of the request that produced it
+ */
+export function toCachedRequest(request: SonarRequest): CachedRequest {
+  return { model: request.model, messages: request.messages };
+}
+
+export function narrativeStreamKey(
+  entity: ResolvedEntity,
+  window: AnalysisWindow,
+  strategy: AggregationStrategy = DEFAULT_AGGREGATION
+): string {
+  return cacheKey({
+    route: "narrative-stream",
+    company: entity.ticker,
+    promptVersion: NARRATIVE_PROMPT_VERSION,
+    window,
+    variant: strategy
+  });
+}
+
+export function financialStreamKey(entity: ResolvedEntity): string {
+  return cacheKey({ route: "financial-stream", company: entity.ticker, promptVersion: FINANCIAL_PROMPT_VERSION, window: FINANCIAL_WINDOW });
+}
+
+/**
+ * Wraps a sender so a section event precedes the content of each
+ * fundamentals/risks/trends list, as the JSON streams in
+ */
+export function withSections(send: EventSender): EventSender {
+  const parser = createJsonStreamParser();
+
+  return (type, data) => {
+    send(type, data);
+    if (type !== "delta") return;
+
+    for (const event of parser.push((data as { content: string }).content)) {
+      if (event.type === "sectionChanged") send("section", { name: event.section });
+    }
+  };
+}
+
+/**
+ * Replays a cached narrative as a complete stream, meta through done
+ */
+export function replayNarrative(
+  send: EventSender,
+  entity: ResolvedEntity,
+  window: AnalysisWindow,
+  narrative: CachedNarrative,
+  status: CacheStatus
+): void {
+  send("meta", {
+    company: entity.ticker,
+    entity,
+    dataSource: "reddit-perplexity-synthesis",
+    cache: status,
+    window,
+    totalPosts: narrative.totalPosts,
+    subredditCount: narrative.subredditCount,
+    sentiment: narrative.sentiment
+  });
+  send("progress", { ...narrative.collection, cached: true });
+  replayCompletion(narrative, send);
+  send("done", { finishReason: "stop", verification: narrative.verification });
+}
+
+/**
+ * Replays a cached financial completion as a complete stream, meta through done
+ */
+export function replayFinancial(
+  rawSend: EventSender,
+  entity: ResolvedEntity,
+  completion: CachedResult,
+  status: CacheStatus
+): void {
+  const send = withSections(rawSend);
+  send("meta", { company: entity.ticker, entity, dataSource: "sonar", cache: status, window: FINANCIAL_WINDOW });
+  replayCompletion(completion, send);
+  send("done", { finishReason: "stop" });
+}
+
+/**
+ * Captures what a replay sends as a list of events, merging consecutive
+ * deltas so the list stays small enough to embed in a page
+ */
+export function collectEvents(replay: (send: EventSender) => void): StreamEvent[] {
+  const events: StreamEvent[] = [];
+
+  replay((type, data) => {
+    const last = events[events.length - 1];
+    if (type === "delta" && last?.type === "delta") {
+      last.data = { content: last.data.content + (data as { content: string }).content };
+      return;
+    }
+    events.push({ type, data } as StreamEvent);
+  });
+
+  return events;
+}
+
+/**
+ * Events of a fresh cached narrative, or null when the client should stream it
+ */
+export async function prefetchNarrative(
+  entity: ResolvedEntity,
+  window: AnalysisWindow,
+  strategy?: AggregationStrategy
+): Promise<StreamEvent[] | null> {
+  const cached = await resultCache.lookup<CachedNarrative>(narrativeStreamKey(entity, window, strategy));
+  // Stale results are left to the route, which also revalidates them
+  if (cached?.status !== "HIT") return null;
+  return collectEvents(send => replayNarrative(send, entity, window, cached.value, cached.status));
+}
+
+/**
+ * Events of a fresh cached financial result, or null when the client should stream it
+ */
+export async function prefetchFinancial(entity: ResolvedEntity): Promise<StreamEvent[] | null> {
+  const cached = await resultCache.lookup<CachedResult>(financialStreamKey(entity));
+  if (cached?.status !== "HIT") return null;
+  return collectEvents(send => replayFinancial(send, entity, cached.value, cached.status));
+}
@@ -0,0 +1,31 @@
+// app/api/companies/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { suggestCompanies } from "@/lib/entities";
+
+export const runtime = "nodejs";
+
+// Longest query worth matching; anything longer is not a ticker or company name
+const MAX_QUERY_LENGTH = 64;
+const MAX_LIMIT = 20;
+
+/**
+ * Company autocomplete: matches the bundled company dataset by ticker, name
+ * or alias as the user types. Needs no API keys.
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = req.nextUrl;
+  const query = (searchParams.get("q") ?? "").trim().slice(0, MAX_QUERY_LENGTH);
+  const limit = Math.min(Math.max(Number(searchParams.get("limit")) || 8, 1), MAX_LIMIT);
+
+  if (!query) {
+    return NextResponse.json({ query, results: [] });
+  }
+
+  return NextResponse.json(
+    { query, results: suggestCompanies(query, limit) },
+    {
+      // The dataset only changes on deploy
+      headers: { "Cache-Control": "public, max-age=3600" }
+    }
+  );
+}
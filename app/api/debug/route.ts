@@ -1,8 +1,8 @@
 // app/api/debug/route.ts
 import { NextResponse } from "next/server";
-import { PERPLEXITY_URL } from "@/lib/sonarConfig";
+import { sonarClient } from "@/lib/sonarClient";
 
-export const runtime = "edge";
+export const runtime = "nodejs";
 
 export async function GET() {
   try {
@@ -13,7 +13,7 @@ export async function GET() {
       return NextResponse.json(
         {
           apiKey: "missing",
-          url: PERPLEXITY_URL,
+          url: sonarClient.url,
           error: "API key is not configured in environment variables",
           timestamp: new Date().toISOString()
         },
@@ -24,7 +24,7 @@ export async function GET() {
     // Return basic debug info (without exposing the full API key)
     return NextResponse.json({
       apiKey: "valid",
-      url: PERPLEXITY_URL,
+      url: sonarClient.url,
       timestamp: new Date().toISOString()
     });
 
@@ -32,7 +32,7 @@ export async function GET() {
     return NextResponse.json(
       {
         apiKey: "error",
-        url: PERPLEXITY_URL,
+        url: sonarClient.url,
         error: error.message,
         timestamp: new Date().toISOString()
       },
@@ -0,0 +1,36 @@
+// app/api/divergence/calibration/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { resolveEntity } from "@/lib/entities";
+import { calibrationLog, calibrationStats } from "@/lib/divergence";
+
+export const runtime = "nodejs";
+
+const MAX_LIMIT = 200;
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json({ error, timestamp: new Date().toISOString() }, { status });
+
+/**
+ * Model judgments of a company logged next to the heuristic result for the
+ * same input, newest first, with how far the heuristic is from the model
+ * - `?company=` ticker or name, resolved like the analysis routes
+ * - `?limit=` maximum number of records (default 50)
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = req.nextUrl;
+  const company = searchParams.get("company") ?? searchParams.get("ticker");
+  if (!company) {
+    return errorResponse("Missing company or ticker parameter", 400);
+  }
+
+  const entity = resolveEntity(company);
+  const limit = Math.min(Math.max(Number(searchParams.get("limit")) || 50, 1), MAX_LIMIT);
+
+  try {
+    const records = await calibrationLog.list(entity.ticker, limit);
+    return NextResponse.json({ ticker: entity.ticker, stats: calibrationStats(records), records });
+  } catch (error: any) {
+    console.error("Divergence calibration error:", error);
+    return errorResponse(`Error loading calibration records: ${error.message}`, 500);
+  }
+}
@@ -0,0 +1,36 @@
+// app/api/divergence/history/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { resolveEntity } from "@/lib/entities";
+import { snapshotStore, divergenceSeries } from "@/lib/snapshots";
+
+export const runtime = "nodejs";
+
+const MAX_LIMIT = 100;
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json({ error, timestamp: new Date().toISOString() }, { status });
+
+/**
+ * Divergence score and its narrative/financial sentiment components over the
+ * stored runs of a company, oldest first, with earnings and volume markers
+ * - `?company=` ticker or name, resolved like the analysis routes
+ * - `?limit=` maximum number of recent runs (default 50)
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = req.nextUrl;
+  const company = searchParams.get("company") ?? searchParams.get("ticker");
+  if (!company) {
+    return errorResponse("Missing company or ticker parameter", 400);
+  }
+
+  const entity = resolveEntity(company);
+  const limit = Math.min(Math.max(Number(searchParams.get("limit")) || 50, 1), MAX_LIMIT);
+
+  try {
+    const snapshots = await snapshotStore.list(entity.ticker, limit);
+    return NextResponse.json(divergenceSeries(entity.ticker, snapshots));
+  } catch (error: any) {
+    console.error("Divergence history error:", error);
+    return errorResponse(`Error loading divergence history: ${error.message}`, 500);
+  }
+}
@@ -0,0 +1,148 @@
+// app/api/divergence/route.ts
+import { createHash } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  scoreDivergence,
+  judgeDivergence,
+  calibrationLog,
+  isDivergenceVersion,
+  DIVERGENCE_VERSION,
+  DIVERGENCE_VERSIONS,
+  JUDGE_PROMPT_VERSION,
+  JUDGE_VERSION,
+  type DivergenceInput,
+  type DivergenceMode
+} from "@/lib/divergence";
+import { SonarApiError } from "@/lib/sonarClient";
+import { resultCache, cacheKey, wantsFresh, CACHE_TIMINGS } from "@/lib/cache";
+import { resolveEntity } from "@/lib/entities";
+import { validateEnv } from "../envCheck";
+
+export const runtime = "nodejs";
+
+// Most bullets or items accepted per list
+const MAX_ITEMS = 100;
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json({ error, timestamp: new Date().toISOString() }, { status });
+
+/**
+ * Reads a list of texts: plain strings, or objects with a `text` field such as financial items
+ */
+function toTexts(value: unknown): string[] | null {
+  if (!Array.isArray(value) || value.length > MAX_ITEMS) return null;
+  const texts = value.map(item =>
+    typeof item === "string" ? item : typeof item?.text === "string" ? item.text : null
+  );
+  return texts.every(text => text !== null) ? (texts as string[]) : null;
+}
+
+const MODES: DivergenceMode[] = ["heuristic", "model"];
+
+/**
+ * Lists the available algorithm versions, the default, and the modes
+ */
+export async function GET() {
+  return NextResponse.json({
+    versions: DIVERGENCE_VERSIONS,
+    default: DIVERGENCE_VERSION,
+    modes: MODES,
+    judge: JUDGE_VERSION
+  });
+}
+
+/**
+ * Asks Sonar for a judgment, cached by input. Each fresh judgment is logged
+ * with the heuristic result for the same input for calibration.
+ */
+async function judge(input: DivergenceInput, fresh: boolean) {
+  const ticker = resolveEntity(input.company).ticker;
+  const digest = createHash("sha1").update(JSON.stringify(input)).digest("hex").slice(0, 16);
+
+  const result = await resultCache.getOrCompute(
+    cacheKey({ route: "divergence-judge", company: ticker, promptVersion: JUDGE_PROMPT_VERSION, window: digest }),
+    () => judgeDivergence(input),
+    CACHE_TIMINGS.judgment,
+    { fresh }
+  );
+
+  if (result.status !== "HIT") {
+    try {
+      await calibrationLog.record({
+        ticker,
+        createdAt: new Date().toISOString(),
+        input,
+        heuristic: scoreDivergence(input),
+        model: result.value
+      });
+    } catch (error) {
+      // Calibration is best effort; the judgment is still returned
+      console.warn("Could not record divergence calibration:", error);
+    }
+  }
+  return result;
+}
+
+/**
+ * Scores narrative bullets against financial sections
+ *
+ * Body: `{ company, narratives: string[], financial: { fundamentals, risks, trends }, version?, mode? }`,
+ * where financial lists hold strings or items with a `text` field. Returns the
+ * score, its components, the matched evidence and the algorithm version. With
+ * `mode: "model"` Sonar judges the divergence instead, and the result carries
+ * its per-dimension ratings and cited reasons (`?fresh=1` skips the cache).
+ */
+export async function POST(req: NextRequest) {
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return errorResponse("Request body must be JSON", 400);
+  }
+
+  const company = typeof body?.company === "string" ? body.company.trim() : "";
+  if (!company) {
+    return errorResponse("Missing company", 400);
+  }
+
+  const narratives = toTexts(body.narratives);
+  const fundamentals = toTexts(body.financial?.fundamentals ?? []);
+  const risks = toTexts(body.financial?.risks ?? []);
+  const trends = toTexts(body.financial?.trends ?? []);
+  if (!narratives || !fundamentals || !risks || !trends) {
+    return errorResponse(
+      `narratives and financial fundamentals/risks/trends must be lists of at most ${MAX_ITEMS} texts`,
+      400
+    );
+  }
+
+  const mode = body.mode ?? "heuristic";
+  if (!MODES.includes(mode)) {
+    return errorResponse(`Unknown mode ${mode}; available: ${MODES.join(", ")}`, 400);
+  }
+
+  const input: DivergenceInput = { company, narratives, financial: { fundamentals, risks, trends } };
+
+  if (mode === "model") {
+    try {
+      validateEnv();
+    } catch (error: any) {
+      return errorResponse(error.message, 500);
+    }
+
+    try {
+      const { value, status } = await judge(input, wantsFresh(req.nextUrl.searchParams));
+      return NextResponse.json(value, { headers: { "X-Cache": status } });
+    } catch (error: any) {
+      console.error("Divergence judge error:", error);
+      return errorResponse(error.message, error instanceof SonarApiError ? 502 : 500);
+    }
+  }
+
+  const version = typeof body.version === "string" ? body.version : DIVERGENCE_VERSION;
+  if (!isDivergenceVersion(version)) {
+    return errorResponse(`Unknown version ${version}; available: ${DIVERGENCE_VERSIONS.join(", ")}`, 400);
+  }
+
+  return NextResponse.json(scoreDivergence(input, version));
+}
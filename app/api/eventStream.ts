@@ -0,0 +1,151 @@
+// app/api/eventStream.ts
+import { encodeEvent, type EventSender } from "@/lib/streamProtocol";
+import type { SonarDelta } from "@/lib/sonarClient";
+import type { CachedCompletion } from "@/lib/cache";
+import { toCitations } from "@/lib/citations";
+import { SSE_CURSOR_PARAM, SSE_RESUME_HEADER } from "@/lib/useSseStream";
+
+// Response headers for protocol event streams
+export const EVENT_STREAM_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache, no-transform",
+  "Connection": "keep-alive",
+  "X-Accel-Buffering": "no"
+};
+
+// Comment line sent while a slow phase runs, so clients don't treat the stream as stalled
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+export interface EventStreamOptions {
+  idPrefix?: string;    // Prefix of every event id, naming the result a replay comes from
+  resumeAfter?: number; // Events up to this sequence number are skipped, as the client already has them
+}
+
+// Where a reconnecting client asked a replay to resume
+export interface ResumePosition {
+  cursor: string; // The cursor as sent, echoed back to confirm the resume
+  after: number;  // Sequence number of the last event the client received
+}
+
+/**
+ * Reads a reconnect cursor that points into the replay of `idPrefix`.
+ * Cursors from a live run or from a result that has since been replaced
+ * return null, so the replay starts over and the client resets.
+ *
+ * @param params The request's search params
+ * @param idPrefix The id prefix the replay is sent with
+ */
+export function resumePosition(params: URLSearchParams, idPrefix: string): ResumePosition | null {
+  const cursor = params.get(SSE_CURSOR_PARAM);
+  if (!cursor?.startsWith(`${idPrefix}-`)) return null;
+
+  const after = Number(cursor.slice(idPrefix.length + 1));
+  return Number.isInteger(after) && after > 0 ? { cursor, after } : null;
+}
+
+/**
+ * Response header confirming a resume, so the client keeps what it already has
+ */
+export function resumeHeaders(position: ResumePosition | null): Record<string, string> {
+  return position ? { [SSE_RESUME_HEADER]: position.cursor } : {};
+}
+
+/**
+ * Creates a response body that streams protocol events as `run` sends them.
+ * The response starts immediately and carries a heartbeat comment every
+ * HEARTBEAT_INTERVAL_MS; if `run` throws, an error event ends the stream.
+ * Events carry sequential ids, so a replay can resume where a client left off.
+ *
+ * @param run Produces the events; ends the stream when it resolves
+ * @param options Event id prefix and resume position
+ */
+export function createEventStream(
+  run: (send: EventSender) => Promise<void>,
+  { idPrefix, resumeAfter = 0 }: EventStreamOptions = {}
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let sequence = 0;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send: EventSender = (type, data) => {
+        sequence++;
+        if (sequence <= resumeAfter) return;
+
+        const id = idPrefix ? `${idPrefix}-${sequence}` : String(sequence);
+        try {
+          controller.enqueue(encoder.encode(encodeEvent(type, data, id)));
+        } catch {
+          // The client went away; keep running so results can still be cached
+        }
+      };
+
+      heartbeat = setInterval(() => {
+        try {
+          controller.enqueue(encoder.encode(": heartbeat\n\n"));
+        } catch {
+          clearInterval(heartbeat);
+        }
+      }, HEARTBEAT_INTERVAL_MS);
+
+      run(send)
+        .catch((error: any) => {
+          console.error("Stream error:", error);
+          send("error", { code: "stream_failed", message: error?.message || "Stream failed" });
+        })
+        .finally(() => {
+          clearInterval(heartbeat);
+          try {
+            controller.close();
+          } catch {
+            // Already closed by a cancelled request
+          }
+        });
+    },
+    cancel() {
+      clearInterval(heartbeat);
+    }
+  });
+}
+
+/**
+ * Forwards Sonar deltas as delta and citation events, collecting the completion
+ *
+ * @param deltas Deltas from sonarClient.stream
+ * @param send Event sender of the response stream
+ * @returns The full completion, and the finish reason if the model finished normally
+ */
+export async function forwardCompletion(
+  deltas: AsyncIterable<SonarDelta>,
+  send: EventSender
+): Promise<{ completion: CachedCompletion; finishReason: string | null }> {
+  const completion: CachedCompletion = { content: "" };
+  let finishReason: string | null = null;
+  let sentCitations = "";
+
+  for await (const delta of deltas) {
+    if (delta.content) {
+      completion.content += delta.content;
+      send("delta", { content: delta.content });
+    }
+
+    const { citations, search_results } = delta.chunk;
+    if (citations?.length || search_results?.length) {
+      if (citations?.length) completion.citations = citations;
+      if (search_results?.length) completion.search_results = search_results;
+
+      // Sonar repeats the citation list on chunks, so only send it when it changes
+      const current = toCitations(completion);
+      const key = JSON.stringify(current);
+      if (current.length > 0 && key !== sentCitations) {
+        sentCitations = key;
+        send("citation", { citations: current });
+      }
+    }
+
+    if (delta.finishReason) finishReason = delta.finishReason;
+  }
+
+  return { completion, finishReason };
+}
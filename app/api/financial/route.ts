@@ -2,8 +2,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { fetchFinancialReality } from "../../../lib/sonarFinancial";
 import { validateEnv } from "../envCheck";
+import { resultCache, cacheKey, wantsFresh, CACHE_TIMINGS } from "@/lib/cache";
+import { resolveEntity } from "@/lib/entities";
 
-export const runtime = "edge";
+export const runtime = "nodejs";
+
+// Bump when the financial prompt changes so cached results are not reused
+const PROMPT_VERSION = 2;
 
 export async function GET(req: NextRequest) {
   try {
@@ -21,13 +26,20 @@ export async function GET(req: NextRequest) {
     }
 
     try {
-      const data = await fetchFinancialReality(company.toUpperCase());
+      const entity = resolveEntity(company);
+      const { value: data, status } = await resultCache.getOrCompute(
+        cacheKey({ route: "financial", company: entity.ticker, promptVersion: PROMPT_VERSION, window: "365d" }),
+        () => fetchFinancialReality(entity),
+        CACHE_TIMINGS.financial,
+        { fresh: wantsFresh(searchParams) }
+      );
 
       // Cache for 1 day as financial data doesn't change that frequently
       return new NextResponse(JSON.stringify(data), {
         headers: {
           "Content-Type": "application/json",
-          "Cache-Control": "s-maxage=86400, stale-while-revalidate=3600"
+          "Cache-Control": "s-maxage=86400, stale-while-revalidate=3600",
+          "X-Cache": status
         }
       });
     } catch (e: any) {
@@ -1,14 +1,118 @@
 // app/api/financial/stream/route.ts
 import { NextRequest } from "next/server";
-import { PERPLEXITY_URL } from "@/lib/sonarConfig";
+import { sonarClient, SonarApiError, getContent } from "@/lib/sonarClient";
+import { FINANCIAL_STREAM_SCHEMA } from "@/lib/sonarFinancial";
+import type { SonarRequest } from "@/types/perplexity";
 import { validateEnv } from "../../envCheck";
+import { resultCache, wantsFresh, CACHE_TIMINGS } from "@/lib/cache";
+import { resolveEntity, entityLabel, entityDomains, type ResolvedEntity } from "@/lib/entities";
+import {
+  createEventStream,
+  forwardCompletion,
+  resumePosition,
+  resumeHeaders,
+  EVENT_STREAM_HEADERS
+} from "../../eventStream";
+import {
+  financialStreamKey,
+  replayFinancial,
+  withSections,
+  toCachedRequest,
+  type CachedResult,
+  FINANCIAL_WINDOW
+} from "../../cachedResults";
+
+export const runtime = "nodejs";
 
-export const runtime = "edge";
+/**
+ * Builds the Sonar request for a company's financial reality
+ */
+function buildFinancialBody(entity: ResolvedEntity, stream: boolean): SonarRequest {
+  return {
+    model: "sonar-pro",
+    stream,
+    messages: [
+      {
+        role: "system",
+        content: `You are FinancialReality-GPT. Extract key financial information from the most recent SEC filings, annual reports, earnings calls, or press releases for the given company.
+
+Return EXACTLY 5 items in each of these lists:
+- fundamentals: key metrics and financial health indicators
+- risks: key risks or challenges mentioned in financial filings
+- trends: important trends or future outlook points
+
+Each item has:
+- text: a concise explanation of the metric/risk/trend
+- significance: why it matters to investors
+- sourceUrl: the URL of the document supporting it, or null if unknown
+- filing: the filing or report it comes from (e.g. "10-Q Q1 2025, p. 12"), or null if unknown
+
+Also set "source" to the primary filing or report used and "date" to its date.
+
+Base your analysis ONLY on verifiable financial information from official sources. Respond with JSON only.`
+      },
+      {
+        role: "user",
+        content: `Company: ${entityLabel(entity)}
+
+Extract the financial reality (fundamentals, risks, trends) from the most recent official financial filings or earnings reports.`
+      }
+    ],
+    // Filter for financial and official sources
+    search_sources: {
+      // Focus on official websites, SEC, financial sites
+      domains: {
+        allow: [
+          "sec.gov",       // SEC filings
+          "investor.gov",  // Investor information
+          ...entityDomains(entity), // Company and investor relations websites
+          "bloomberg.com", // Financial news
+          "wsj.com",       // Financial news
+          "reuters.com",   // Financial news
+          "ft.com",        // Financial news
+          "cnbc.com",      // Financial news
+          "fool.com",      // Investment analysis
+          "investopedia.com" // Financial information
+        ]
+      },
+      // Last 365 days (most recent annual report cycle)
+      date_range: {
+        from: new Date(Date.now() - 1000 * 60 * 60 * 24 * 365)
+          .toISOString()
+          .split("T")[0]
+      }
+    },
+    // Stream back typed items instead of free-text sections
+    response_format: {
+      type: "json_schema",
+      json_schema: { schema: FINANCIAL_STREAM_SCHEMA }
+    },
+    // Reduce randomness for more factual outputs
+    temperature: 0.2,
+  };
+}
+
+/**
+ * Runs the request without streaming, used to revalidate stale cache entries
+ */
+async function computeFinancial(entity: ResolvedEntity): Promise<CachedResult> {
+  const request = buildFinancialBody(entity, false);
+  const response = await sonarClient.complete(request);
+  return {
+    content: getContent(response),
+    citations: response.citations,
+    search_results: response.search_results,
+    request: toCachedRequest(request),
+    completedAt: new Date().toISOString()
+  };
+}
 
 /**
  * Streams financial reality analysis from Perplexity Sonar API
- * - Uses SSE (Server-Sent Events) format
- * - Proxies the stream directly to client
+ * - Speaks the app event protocol (lib/streamProtocol)
+ * - Requests JSON matching FINANCIAL_STREAM_SCHEMA, marking each list with a section event
+ * - Caches the completion once it has streamed through in full
+ * - Replays cached completions as the same events (`?fresh=1` bypasses)
  */
 export async function GET(req: NextRequest) {
   try {
@@ -23,102 +127,58 @@ export async function GET(req: NextRequest) {
       return new Response("Missing company or ticker parameter", { status: 400 });
     }
 
-    // Build Perplexity Sonar request with streaming enabled
-    const body = {
-      model: "sonar-pro",
-      stream: true, // Essential for token-by-token streaming
-      messages: [
-        {
-          role: "system",
-          content: `You are FinancialReality-GPT. Extract key financial information from the most recent SEC filings, annual reports, earnings calls, or press releases for the given company.
-
-**CRITICAL REQUIREMENTS**:
-1. Provide EXACTLY 5 bullet points in each of the following categories:
-   - Fundamentals: EXACTLY 5 key metrics and financial health indicators
-   - Risks: EXACTLY 5 key risks or challenges mentioned in financial filings
-   - Trends: EXACTLY 5 important trends or future outlook points
-
-2. Number format: Use numbered format (1., 2., 3., etc.) for each bullet point.
+    const entity = resolveEntity(company);
 
-3. Each bullet point MUST include:
-   - A concise explanation of the metric/risk/trend
-   - Its significance to investors
-   - A clickable source link in Markdown format at the end: "[Source](URL)"
+    const fresh = wantsFresh(req.nextUrl.searchParams);
+    const key = financialStreamKey(entity);
 
-4. Structure your response with clear headings for:
-   - Fundamentals: (5 numbered points)
-   - Risks: (5 numbered points)
-   - Trends: (5 numbered points)
-   - Source: (which filing or report contains this data)
-   - Date: (date of the report/filing)
+    // Replay a cached result, refreshing it in the background once stale
+    if (!fresh) {
+      const cached = await resultCache.lookup<CachedResult>(key);
+      if (cached) {
+        if (cached.status === "STALE") {
+          resultCache.revalidate(key, () => computeFinancial(entity), CACHE_TIMINGS.financial);
+        }
 
-Base your analysis ONLY on verifiable financial information from official sources.
+        // A reconnect resumes the replay after the last event it received
+        const resume = resumePosition(req.nextUrl.searchParams, cached.value.completedAt);
+        const body = createEventStream(async send => {
+          replayFinancial(send, entity, cached.value, cached.status);
+        }, { idPrefix: cached.value.completedAt, resumeAfter: resume?.after });
 
-**AGAIN, IT IS ABSOLUTELY CRITICAL that you provide EXACTLY 5 points for EACH section - no more, no less. If you cannot find 5 distinct points for any section, create generic but plausible points to reach exactly 5.**`
-        },
-        {
-          role: "user",
-          content: `Company: ${company}
+        return new Response(body, {
+          headers: {
+            ...EVENT_STREAM_HEADERS,
+            "X-Cache": cached.status,
+            ...resumeHeaders(resume)
+          }
+        });
+      }
+    }
 
-Extract the financial reality (fundamentals, risks, trends) from the most recent official financial filings or earnings reports.`
-        }
-      ],
-      // Filter for financial and official sources
-      search_sources: {
-        // Focus on official websites, SEC, financial sites
-        domains: {
-          allow: [
-            "sec.gov",       // SEC filings
-            "investor.gov",  // Investor information
-            `${company.toLowerCase()}.com`, // Company website (approximate)
-            "bloomberg.com", // Financial news
-            "wsj.com",       // Financial news
-            "reuters.com",   // Financial news
-            "ft.com",        // Financial news
-            "cnbc.com",      // Financial news
-            "fool.com",      // Investment analysis
-            "investopedia.com" // Financial information
-          ]
-        },
-        // Last 365 days (most recent annual report cycle)
-        date_range: {
-          from: new Date(Date.now() - 1000 * 60 * 60 * 24 * 365)
-            .toISOString()
-            .split("T")[0]
-        }
-      },
-      // Reduce randomness for more factual outputs
-      temperature: 0.2,
-    };
+    // Build Perplexity Sonar request with streaming enabled
+    const request = buildFinancialBody(entity, true);
 
     // Log request for debugging
-    console.log(`Requesting Perplexity API for financial data: ${company}`);
+    console.log(`Requesting Perplexity API for financial data: ${entity.ticker}`);
 
     // Make request to Perplexity
-    const perplexityResponse = await fetch(PERPLEXITY_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${process.env.PERPLEXITY_API_KEY}`
-      },
-      body: JSON.stringify(body)
-    });
-
-    // Handle error responses with detailed error information
-    if (!perplexityResponse.ok) {
-      const errorText = await perplexityResponse.text();
-      console.error(`Perplexity API error (${perplexityResponse.status}):`, errorText);
+    let stream: ReadableStream<Uint8Array>;
+    try {
+      stream = await sonarClient.openStream(request, { signal: req.signal });
+    } catch (error) {
+      if (!(error instanceof SonarApiError)) throw error;
 
       // Return more detailed error
       return new Response(
         JSON.stringify({
-          error: `Perplexity API error (${perplexityResponse.status})`,
-          details: errorText,
-          endpoint: PERPLEXITY_URL,
+          error: error.message,
+          details: error.details,
+          endpoint: error.endpoint,
           timestamp: new Date().toISOString()
         }),
         {
-          status: perplexityResponse.status,
+          status: error.status,
           headers: {
             "Content-Type": "application/json"
           }
@@ -126,19 +186,29 @@ Extract the financial reality (fundamentals, risks, trends) from the most recent
       );
     }
 
-    // Verify we received a readable stream
-    if (!perplexityResponse.body) {
-      return new Response("No response stream received from Perplexity", {
-        status: 500
-      });
-    }
+    const body = createEventStream(async rawSend => {
+      const send = withSections(rawSend);
+      send("meta", { company: entity.ticker, entity, dataSource: "sonar", cache: fresh ? "BYPASS" : "MISS", window: FINANCIAL_WINDOW });
+
+      const { completion, finishReason } = await forwardCompletion(sonarClient.deltas(stream, req.signal), send);
+
+      // Cache the completion once it has streamed through in full, before done so a
+      // snapshot captured right after the run finds it
+      if (finishReason && completion.content) {
+        await resultCache.set(key, {
+          ...completion,
+          request: toCachedRequest(request),
+          completedAt: new Date().toISOString()
+        }, CACHE_TIMINGS.financial);
+      }
+
+      send("done", { finishReason });
+    });
 
-    // Return the transformed stream
-    return new Response(perplexityResponse.body, {
+    return new Response(body, {
       headers: {
-        "Content-Type": "text/event-stream",
-        "Cache-Control": "no-cache, no-transform",
-        "Connection": "keep-alive"
+        ...EVENT_STREAM_HEADERS,
+        "X-Cache": fresh ? "BYPASS" : "MISS"
       }
     });
   } catch (error: any) {
@@ -156,4 +226,4 @@ Extract the financial reality (fundamentals, risks, trends) from the most recent
       }
     );
   }
-}
\ No newline at end of file
+}
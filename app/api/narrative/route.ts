@@ -1,63 +1,77 @@
 // app/api/narrative/route.ts - Non-streaming version
 import { NextRequest } from "next/server";
-import { PERPLEXITY_URL } from "@/lib/sonarConfig";
+import { sonarClient, getContent } from "@/lib/sonarClient";
+import type { Citation, SonarRequest } from "@/types/perplexity";
+import { toCitations } from "@/lib/citations";
 import { validateEnv } from "../envCheck";
-import { redditClient } from "@/lib/redditClient";
+import { collectRedditPosts, formatPostsForPrompt, formatSentimentForPrompt, recencyFilter } from "../redditData";
+import { resultCache, cacheKey, wantsFresh, CACHE_TIMINGS, type CacheStatus } from "@/lib/cache";
+import { resolveEntity, entityLabel, type ResolvedEntity } from "@/lib/entities";
+import { parseWindow, windowDays, type AnalysisWindow } from "@/lib/analysisOptions";
+import {
+  AGGREGATION_LABELS,
+  parseAggregation,
+  type AggregationStrategy,
+  type SentimentBreakdown
+} from "@/lib/sentiment";
 
 export const runtime = "nodejs";
 
+// Bump when the analysis prompt changes so cached results are not reused
+const PROMPT_VERSION = 5;
+
+// Everything needed to format the narrative response
+interface NarrativeResult {
+  narrativeBullets: string[];
+  sources: string[];
+  citations: Citation[];
+  sourceNote: string;
+  sentiment: SentimentBreakdown | null;  // Behind the headline percentages; null when Reddit was not collected
+  fromReddit: boolean;  // Synthesized from collected Reddit posts, not the fallback search or placeholders
+}
+
 /**
- * Enhanced narrative route that feeds ALL Reddit data to Perplexity for analysis
+ * Collects Reddit posts and has Perplexity synthesize them into bullets,
+ * falling back to a Reddit-only search and then to placeholder bullets
  */
-export async function GET(req: NextRequest) {
-  let company: string | null = null;
+async function buildNarrative(
+  entity: ResolvedEntity,
+  window: AnalysisWindow,
+  fresh: boolean,
+  strategy: AggregationStrategy
+): Promise<NarrativeResult> {
+  const days = windowDays(window);
+  let narrativeBullets: string[] = [];
+  let sources: string[] = [];
+  let citations: Citation[] = [];
+  let sourceNote = '';
+  let sentiment: SentimentBreakdown | null = null;
+  let fromReddit = false;
 
   try {
-    validateEnv();
+    // Step 1: Collect ALL Reddit posts
+    console.log(`Gathering Reddit data for ${entity.ticker}`);
+    const { posts: allPosts, sentiment: breakdown } = await collectRedditPosts(entity, fresh, undefined, window, strategy);
 
-    company =
-      req.nextUrl.searchParams.get("company") ??
-      req.nextUrl.searchParams.get("ticker");
-
-    if (!company) {
-      return new Response("Missing company or ticker parameter", { status: 400 });
+    if (allPosts.length === 0) {
+      throw new Error("No Reddit posts found");
     }
 
-    let narrativeBullets: string[] = [];
-    let sources: string[] = [];
-    let sourceNote = '';
-
-    try {
-      // Step 1: Collect ALL Reddit posts
-      console.log(`Gathering Reddit data for ${company}`);
-      const redditData = await redditClient.gatherCompanyData(company);
-
-      // Combine all posts - let Perplexity determine sentiment
-      const allPosts = [
-        ...redditData.bullishPosts,
-        ...redditData.bearishPosts,
-        ...redditData.neutralPosts
-      ];
-
-      if (allPosts.length === 0) {
-        throw new Error("No Reddit posts found");
-      }
+    console.log(`Collected ${allPosts.length} Reddit posts for analysis`);
 
-      console.log(`Collected ${allPosts.length} Reddit posts for analysis`);
+    // Get unique subreddits for metadata
+    const uniqueSubreddits = new Set(allPosts.map(p => p.subreddit));
 
-      // Get unique subreddits for metadata
-      const uniqueSubreddits = new Set(allPosts.map(p => p.subreddit));
-
-      // Step 2: Send ALL posts to Perplexity for analysis
-      const perplexityBody = {
-        model: "sonar-pro",
-        messages: [
-          {
-            role: "system",
-            content: `You are analyzing raw Reddit data for ${company}. Your task is to:
+    // Step 2: Send ALL posts to Perplexity for analysis
+    const perplexityBody: SonarRequest = {
+      model: "sonar-pro",
+      messages: [
+        {
+          role: "system",
+          content: `You are analyzing raw Reddit data for ${entityLabel(entity)}. Your task is to:
 
 1. ANALYZE sentiment for each post (bullish/bearish/neutral)
-2. CALCULATE overall sentiment percentages
+2. REPORT the computed sentiment percentages given with the posts
 3. EXTRACT specific metrics, numbers, and key details
 4. IDENTIFY major themes and discussions
 5. SYNTHESIZE into 5 detailed bullet points
@@ -74,139 +88,194 @@ IMPORTANT:
 - Include post engagement (upvotes/comments) for significant topics
 - Identify specific business details mentioned (acquisitions, products, financials)
 - Quote notable posts with high engagement
+- Top comments are listed under their posts; when quoting a comment, link it as a markdown link to its permalink, e.g. [comment](https://reddit.com/r/...)
 - Every metric must come from the actual Reddit data provided`
-          },
-          {
-            role: "user",
-            content: `Analyze these ${allPosts.length} Reddit posts about ${company} from the past 90 days:
-
-${allPosts.map((post, index) => `
-POST ${index + 1}:
-Title: ${post.title}
-Subreddit: r/${post.subreddit}
-Engagement: ${post.score} upvotes, ${post.num_comments} comments
-Date: ${new Date(post.created_utc * 1000).toISOString().split('T')[0]}
-Content: ${post.selftext.slice(0, 1000)}${post.selftext.length > 1000 ? '...' : ''}
-URL: ${post.url}
----`).join('\n')}
+        },
+        {
+          role: "user",
+          content: `Analyze these ${allPosts.length} Reddit posts about ${entityLabel(entity)} from the past ${days} days:
+
+${formatPostsForPrompt(allPosts)}
+
+${formatSentimentForPrompt(breakdown)}
 
 Based on ALL these posts:
 1. Determine sentiment for each post
-2. Calculate overall sentiment breakdown
+2. Use the computed sentiment breakdown above for the overall percentages
 3. Extract ALL specific metrics mentioned (revenue %, growth rates, valuations, etc.)
 4. Identify key business developments discussed
 5. Create 5 comprehensive bullet points that capture the complete sentiment picture
 
 Focus on specific numbers and concrete details from the posts, not generic observations.`
-          }
-        ],
-        temperature: 0.3,
-        max_tokens: 1500
-      };
-
-      const perplexityResponse = await fetch(PERPLEXITY_URL, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${process.env.PERPLEXITY_API_KEY}`
-        },
-        body: JSON.stringify(perplexityBody)
-      });
-
-      if (perplexityResponse.ok) {
-        const perplexityData = await perplexityResponse.json();
-        const content = perplexityData.choices?.[0]?.message?.content || '';
-
-        // Extract bullets from response
-        narrativeBullets = content
-          .split('\n')
-          .filter((line: string) => line.trim().startsWith('•'))
-          .slice(0, 5);
-
-        // Use actual Reddit sources
-        sources = allPosts
-          .sort((a, b) => (b.score + b.num_comments) - (a.score + a.num_comments))
-          .slice(0, 10)
-          .map(p => p.permalink);
-
-        sourceNote = `\n\nBased on comprehensive analysis of ${allPosts.length} Reddit posts across ${uniqueSubreddits.size} investing subreddits over the past 90 days.`;
-      }
+        }
+      ],
+      temperature: 0.3,
+      max_tokens: 1500
+    };
 
-    } catch (error) {
-      console.error('Reddit collection or analysis error:', error);
-
-      // Fallback to Perplexity search
-      const fallbackBody = {
-        model: "sonar-pro",
-        messages: [
-          {
-            role: "system",
-            content: `Search Reddit for ${company} sentiment and provide detailed analysis with specific metrics and numbers.`
-          },
-          {
-            role: "user",
-            content: `Analyze Reddit sentiment for ${company} over the past 90 days. Extract specific metrics, growth rates, and business details being discussed. Provide 5 detailed bullet points with concrete data.`
-          }
-        ],
-        search_domain_filter: {
-          include_domains: ["reddit.com"]
+    const perplexityData = await sonarClient.complete(perplexityBody);
+    const content = getContent(perplexityData);
+    citations = toCitations(perplexityData);
+
+    // Extract bullets from response
+    narrativeBullets = content
+      .split('\n')
+      .filter((line: string) => line.trim().startsWith('•'))
+      .slice(0, 5);
+
+    // Use actual Reddit sources
+    sources = allPosts
+      .sort((a, b) => (b.score + b.num_comments) - (a.score + a.num_comments))
+      .slice(0, 10)
+      .map(p => p.permalink);
+
+    sentiment = breakdown;
+    fromReddit = true;
+    sourceNote = `\n\nBased on comprehensive analysis of ${allPosts.length} Reddit posts across ${uniqueSubreddits.size} investing subreddits over the past ${days} days. Sentiment percentages are ${AGGREGATION_LABELS[breakdown.strategy]}.`;
+
+  } catch (error) {
+    console.error('Reddit collection or analysis error:', error);
+
+    // Fallback to Perplexity search
+    const fallbackBody: SonarRequest = {
+      model: "sonar-pro",
+      messages: [
+        {
+          role: "system",
+          content: `Search Reddit for ${entityLabel(entity)} sentiment and provide detailed analysis with specific metrics and numbers.`
         },
-        search_context_size: "high",
-        temperature: 0.3,
-        search_recency_filter: "quarter"
-      };
-
-      const fallbackResponse = await fetch(PERPLEXITY_URL, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${process.env.PERPLEXITY_API_KEY}`
-        },
-        body: JSON.stringify(fallbackBody)
-      });
+        {
+          role: "user",
+          content: `Analyze Reddit sentiment for ${entityLabel(entity)} over the past ${days} days. Extract specific metrics, growth rates, and business details being discussed. Provide 5 detailed bullet points with concrete data.`
+        }
+      ],
+      search_domain_filter: {
+        include_domains: ["reddit.com"]
+      },
+      search_context_size: "high",
+      temperature: 0.3,
+      search_recency_filter: recencyFilter(window)
+    };
 
-      if (fallbackResponse.ok) {
-        const fallbackData = await fallbackResponse.json();
-        const content = fallbackData.choices?.[0]?.message?.content || '';
+    try {
+      const fallbackData = await sonarClient.complete(fallbackBody);
+      const content = getContent(fallbackData);
+      citations = toCitations(fallbackData);
+
+      narrativeBullets = content
+        .split('\n')
+        .filter((line: string) => line.trim().startsWith('•'))
+        .slice(0, 5);
+
+      sourceNote = '\n\nSynthesized from Reddit discussions across investing communities.';
+    } catch (fallbackError) {
+      console.error('Fallback search error:', fallbackError);
+    }
+  }
 
-        narrativeBullets = content
-          .split('\n')
-          .filter((line: string) => line.trim().startsWith('•'))
-          .slice(0, 5);
+  // Final fallback
+  if (narrativeBullets.length === 0) {
+    narrativeBullets = [
+      `• Limited Reddit discussion found for ${entity.shortName} in recent ${days} days`,
+      `• Low discussion volume may indicate limited retail investor interest`,
+      `• Consider checking alternative ticker symbols or variations`,
+      `• Some companies may be discussed using nicknames or abbreviations`,
+      `• International stocks may have limited coverage in English subreddits`
+    ];
+    sourceNote = '\n\nNote: Insufficient data for comprehensive sentiment analysis.';
+    fromReddit = false;
+  }
 
-        sourceNote = '\n\nSynthesized from Reddit discussions across investing communities.';
-      }
+  return { narrativeBullets, sources, citations, sourceNote, sentiment, fromReddit };
+}
+
+/**
+ * Rebuilds a stale narrative in the background, failing rather than replacing
+ * it with a fallback so the cached Reddit analysis is kept
+ */
+async function revalidateNarrative(
+  entity: ResolvedEntity,
+  window: AnalysisWindow,
+  strategy: AggregationStrategy
+): Promise<NarrativeResult> {
+  const narrative = await buildNarrative(entity, window, false, strategy);
+  if (!narrative.fromReddit) throw new Error("Reddit analysis unavailable");
+  return narrative;
+}
+
+/**
+ * Enhanced narrative route that feeds ALL Reddit data to Perplexity for analysis
+ */
+export async function GET(req: NextRequest) {
+  let company: string | null = null;
+
+  try {
+    validateEnv();
+
+    company =
+      req.nextUrl.searchParams.get("company") ??
+      req.nextUrl.searchParams.get("ticker");
+
+    if (!company) {
+      return new Response("Missing company or ticker parameter", { status: 400 });
     }
 
-    // Final fallback
-    if (narrativeBullets.length === 0) {
-      narrativeBullets = [
-        `• Limited Reddit discussion found for ${company} in recent 90 days`,
-        `• Low discussion volume may indicate limited retail investor interest`,
-        `• Consider checking alternative ticker symbols or variations`,
-        `• Some companies may be discussed using nicknames or abbreviations`,
-        `• International stocks may have limited coverage in English subreddits`
-      ];
-      sourceNote = '\n\nNote: Insufficient data for comprehensive sentiment analysis.';
+    const entity = resolveEntity(company);
+
+    const window = parseWindow(req.nextUrl.searchParams.get("window"));
+    const strategy = parseAggregation(req.nextUrl.searchParams.get("aggregation"));
+
+    const fresh = wantsFresh(req.nextUrl.searchParams);
+    const key = cacheKey({ route: "narrative", company: entity.ticker, promptVersion: PROMPT_VERSION, window, variant: strategy });
+
+    let narrative: NarrativeResult;
+    let cacheStatus: CacheStatus;
+    const cached = fresh ? undefined : await resultCache.lookup<NarrativeResult>(key);
+    if (cached) {
+      if (cached.status === "STALE") {
+        resultCache.revalidate(key, () => revalidateNarrative(entity, window, strategy), CACHE_TIMINGS.narrative);
+      }
+      ({ value: narrative, status: cacheStatus } = cached);
+    } else {
+      narrative = await buildNarrative(entity, window, fresh, strategy);
+      cacheStatus = fresh ? "BYPASS" : "MISS";
+
+      // Only Reddit-backed analyses are cached; fallbacks are retried on the next request
+      if (narrative.fromReddit) await resultCache.set(key, narrative, CACHE_TIMINGS.narrative);
     }
+    const { narrativeBullets, sources, citations, sourceNote, sentiment } = narrative;
 
     // Format response
-    let responseText = `Reddit Investor Sentiment Analysis: ${company}
+    const responseText = `Reddit Investor Sentiment Analysis: ${entityLabel(entity)}
 
 ${narrativeBullets.join('\n\n')}${sourceNote}`;
 
     // Headers
     const responseHeaders: HeadersInit = {
       "Content-Type": "text/plain; charset=utf-8",
-      "X-Company": company,
+      "X-Company": entity.ticker,
       "X-Data-Source": "reddit-perplexity-synthesis",
-      "X-Analysis-Date": new Date().toISOString()
+      "X-Analysis-Date": new Date().toISOString(),
+      "X-Cache": cacheStatus
     };
 
     if (sources.length > 0) {
       responseHeaders["X-Sources"] = JSON.stringify(sources);
     }
 
+    if (sentiment) {
+      responseHeaders["X-Sentiment-Strategy"] = sentiment.strategy;
+      responseHeaders["X-Sentiment"] = JSON.stringify(sentiment);
+    }
+
+    if (citations.length > 0) {
+      // Escape non-ASCII so titles are valid header values
+      responseHeaders["X-Citations"] = JSON.stringify(citations).replace(
+        /[\u0080-\uffff]/g,
+        c => `\\u${c.charCodeAt(0).toString(16).padStart(4, "0")}`
+      );
+    }
+
     return new Response(responseText, { headers: responseHeaders });
 
   } catch (error: any) {
@@ -1,58 +1,62 @@
 // app/api/narrative/stream/route.ts - Enhanced two-stage pipeline
 import { NextRequest } from "next/server";
-import { PERPLEXITY_URL } from "@/lib/sonarConfig";
+import { sonarClient, getContent } from "@/lib/sonarClient";
+import type { SonarRequest } from "@/types/perplexity";
 import { validateEnv } from "../../envCheck";
-import { redditClient } from "@/lib/redditClient";
+import type { RedditPost, CollectionProgress } from "@/lib/redditClient";
+import {
+  collectRedditPosts,
+  summarizeCollection,
+  formatPostsForPrompt,
+  formatSentimentForPrompt,
+  recencyFilter
+} from "../../redditData";
+import {
+  splitBullets,
+  verifyFigures,
+  type KnownFact,
+  type VerificationReport
+} from "@/lib/figureVerifier";
+import { resultCache, wantsFresh, CACHE_TIMINGS } from "@/lib/cache";
+import { resolveEntity, entityLabel, type ResolvedEntity } from "@/lib/entities";
+import { parseWindow, windowDays, type AnalysisWindow } from "@/lib/analysisOptions";
+import { parseAggregation, type AggregationStrategy, type SentimentBreakdown } from "@/lib/sentiment";
+import {
+  createEventStream,
+  forwardCompletion,
+  resumePosition,
+  resumeHeaders,
+  EVENT_STREAM_HEADERS
+} from "../../eventStream";
+import {
+  narrativeStreamKey,
+  replayNarrative,
+  toCachedRequest,
+  type CachedNarrative
+} from "../../cachedResults";
 
 export const runtime = "nodejs";
 
 /**
- * Enhanced streaming route that collects ALL Reddit data then uses Perplexity for analysis
+ * Builds the Sonar request that analyzes the collected posts
  */
-export async function GET(req: NextRequest) {
-  let company: string | null = null;
-
-  try {
-    validateEnv();
-
-    company =
-      req.nextUrl.searchParams.get("company") ??
-      req.nextUrl.searchParams.get("ticker");
-
-    if (!company) {
-      return new Response("Missing company or ticker parameter", { status: 400 });
-    }
-
-    // Step 1: Collect ALL Reddit posts
-    console.log(`Gathering Reddit data for ${company}`);
-
-    try {
-      const redditData = await redditClient.gatherCompanyData(company);
-
-      // Combine all posts - let Perplexity do the sentiment analysis
-      const allPosts = [
-        ...redditData.bullishPosts,
-        ...redditData.bearishPosts,
-        ...redditData.neutralPosts
-      ];
-
-      if (allPosts.length === 0) {
-        throw new Error("No Reddit posts found");
-      }
-
-      console.log(`Collected ${allPosts.length} Reddit posts for analysis`);
-
-      // Step 2: Send ALL posts to Perplexity for comprehensive analysis (matching non-streaming route)
-      const perplexityBody = {
-        model: "sonar-pro",
-        stream: true,
-        messages: [
-          {
-            role: "system",
-            content: `You are analyzing raw Reddit data for ${company}. Your task is to:
+function buildAnalysisBody(
+  entity: ResolvedEntity,
+  window: AnalysisWindow,
+  allPosts: RedditPost[],
+  sentiment: SentimentBreakdown,
+  stream: boolean
+): SonarRequest {
+  return {
+    model: "sonar-pro",
+    stream,
+    messages: [
+      {
+        role: "system",
+        content: `You are analyzing raw Reddit data for ${entityLabel(entity)}. Your task is to:
 
 1. ANALYZE sentiment for each post (bullish/bearish/neutral)
-2. CALCULATE overall sentiment percentages
+2. REPORT the computed sentiment percentages given with the posts
 3. EXTRACT specific metrics, numbers, and key details
 4. IDENTIFY major themes and discussions
 5. SYNTHESIZE into 5 detailed bullet points
@@ -69,25 +73,20 @@ IMPORTANT:
 - Include post engagement (upvotes/comments) for significant topics
 - Identify specific business details mentioned (acquisitions, products, financials)
 - Quote notable posts with high engagement
+- Top comments are listed under their posts; when quoting a comment, link it as a markdown link to its permalink, e.g. [comment](https://reddit.com/r/...)
 - Every metric must come from the actual Reddit data provided`
-          },
-          {
-            role: "user",
-            content: `Analyze these ${allPosts.length} Reddit posts about ${company} from the past 90 days:
-
-${allPosts.map((post, index) => `
-POST ${index + 1}:
-Title: ${post.title}
-Subreddit: r/${post.subreddit}
-Engagement: ${post.score} upvotes, ${post.num_comments} comments
-Date: ${new Date(post.created_utc * 1000).toISOString().split('T')[0]}
-Content: ${post.selftext.slice(0, 1000)}${post.selftext.length > 1000 ? '...' : ''}
-URL: ${post.url}
----`).join('\n')}
+      },
+      {
+        role: "user",
+        content: `Analyze these ${allPosts.length} Reddit posts about ${entityLabel(entity)} from the past ${windowDays(window)} days:
+
+${formatPostsForPrompt(allPosts)}
+
+${formatSentimentForPrompt(sentiment)}
 
 Based on ALL these posts:
 1. Determine sentiment for each post
-2. Calculate overall sentiment breakdown
+2. Use the computed sentiment breakdown above for the overall percentages
 3. Extract ALL specific metrics mentioned (revenue %, growth rates, valuations, etc.)
 4. Identify key business developments discussed
 5. Create 5 comprehensive bullet points that capture the complete sentiment picture
@@ -95,138 +94,268 @@ Based on ALL these posts:
 Each bullet point should be detailed and contain multiple data points from the posts. Include specific numbers, percentages, company names, analyst targets, and engagement metrics. Make each bullet comprehensive enough to tell a complete story.
 
 Focus on specific numbers and concrete details from the posts, not generic observations.`
-          }
-        ],
-        temperature: 0.3,
-        max_tokens: 2000
-      };
+      }
+    ],
+    temperature: 0.3,
+    max_tokens: 2000
+  };
+}
 
-      console.log(`Sending ${allPosts.length} posts to Perplexity for analysis`);
+/**
+ * Computed sentiment shares and their interval bounds, as percent facts for the verifier
+ */
+function sentimentFacts(sentiment: SentimentBreakdown): Record<string, KnownFact> {
+  const labels = ["bullish", "bearish", "neutral"] as const;
+  return Object.fromEntries(labels.flatMap(label => [
+    [`${label} share`, { value: sentiment[label], kind: "percent" as const }],
+    [`${label} interval low`, { value: sentiment.intervals[label].low, kind: "percent" as const }],
+    [`${label} interval high`, { value: sentiment.intervals[label].high, kind: "percent" as const }]
+  ]));
+}
 
-      const perplexityResponse = await fetch(PERPLEXITY_URL, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${process.env.PERPLEXITY_API_KEY}`
-        },
-        body: JSON.stringify(perplexityBody)
-      });
+/**
+ * Checks every figure in the analysis against the posts and comments exactly as they were sent,
+ * and the headline percentages against the computed breakdown
+ */
+function verifyAnalysis(content: string, allPosts: RedditPost[], sentiment: SentimentBreakdown): VerificationReport {
+  const uniqueSubreddits = new Set(allPosts.map(p => p.subreddit));
+  const sources = allPosts.flatMap(p => [
+    { ...p, selftext: p.selftext.slice(0, 1000) },
+    ...(p.comments ?? []).map(comment => ({
+      title: `Comment on ${p.title}`,
+      selftext: comment.body.slice(0, 300),
+      score: comment.score,
+      num_comments: 0,
+      subreddit: p.subreddit
+    }))
+  ]);
+
+  return verifyFigures(
+    splitBullets(content),
+    sources,
+    {
+      "posts analyzed": allPosts.length,
+      "subreddits": uniqueSubreddits.size,
+      ...sentimentFacts(sentiment)
+    }
+  );
+}
 
-      if (!perplexityResponse.ok) {
-        throw new Error(`Perplexity error: ${perplexityResponse.status}`);
-      }
+/**
+ * Runs the full pipeline without streaming, used to revalidate stale cache entries
+ */
+async function computeNarrative(
+  entity: ResolvedEntity,
+  window: AnalysisWindow,
+  strategy: AggregationStrategy
+): Promise<CachedNarrative> {
+  let collection: CollectionProgress | null = null;
+  const { posts: allPosts, sentiment } = await collectRedditPosts(entity, false, progress => {
+    collection = progress;
+  }, window, strategy);
+  if (allPosts.length === 0) throw new Error("No Reddit posts found");
+
+  const request = buildAnalysisBody(entity, window, allPosts, sentiment, false);
+  const response = await sonarClient.complete(request);
+  const content = getContent(response);
+
+  return {
+    content,
+    citations: response.citations,
+    search_results: response.search_results,
+    request: toCachedRequest(request),
+    completedAt: new Date().toISOString(),
+    verification: verifyAnalysis(content, allPosts, sentiment),
+    totalPosts: allPosts.length,
+    subredditCount: new Set(allPosts.map(p => p.subreddit)).size,
+    sentiment,
+    collection: collection ?? summarizeCollection(allPosts)
+  };
+}
 
-      if (!perplexityResponse.body) {
-        throw new Error("No response stream received");
+/**
+ * Sonar request used when Reddit collection fails: let Perplexity search Reddit itself
+ */
+function buildFallbackBody(entity: ResolvedEntity, window: AnalysisWindow): SonarRequest {
+  return {
+    model: "sonar-pro",
+    stream: true,
+    messages: [
+      {
+        role: "system",
+        content: `Search Reddit for ${entityLabel(entity)} sentiment and analyze:
+1. Overall sentiment percentages
+2. Key metrics and numbers discussed
+3. Major themes with specific details
+4. Business developments mentioned
+5. Create 5 detailed bullet points with concrete data`
+      },
+      {
+        role: "user",
+        content: `Analyze Reddit sentiment for ${entityLabel(entity)} over the past ${windowDays(window)} days. Extract specific metrics, growth rates, and business details being discussed. Focus on concrete numbers and facts.`
       }
+    ],
+    search_domain_filter: {
+      include_domains: ["reddit.com"]
+    },
+    search_context_size: "high",
+    temperature: 0.3,
+    search_recency_filter: recencyFilter(window)
+  };
+}
+
+/**
+ * Enhanced streaming route that collects ALL Reddit data then uses Perplexity for analysis.
+ * Speaks the app event protocol (lib/streamProtocol): meta, collection progress, content
+ * deltas and citations, then a done event carrying the figure verification.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    validateEnv();
+
+    const company =
+      req.nextUrl.searchParams.get("company") ??
+      req.nextUrl.searchParams.get("ticker");
+
+    if (!company) {
+      return new Response("Missing company or ticker parameter", { status: 400 });
+    }
+
+    const entity = resolveEntity(company);
+
+    const window = parseWindow(req.nextUrl.searchParams.get("window"));
+    const strategy = parseAggregation(req.nextUrl.searchParams.get("aggregation"));
+
+    const fresh = wantsFresh(req.nextUrl.searchParams);
+    const key = narrativeStreamKey(entity, window, strategy);
 
-      // Stream the Perplexity analysis with metadata (matching non-streaming route)
-      const transformStream = new TransformStream({
-        transform(chunk, controller) {
-          controller.enqueue(chunk);
-        },
-        flush(controller) {
-          const encoder = new TextEncoder();
-
-          // Add the source note at the end (matching the non-streaming route)
-          const uniqueSubreddits = [...new Set(allPosts.map(p => p.subreddit))];
-          const sourceNote = `\n\ndata: {"choices":[{"delta":{"content":"\\n\\nBased on comprehensive analysis of ${allPosts.length} Reddit posts across ${uniqueSubreddits.length} investing subreddits over the past 90 days."}}]}\n\n`;
-          controller.enqueue(encoder.encode(sourceNote));
-
-          const doneSignal = `data: [DONE]\n\n`;
-          controller.enqueue(encoder.encode(doneSignal));
+    // Replay a cached analysis, refreshing it in the background once stale
+    if (!fresh) {
+      const cached = await resultCache.lookup<CachedNarrative>(key);
+      if (cached) {
+        if (cached.status === "STALE") {
+          resultCache.revalidate(key, () => computeNarrative(entity, window, strategy), CACHE_TIMINGS.narrative);
         }
-      });
 
-      return new Response(
-        perplexityResponse.body.pipeThrough(transformStream),
-        {
+        // A reconnect resumes the replay after the last event it received
+        const narrative = cached.value;
+        const resume = resumePosition(req.nextUrl.searchParams, narrative.completedAt);
+        const body = createEventStream(async send => {
+          replayNarrative(send, entity, window, narrative, cached.status);
+        }, { idPrefix: narrative.completedAt, resumeAfter: resume?.after });
+
+        return new Response(body, {
           headers: {
-            "Content-Type": "text/event-stream",
-            "Cache-Control": "no-cache, no-transform",
-            "Connection": "keep-alive",
-            "X-Accel-Buffering": "no",
+            ...EVENT_STREAM_HEADERS,
             "X-Data-Source": "reddit-perplexity-synthesis",
-            "X-Total-Posts": allPosts.length.toString(),
-            "X-Company": company
+            "X-Total-Posts": narrative.totalPosts.toString(),
+            "X-Company": entity.ticker,
+            "X-Cache": cached.status,
+            ...resumeHeaders(resume)
           }
-        }
-      );
+        });
+      }
+    }
 
-    } catch (redditError) {
-      console.error('Reddit collection error:', redditError);
-
-      // Fallback to Perplexity search if Reddit fails
-      const fallbackBody = {
-        model: "sonar-pro",
-        stream: true,
-        messages: [
-          {
-            role: "system",
-            content: `Search Reddit for ${company} sentiment and analyze:
-1. Overall sentiment percentages
-2. Key metrics and numbers discussed
-3. Major themes with specific details
-4. Business developments mentioned
-5. Create 5 detailed bullet points with concrete data`
-          },
-          {
-            role: "user",
-            content: `Analyze Reddit sentiment for ${company} over the past 90 days. Extract specific metrics, growth rates, and business details being discussed. Focus on concrete numbers and facts.`
-          }
-        ],
-        search_domain_filter: {
-          include_domains: ["reddit.com"]
-        },
-        search_context_size: "high",
-        temperature: 0.3,
-        search_recency_filter: "quarter"
-      };
-
-      const fallbackResponse = await fetch(PERPLEXITY_URL, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${process.env.PERPLEXITY_API_KEY}`
-        },
-        body: JSON.stringify(fallbackBody)
+    // The response starts right away so progress arrives while Reddit is searched
+    const body = createEventStream(async send => {
+      send("meta", {
+        company: entity.ticker,
+        entity,
+        dataSource: "reddit-perplexity-synthesis",
+        cache: fresh ? "BYPASS" : "MISS",
+        window
       });
 
-      if (!fallbackResponse.ok || !fallbackResponse.body) {
-        throw new Error("Fallback search failed");
-      }
+      // Step 1: Collect ALL Reddit posts
+      console.log(`Gathering Reddit data for ${entity.ticker}`);
 
-      return new Response(fallbackResponse.body, {
-        headers: {
-          "Content-Type": "text/event-stream",
-          "Cache-Control": "no-cache",
-          "X-Data-Source": "perplexity-search-fallback",
-          "X-Company": company
+      let allPosts: RedditPost[];
+      let sentiment: SentimentBreakdown;
+      let collection: CollectionProgress | null = null;
+      try {
+        ({ posts: allPosts, sentiment } = await collectRedditPosts(entity, fresh, progress => {
+          collection = progress;
+          send("progress", progress);
+        }, window, strategy));
+
+        if (allPosts.length === 0) {
+          throw new Error("No Reddit posts found");
         }
-      });
-    }
+      } catch (redditError) {
+        console.error('Reddit collection error:', redditError);
+
+        // Fallback to Perplexity search if Reddit fails
+        send("warning", {
+          code: "reddit_unavailable",
+          message: "Reddit data could not be collected, so Perplexity searched Reddit directly instead."
+        });
+        send("meta", { dataSource: "perplexity-search-fallback" });
+
+        const { finishReason } = await forwardCompletion(
+          sonarClient.stream(buildFallbackBody(entity, window), { signal: req.signal }),
+          send
+        );
+        send("done", { finishReason });
+        return;
+      }
 
-  } catch (error: any) {
-    console.error("Stream error:", error);
+      const subredditCount = new Set(allPosts.map(p => p.subreddit)).size;
+      console.log(`Collected ${allPosts.length} Reddit posts for analysis`);
+      send("meta", { totalPosts: allPosts.length, subredditCount, sentiment });
 
-    // Error stream
-    const encoder = new TextEncoder();
-    const errorStream = new ReadableStream({
-      start(controller) {
-        const errorData = `data: {"choices":[{"delta":{"content":"Error analyzing Reddit sentiment for ${company}: ${error.message}\\n\\nPlease try again or check individual subreddit discussions."}}]}\n\n`;
-        controller.enqueue(encoder.encode(errorData));
-        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-        controller.close();
+      // Step 2: Send ALL posts to Perplexity for comprehensive analysis (matching non-streaming route)
+      console.log(`Sending ${allPosts.length} posts to Perplexity for analysis`);
+
+      const request = buildAnalysisBody(entity, window, allPosts, sentiment, true);
+      const { completion, finishReason } = await forwardCompletion(
+        sonarClient.stream(request, { signal: req.signal }),
+        send
+      );
+
+      // Check the figures in the finished analysis against the posts
+      const verification = verifyAnalysis(completion.content, allPosts, sentiment);
+      console.log(`Figure verification for ${entity.ticker}:`, verification.counts);
+
+      // Only complete analyses are cached, before done so a snapshot captured right after finds this run
+      if (finishReason && completion.content) {
+        await resultCache.set(key, {
+          ...completion,
+          request: toCachedRequest(request),
+          completedAt: new Date().toISOString(),
+          verification,
+          totalPosts: allPosts.length,
+          subredditCount,
+          sentiment,
+          collection: collection ?? summarizeCollection(allPosts)
+        }, CACHE_TIMINGS.narrative);
       }
+
+      send("done", { finishReason, verification });
     });
 
-    return new Response(errorStream, {
-      status: 500,
+    return new Response(body, {
       headers: {
-        "Content-Type": "text/event-stream",
-        "Cache-Control": "no-cache",
-        "X-Error": "true"
+        ...EVENT_STREAM_HEADERS,
+        "X-Data-Source": "reddit-perplexity-synthesis",
+        "X-Company": entity.ticker,
+        "X-Cache": fresh ? "BYPASS" : "MISS"
       }
     });
+
+  } catch (error: any) {
+    console.error("Stream error:", error);
+    return new Response(
+      JSON.stringify({
+        error: `Error analyzing Reddit sentiment: ${error.message}`,
+        timestamp: new Date().toISOString()
+      }),
+      {
+        status: 500,
+        headers: {
+          "Content-Type": "application/json"
+        }
+      }
+    );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,148 @@
+// app/api/redditData.ts
+import {
+  redditClient,
+  type RedditPost,
+  type SentimentData,
+  type CollectionProgress
+} from "@/lib/redditClient";
+import { resultCache, cacheKey, CACHE_TIMINGS } from "@/lib/cache";
+import {
+  AGGREGATION_LABELS,
+  DEFAULT_AGGREGATION,
+  describeBreakdown,
+  type AggregationStrategy,
+  type SentimentBreakdown
+} from "@/lib/sentiment";
+import type { ResolvedEntity } from "@/lib/entities";
+import { DEFAULT_WINDOW, windowDays, type AnalysisWindow } from "@/lib/analysisOptions";
+import type { SonarRequest } from "@/types/perplexity";
+
+// Top comments are pulled for this many of the most engaged posts (0 disables)
+export const REDDIT_COMMENT_POSTS = Number(process.env.REDDIT_COMMENT_POSTS ?? 10);
+const COMMENTS_PER_POST = 5;
+
+// Bump when the collected data, search strategies or filtering change so cached collections are not reused
+const COLLECTION_VERSION = 6;
+
+/**
+ * Sonar recency filter covering a collection window, for the fallback that
+ * has Perplexity search Reddit itself
+ */
+export function recencyFilter(window: AnalysisWindow): NonNullable<SonarRequest["search_recency_filter"]> {
+  const days = windowDays(window);
+  if (days <= 30) return "month";
+  if (days <= 90) return "quarter";
+  return "year";
+}
+
+// A collection: the posts and how their sentiment breaks down
+export interface RedditCollection {
+  posts: RedditPost[];
+  sentiment: SentimentBreakdown;
+}
+
+// Combine all posts; the model reads them unlabeled
+const combinePosts = (redditData: SentimentData): RedditPost[] => [
+  ...redditData.bullishPosts,
+  ...redditData.bearishPosts,
+  ...redditData.neutralPosts
+];
+
+/**
+ * Summarizes an already collected set of posts as a single progress update
+ *
+ * @param posts The collected posts
+ * @param ambiguous Posts the collection discarded as ambiguous
+ */
+export function summarizeCollection(posts: RedditPost[], ambiguous = 0): CollectionProgress {
+  const subreddits = new Set(posts.map(p => p.subreddit)).size;
+  return {
+    completed: 1,
+    total: 1,
+    failed: 0,
+    postsFound: posts.length,
+    uniquePosts: posts.length,
+    duplicates: 0,
+    ambiguous,
+    subredditsCovered: subreddits,
+    subredditsTotal: subreddits,
+    rateLimitRemaining: null,
+    cached: true
+  };
+}
+
+/**
+ * Collects Reddit posts for a company, reusing a recent collection when cached.
+ * Shared by the narrative routes so both hit Reddit at most once per window.
+ *
+ * @param entity Resolved company; collections are cached per ticker
+ * @param fresh Skip the cache and collect again
+ * @param onProgress Called after each search; a cached collection reports once
+ * @param window How far back to collect posts
+ * @param strategy How posts are weighted in the sentiment breakdown
+ * @returns Bullish, bearish and neutral posts combined, with their sentiment breakdown
+ */
+export async function collectRedditPosts(
+  entity: ResolvedEntity,
+  fresh = false,
+  onProgress?: (progress: CollectionProgress) => void,
+  window: AnalysisWindow = DEFAULT_WINDOW,
+  strategy: AggregationStrategy = DEFAULT_AGGREGATION
+): Promise<RedditCollection> {
+  const key = cacheKey({ route: "reddit", company: entity.ticker, promptVersion: COLLECTION_VERSION, window });
+  const comments = { posts: REDDIT_COMMENT_POSTS, perPost: COMMENTS_PER_POST };
+  const days = windowDays(window);
+
+  if (!fresh) {
+    const cached = await resultCache.lookup<SentimentData>(key);
+    if (cached) {
+      // Background refreshes report no progress since nobody is listening
+      if (cached.status === "STALE") {
+        resultCache.revalidate(key, () => redditClient.gatherCompanyData(entity, { comments, windowDays: days }), CACHE_TIMINGS.reddit);
+      }
+
+      const posts = combinePosts(cached.value);
+      onProgress?.(summarizeCollection(posts, cached.value.ambiguousDiscarded));
+      return { posts, sentiment: redditClient.sentimentBreakdown(cached.value, strategy) };
+    }
+  }
+
+  const redditData = await resultCache.refresh(
+    key,
+    () => redditClient.gatherCompanyData(entity, { onProgress, comments, windowDays: days }),
+    CACHE_TIMINGS.reddit
+  );
+  return { posts: combinePosts(redditData), sentiment: redditClient.sentimentBreakdown(redditData, strategy) };
+}
+
+/**
+ * The computed sentiment breakdown as given to the analysis prompt, so the
+ * headline percentages come from it rather than from the model's own count
+ */
+export function formatSentimentForPrompt(sentiment: SentimentBreakdown): string {
+  return `Sentiment computed from these posts (${AGGREGATION_LABELS[sentiment.strategy]}, 95% intervals in parentheses): ${describeBreakdown(sentiment)}. Use these percentages in the Overall sentiment bullet.`;
+}
+
+/**
+ * Formats posts, with their top comments, for the analysis prompt.
+ * Comment permalinks are included so the model can link quotes to them.
+ */
+export function formatPostsForPrompt(posts: RedditPost[]): string {
+  return posts.map((post, index) => {
+    const comments = post.comments?.length
+      ? `\nTop comments:\n${post.comments.map(comment =>
+          `- (${comment.score} upvotes) ${comment.body.slice(0, 300)}${comment.body.length > 300 ? '...' : ''} [${comment.permalink}]`
+        ).join('\n')}`
+      : '';
+
+    return `
+POST ${index + 1}:
+Title: ${post.title}
+Subreddit: r/${post.subreddit}
+Engagement: ${post.score} upvotes, ${post.num_comments} comments
+Date: ${new Date(post.created_utc * 1000).toISOString().split('T')[0]}
+Content: ${post.selftext.slice(0, 1000)}${post.selftext.length > 1000 ? '...' : ''}
+URL: ${post.url}${comments}
+---`;
+  }).join('\n');
+}
@@ -0,0 +1,207 @@
+// app/api/snapshotData.ts
+import { resultCache, type CachedCompletion } from "@/lib/cache";
+import { toCitations, stripMarkers } from "@/lib/citations";
+import { createMarkdownBulletParser, type MarkdownBullet } from "@/lib/streamParser";
+import { scoreDivergence } from "@/lib/divergence";
+import {
+  snapshotStore,
+  createSnapshotId,
+  type AnalysisSnapshot,
+  type SnapshotNarrative,
+  type SnapshotFinancial
+} from "@/lib/snapshots";
+import type { ResolvedEntity } from "@/lib/entities";
+import type { AnalysisOptions } from "@/lib/analysisOptions";
+import type { FinancialItem } from "@/lib/sonarFinancial";
+import type { StreamEvent } from "@/lib/streamProtocol";
+import {
+  narrativeStreamKey,
+  financialStreamKey,
+  replayNarrative,
+  replayFinancial,
+  collectEvents,
+  type CachedNarrative,
+  type CachedResult
+} from "./cachedResults";
+
+// Recent snapshots checked for the same run before storing a new one
+const DUPLICATE_LOOKBACK = 10;
+
+// Just the completion, without the fields cached alongside it
+const completionOf = ({ content, citations, search_results }: CachedCompletion): CachedCompletion => ({
+  content,
+  citations,
+  search_results
+});
+
+/**
+ * Narrative bullets as the narrative hook displays them: parsed the same way,
+ * first five, without footnote markers
+ */
+function narrativeBullets(content: string): string[] {
+  const parser = createMarkdownBulletParser();
+  const bullets: MarkdownBullet[] = [];
+  for (const event of [...parser.push(content), ...parser.end()]) {
+    if (event.type === "bulletStarted" || event.type === "bulletUpdated") {
+      bullets[event.index] = event.bullet;
+    }
+  }
+  return bullets.slice(0, 5).map(bullet => stripMarkers(bullet.text));
+}
+
+/**
+ * Reads one fundamentals/risks/trends list from the financial JSON
+ */
+function toItems(value: unknown): FinancialItem[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(item => typeof item?.text === "string")
+    .map(item => ({
+      text: item.text,
+      significance: typeof item.significance === "string" ? item.significance : "",
+      sourceUrl: typeof item.sourceUrl === "string" ? item.sourceUrl : null,
+      filing: typeof item.filing === "string" ? item.filing : null
+    }));
+}
+
+function toNarrativeSnapshot(narrative: CachedNarrative): SnapshotNarrative {
+  return {
+    completion: completionOf(narrative),
+    citations: toCitations(narrative),
+    model: narrative.request.model,
+    prompts: narrative.request.messages,
+    completedAt: narrative.completedAt,
+    bullets: narrativeBullets(narrative.content),
+    verification: narrative.verification,
+    collection: narrative.collection,
+    totalPosts: narrative.totalPosts,
+    subredditCount: narrative.subredditCount,
+    sentiment: narrative.sentiment
+  };
+}
+
+function toFinancialSnapshot(financial: CachedResult): SnapshotFinancial {
+  let data: Record<string, unknown> = {};
+  try {
+    data = JSON.parse(financial.content);
+  } catch {
+    console.warn("Cached financial result is not valid JSON; storing it without sections");
+  }
+
+  return {
+    completion: completionOf(financial),
+    citations: toCitations(financial),
+    model: financial.request.model,
+    prompts: financial.request.messages,
+    completedAt: financial.completedAt,
+    fundamentals: toItems(data.fundamentals),
+    risks: toItems(data.risks),
+    trends: toItems(data.trends),
+    source: typeof data.source === "string" ? data.source : "",
+    date: typeof data.date === "string" ? data.date : ""
+  };
+}
+
+const sameRun = (a: AnalysisSnapshot, b: AnalysisSnapshot) =>
+  a.window === b.window &&
+  a.sources.join(",") === b.sources.join(",") &&
+  a.aggregation === b.aggregation &&
+  a.narrative?.completedAt === b.narrative?.completedAt &&
+  a.financial?.completedAt === b.financial?.completedAt;
+
+/**
+ * Stores the cached results of a finished analysis as a snapshot. A run that
+ * was already stored, e.g. because the page was reloaded and replayed the
+ * cache, returns the existing snapshot.
+ *
+ * @param entity Resolved company
+ * @param options Window, sources and sentiment aggregation of the analysis
+ * @returns The snapshot and whether it was new, or null unless every source has a cached result
+ */
+export async function captureSnapshot(
+  entity: ResolvedEntity,
+  options: AnalysisOptions
+): Promise<{ snapshot: AnalysisSnapshot; created: boolean } | null> {
+  const [narrativeEntry, financialEntry] = await Promise.all([
+    options.sources.includes("reddit")
+      ? resultCache.lookup<CachedNarrative>(narrativeStreamKey(entity, options.window, options.aggregation))
+      : undefined,
+    options.sources.includes("filings")
+      ? resultCache.lookup<CachedResult>(financialStreamKey(entity))
+      : undefined
+  ]);
+  // Results that were not cached (e.g. the Perplexity search fallback) cannot be reopened
+  if (options.sources.includes("reddit") && !narrativeEntry) return null;
+  if (options.sources.includes("filings") && !financialEntry) return null;
+
+  const narrative = narrativeEntry ? toNarrativeSnapshot(narrativeEntry.value) : null;
+  const financial = financialEntry ? toFinancialSnapshot(financialEntry.value) : null;
+  const now = Date.now();
+
+  const snapshot: AnalysisSnapshot = {
+    id: createSnapshotId(entity.ticker, now),
+    ticker: entity.ticker,
+    entity,
+    window: options.window,
+    sources: options.sources,
+    ...(options.aggregation && { aggregation: options.aggregation }),
+    createdAt: new Date(now).toISOString(),
+    narrative,
+    financial,
+    divergence: narrative && financial && narrative.bullets.length > 0
+      ? scoreDivergence({
+          company: entity.ticker,
+          narratives: narrative.bullets,
+          financial: {
+            fundamentals: financial.fundamentals.map(item => item.text),
+            risks: financial.risks.map(item => item.text),
+            trends: financial.trends.map(item => item.text)
+          }
+        })
+      : null
+  };
+
+  const recent = await snapshotStore.list(entity.ticker, DUPLICATE_LOOKBACK);
+  const existing = recent.find(stored => sameRun(stored, snapshot));
+  if (existing) return { snapshot: existing, created: false };
+
+  await snapshotStore.save(snapshot);
+  return { snapshot, created: true };
+}
+
+/**
+ * Replays a snapshot as the events its streams originally sent, so the
+ * analysis view renders it exactly as it was
+ */
+export function snapshotEvents(snapshot: AnalysisSnapshot): {
+  narrative: StreamEvent[] | null;
+  financial: StreamEvent[] | null;
+} {
+  const { narrative, financial, entity, window } = snapshot;
+
+  return {
+    narrative: narrative
+      ? collectEvents(send =>
+          replayNarrative(send, entity, window, {
+            ...narrative.completion,
+            request: { model: narrative.model, messages: narrative.prompts },
+            completedAt: narrative.completedAt,
+            verification: narrative.verification,
+            totalPosts: narrative.totalPosts,
+            subredditCount: narrative.subredditCount,
+            sentiment: narrative.sentiment,
+            collection: narrative.collection
+          }, "HIT")
+        )
+      : null,
+    financial: financial
+      ? collectEvents(send =>
+          replayFinancial(send, entity, {
+            ...financial.completion,
+            request: { model: financial.model, messages: financial.prompts },
+            completedAt: financial.completedAt
+          }, "HIT")
+        )
+      : null
+  };
+}
@@ -0,0 +1,25 @@
+// app/api/snapshots/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { snapshotStore } from "@/lib/snapshots";
+
+export const runtime = "nodejs";
+
+/**
+ * Returns a stored analysis in full: results, prompts, model and timestamps
+ */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const snapshot = await snapshotStore.get(id);
+
+  if (!snapshot) {
+    return NextResponse.json(
+      { error: `Snapshot ${id} not found`, timestamp: new Date().toISOString() },
+      { status: 404 }
+    );
+  }
+
+  // Snapshots never change once stored
+  return NextResponse.json(snapshot, {
+    headers: { "Cache-Control": "private, max-age=31536000, immutable" }
+  });
+}
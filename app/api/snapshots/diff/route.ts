@@ -0,0 +1,34 @@
+// app/api/snapshots/diff/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { snapshotStore, diffSnapshots } from "@/lib/snapshots";
+
+export const runtime = "nodejs";
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json({ error, timestamp: new Date().toISOString() }, { status });
+
+/**
+ * Diffs two stored analyses of the same ticker, e.g.
+ * /api/snapshots/diff?from=<id>&to=<id>. The older snapshot is always the
+ * "before" side, whichever order the ids are given in.
+ */
+export async function GET(req: NextRequest) {
+  const from = req.nextUrl.searchParams.get("from");
+  const to = req.nextUrl.searchParams.get("to");
+  if (!from || !to) {
+    return errorResponse("Both from and to snapshot ids are required", 400);
+  }
+
+  const [before, after] = await Promise.all([snapshotStore.get(from), snapshotStore.get(to)]);
+  if (!before || !after) {
+    return errorResponse(`Snapshot ${!before ? from : to} not found`, 404);
+  }
+  if (before.ticker !== after.ticker) {
+    return errorResponse(`Snapshots are of different companies (${before.ticker}, ${after.ticker})`, 400);
+  }
+
+  // Snapshots never change, so neither does their diff
+  return NextResponse.json(diffSnapshots(before, after), {
+    headers: { "Cache-Control": "private, max-age=31536000, immutable" }
+  });
+}
@@ -0,0 +1,81 @@
+// app/api/snapshots/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { resolveEntity } from "@/lib/entities";
+import { parseSources, parseWindow, type AnalysisOptions } from "@/lib/analysisOptions";
+import { isAggregationStrategy } from "@/lib/sentiment";
+import { snapshotStore, summarizeSnapshot } from "@/lib/snapshots";
+import { captureSnapshot } from "../snapshotData";
+
+export const runtime = "nodejs";
+
+const MAX_LIMIT = 100;
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json({ error, timestamp: new Date().toISOString() }, { status });
+
+/**
+ * Lists the stored analyses of a company, newest first
+ * - `?company=` ticker or name, resolved like the analysis routes
+ * - `?limit=` maximum number of snapshots (default 50)
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = req.nextUrl;
+  const company = searchParams.get("company") ?? searchParams.get("ticker");
+  if (!company) {
+    return errorResponse("Missing company or ticker parameter", 400);
+  }
+
+  const entity = resolveEntity(company);
+  const limit = Math.min(Math.max(Number(searchParams.get("limit")) || 50, 1), MAX_LIMIT);
+
+  try {
+    const snapshots = await snapshotStore.list(entity.ticker, limit);
+    return NextResponse.json({ ticker: entity.ticker, snapshots: snapshots.map(summarizeSnapshot) });
+  } catch (error: any) {
+    console.error("Snapshot list error:", error);
+    return errorResponse(`Error listing snapshots: ${error.message}`, 500);
+  }
+}
+
+/**
+ * Stores a finished analysis as a snapshot, from the results the streaming
+ * routes cached. Body: `{ company, window?, sources?, aggregation? }`, with the same values
+ * as the analysis page's query parameters.
+ * Responds 201 with the new snapshot's summary, or 200 if this run was already stored.
+ */
+export async function POST(req: NextRequest) {
+  let body: { company?: unknown; window?: unknown; sources?: unknown; aggregation?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return errorResponse("Request body must be JSON", 400);
+  }
+
+  if (typeof body.company !== "string" || !body.company.trim()) {
+    return errorResponse("Missing company", 400);
+  }
+
+  const entity = resolveEntity(body.company);
+  const options: AnalysisOptions = {
+    window: parseWindow(typeof body.window === "string" ? body.window : null),
+    sources: parseSources(
+      Array.isArray(body.sources) ? body.sources.join(",") : typeof body.sources === "string" ? body.sources : null
+    ),
+    ...(isAggregationStrategy(body.aggregation) && { aggregation: body.aggregation })
+  };
+
+  try {
+    const captured = await captureSnapshot(entity, options);
+    if (!captured) {
+      return errorResponse(`No finished analysis of ${entity.ticker} to store`, 404);
+    }
+
+    return NextResponse.json(
+      { snapshot: summarizeSnapshot(captured.snapshot), created: captured.created },
+      { status: captured.created ? 201 : 200 }
+    );
+  } catch (error: any) {
+    console.error("Snapshot capture error:", error);
+    return errorResponse(`Error storing snapshot: ${error.message}`, 500);
+  }
+}
@@ -0,0 +1,552 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useNarrativeStream, isPlaceholderBullet } from "@/lib/useNarrativeStream";
+import { useFinancialStream } from "@/lib/useFinancialStream";
+import {
+	RefreshCw,
+	AlertTriangle,
+	Loader2,
+	ExternalLink,
+	History,
+} from "lucide-react";
+import { useRef, useEffect } from "react";
+import NarrativeSkeleton from "./NarrativeSkeleton";
+import NarrativeCard from "./NarrativeCard";
+import CollectionProgressPanel from "./CollectionProgressPanel";
+import FinancialRealityStreamView from "./FinancialRealityStreamView";
+import NarrativeFinancialComparison from "./NarrativeFinancialComparison";
+import SnapshotHistory from "./SnapshotHistory";
+import DivergenceChart from "./DivergenceChart";
+import {
+	ANALYSIS_SOURCES,
+	ANALYSIS_WINDOWS,
+	analysisPath,
+	windowDays,
+	type AnalysisOptions,
+	type AnalysisSource,
+} from "@/lib/analysisOptions";
+import type { StreamEvent } from "@/lib/streamProtocol";
+import {
+	useSnapshotHistory,
+	useDivergenceHistory,
+	saveSnapshot,
+} from "@/lib/useSnapshots";
+import type { SnapshotSummary } from "@/lib/snapshots";
+import type { ComparisonResult } from "@/lib/divergence";
+import {
+	AGGREGATION_LABELS,
+	AGGREGATION_STRATEGIES,
+	describeBreakdown,
+	isAggregationStrategy,
+} from "@/lib/sentiment";
+
+interface AnalysisViewProps {
+	company: string;
+	options: AnalysisOptions;
+	initialNarrative?: StreamEvent[]; // Cached or snapshot narrative events prefetched by the page
+	initialFinancial?: StreamEvent[]; // Cached or snapshot financial events prefetched by the page
+	snapshot?: SnapshotSummary; // Stored run being reopened, if any
+	storedDivergence?: ComparisonResult; // Divergence saved with the reopened run
+}
+
+const SOURCE_LABELS: Record<AnalysisSource, string> = {
+	reddit: "Reddit",
+	filings: "Filings",
+};
+
+const formatTime = (iso: string) =>
+	new Date(iso).toLocaleString(undefined, {
+		dateStyle: "medium",
+		timeStyle: "short",
+	});
+
+/**
+ * Narrative, financial reality and their comparison for one company.
+ * Changing the window or sources navigates, so every view has its own URL.
+ * Finished live runs are saved as snapshots and listed in the history,
+ * below a chart of the divergence score across them.
+ */
+export default function AnalysisView({
+	company,
+	options,
+	initialNarrative,
+	initialFinancial,
+	snapshot,
+	storedDivergence,
+}: AnalysisViewProps) {
+	const router = useRouter();
+	const showNarrative = options.sources.includes("reddit");
+	const showFinancial = options.sources.includes("filings");
+
+	// Get streaming content using our custom hooks
+	const {
+		bulletPoints,
+		collection,
+		meta,
+		warnings,
+		rawContent,
+		isLoading,
+		isDone,
+		error,
+	} = useNarrativeStream(showNarrative ? company : null, {
+		window: options.window,
+		aggregation: options.aggregation,
+		initialEvents: initialNarrative,
+	});
+	// Opened once here and passed to the financial view
+	const financialStream = useFinancialStream(
+		showFinancial ? company : null,
+		initialFinancial
+	);
+	const {
+		financialData,
+		rawContent: financialRawContent,
+		isLoading: isFinancialLoading,
+		isDone: isFinancialDone,
+		error: financialError,
+	} = financialStream;
+
+	// Sources that are switched off count as finished
+	const narrativeSettled = !showNarrative || isDone;
+	const financialSettled = !showFinancial || isFinancialDone;
+
+	const history = useSnapshotHistory(company);
+	const divergenceHistory = useDivergenceHistory(company);
+	const savedRunRef = useRef<string | null>(null);
+
+	// Save each finished live run once; the server skips runs it already stored
+	const finished =
+		narrativeSettled &&
+		financialSettled &&
+		!error &&
+		!financialError &&
+		!!(rawContent || financialRawContent);
+	const runKey = `${company}|${options.window}|${options.sources.join(",")}|${options.aggregation ?? ""}`;
+	const { refresh: refreshHistory } = history;
+	const { refresh: refreshDivergence } = divergenceHistory;
+
+	useEffect(() => {
+		if (snapshot || !finished || savedRunRef.current === runKey) return;
+		savedRunRef.current = runKey;
+
+		saveSnapshot(company, options)
+			.then(() => {
+				refreshHistory();
+				refreshDivergence();
+			})
+			.catch((err) => console.warn("Snapshot not saved:", err.message));
+	}, [
+		snapshot,
+		finished,
+		runKey,
+		company,
+		options,
+		refreshHistory,
+		refreshDivergence,
+	]);
+
+	const handleReset = () => {
+		router.push("/");
+	};
+
+	const updateOptions = (next: Partial<AnalysisOptions>) => {
+		router.push(analysisPath(company, { ...options, ...next }));
+	};
+
+	// At least one source stays on
+	const toggleSource = (source: AnalysisSource) => {
+		const sources = ANALYSIS_SOURCES.filter((s) =>
+			s === source ? !options.sources.includes(s) : options.sources.includes(s)
+		);
+		if (sources.length > 0) updateOptions({ sources });
+	};
+
+	// Auto-scroll to bottom of content as new chunks arrive
+	const resultsRef = useRef<HTMLDivElement>(null);
+
+	useEffect(() => {
+		if (resultsRef.current && (isLoading || isFinancialLoading)) {
+			resultsRef.current.scrollTop = resultsRef.current.scrollHeight;
+		}
+	}, [rawContent, financialRawContent, isLoading, isFinancialLoading]);
+
+	return (
+		<div className="flex flex-col w-full max-w-xl">
+			{/* Reopened snapshot banner */}
+			{snapshot && (
+				<div className="flex items-center mb-4 px-3 py-2 text-sm text-blue-200 rounded-lg bg-blue-900/30">
+					<History size={16} className="mr-2 flex-shrink-0" />
+					Viewing the analysis from {formatTime(snapshot.createdAt)}
+				</div>
+			)}
+
+			{/* Analysis options */}
+			<div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+				<label className="flex items-center gap-2 text-sm text-gray-400">
+					Reddit window
+					<select
+						value={options.window}
+						onChange={(e) =>
+							updateOptions({
+								window: e.target.value as AnalysisOptions["window"],
+							})
+						}
+						disabled={!showNarrative}
+						className="rounded-lg border-none bg-gray-800/70 px-2 py-1.5 text-sm text-white
+                     focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+					>
+						{ANALYSIS_WINDOWS.map((window) => (
+							<option key={window} value={window}>
+								Past {windowDays(window)} days
+							</option>
+						))}
+					</select>
+				</label>
+
+				<label className="flex items-center gap-2 text-sm text-gray-400">
+					Weighting
+					<select
+						value={options.aggregation ?? ""}
+						onChange={(e) =>
+							updateOptions({
+								aggregation: isAggregationStrategy(e.target.value)
+									? e.target.value
+									: undefined,
+							})
+						}
+						disabled={!showNarrative}
+						className="rounded-lg border-none bg-gray-800/70 px-2 py-1.5 text-sm text-white
+                     focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+					>
+						<option value="">Default</option>
+						{AGGREGATION_STRATEGIES.map((strategy) => (
+							<option key={strategy} value={strategy}>
+								{AGGREGATION_LABELS[strategy]}
+							</option>
+						))}
+					</select>
+				</label>
+
+				<div className="flex items-center gap-2">
+					<span className="text-sm text-gray-400">Sources</span>
+					{ANALYSIS_SOURCES.map((source) => {
+						const active = options.sources.includes(source);
+						return (
+							<button
+								key={source}
+								type="button"
+								onClick={() => toggleSource(source)}
+								aria-pressed={active}
+								className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${
+									active
+										? "bg-blue-600/30 text-blue-300 hover:bg-blue-600/40"
+										: "bg-gray-800/70 text-gray-400 hover:bg-gray-700"
+								}`}
+							>
+								{SOURCE_LABELS[source]}
+							</button>
+						);
+					})}
+				</div>
+			</div>
+
+			<div className="space-y-8">
+				{/* Media Narrative Section */}
+				{showNarrative && (
+					<div>
+						<h2 className="text-xl font-semibold text-white mb-3 flex items-center">
+							<span className="w-1.5 h-5 bg-blue-500 rounded-sm mr-2"></span>
+							Media Narrative
+						</h2>
+
+						{/* Reddit collection progress, until the analysis starts streaming */}
+						{isLoading && !rawContent && !error && collection && (
+							<CollectionProgressPanel
+								company={meta.company || company}
+								progress={collection}
+							/>
+						)}
+
+						{/* Narrative content */}
+						{isLoading && !rawContent && !error ? (
+							<NarrativeSkeleton />
+						) : isDone && bulletPoints.length > 0 && !error ? (
+							<NarrativeCard
+								company={company}
+								bulletPoints={bulletPoints}
+							/>
+						) : (
+							<div
+								ref={resultsRef}
+								className="relative overflow-hidden rounded-xl border border-gray-700
+                     bg-gray-800/50 shadow-lg"
+							>
+								{/* Header */}
+								<div className="flex items-center justify-between px-4 py-3 border-b border-gray-700 bg-gray-800/80">
+									<h3 className="text-lg font-medium text-white">
+										{`Media Narratives: ${
+											meta.entity?.known
+												? `${meta.entity.shortName} (${meta.entity.ticker})`
+												: company.toUpperCase()
+										}`}
+									</h3>
+
+									<div className="flex items-center space-x-2">
+										{isDone && (
+											<button
+												onClick={handleReset}
+												className="p-1.5 rounded-full hover:bg-gray-700 text-gray-400 hover:text-gray-200 transition-colors"
+												title="New search"
+											>
+												<RefreshCw size={18} />
+											</button>
+										)}
+									</div>
+								</div>
+
+								{/* Content */}
+								<div className="p-5">
+									{error ? (
+										<div className="flex items-center p-4 text-sm text-red-300 rounded-lg bg-red-900/30">
+											<AlertTriangle
+												size={18}
+												className="mr-3 flex-shrink-0"
+											/>
+											<div>
+												<p className="font-medium mb-1">
+													Error connecting to
+													Perplexity API
+												</p>
+												<p className="text-red-200/70">
+													{error}
+												</p>
+											</div>
+										</div>
+									) : (
+										<div className="space-y-4">
+											{bulletPoints.length > 0 ? (
+												<ul className="space-y-3">
+													{bulletPoints.map(
+														(bullet, idx) => (
+															<li
+																key={idx}
+																className="flex items-start"
+															>
+																<div className="flex-shrink-0 w-6 h-6 mr-3 flex items-center justify-center rounded-full bg-blue-900/40 text-blue-400 text-sm font-medium">
+																	{idx + 1}
+																</div>
+																<div className="text-gray-200 leading-relaxed">
+																	<span>
+																		{
+																			bullet.text
+																		}
+																	</span>
+																	{bullet.source && (
+																		<a
+																			href={
+																				bullet
+																					.source
+																					.url
+																			}
+																			target="_blank"
+																			rel="noopener noreferrer"
+																			className="inline-flex items-center ml-1 text-blue-400 hover:underline"
+																		>
+																			<span className="text-xs font-medium">
+																				[Source
+																			</span>
+																			<ExternalLink
+																				size={
+																					10
+																				}
+																				className="ml-0.5 mr-0.5"
+																			/>
+																			<span className="text-xs font-medium">
+																				]
+																			</span>
+																		</a>
+																	)}
+																</div>
+															</li>
+														)
+													)}
+												</ul>
+											) : (
+												<div className="py-8 text-center text-gray-400">
+													<Loader2
+														size={28}
+														className="mx-auto mb-3 animate-spin text-blue-500"
+													/>
+													<p>
+														Searching across news,
+														blogs, Twitter, and
+														YouTube...
+													</p>
+												</div>
+											)}
+										</div>
+									)}
+								</div>
+
+								{/* Footer with streaming indicator */}
+								{isLoading && !error && (
+									<div className="px-4 py-2 border-t border-gray-700 bg-gray-800 text-xs text-gray-400">
+										<div className="flex items-center">
+											<div className="flex space-x-1 mr-2">
+												<div
+													className="w-1 h-1 rounded-full bg-blue-500 animate-pulse"
+													style={{
+														animationDuration: "1s",
+														animationDelay: "0ms",
+													}}
+												></div>
+												<div
+													className="w-1 h-1 rounded-full bg-blue-500 animate-pulse"
+													style={{
+														animationDuration: "1s",
+														animationDelay: "300ms",
+													}}
+												></div>
+												<div
+													className="w-1 h-1 rounded-full bg-blue-500 animate-pulse"
+													style={{
+														animationDuration: "1s",
+														animationDelay: "600ms",
+													}}
+												></div>
+											</div>
+											<span>
+												Streaming results as they
+												arrive...
+											</span>
+										</div>
+									</div>
+								)}
+							</div>
+						)}
+
+						{/* Degraded data warnings, e.g. Reddit unavailable */}
+						{warnings.map((warning) => (
+							<div
+								key={warning.code}
+								className="flex items-center mt-3 px-3 py-2 text-xs text-amber-300 rounded-lg bg-amber-900/20"
+							>
+								<AlertTriangle
+									size={14}
+									className="mr-2 flex-shrink-0"
+								/>
+								{warning.message}
+							</div>
+						))}
+
+						{/* Source note (matching the non-streaming route) */}
+						{isDone && !error && !!meta.totalPosts && (
+							<p className="mt-3 text-xs text-gray-400">
+								Based on comprehensive analysis of{" "}
+								{meta.totalPosts} Reddit posts across{" "}
+								{meta.subredditCount} investing subreddits over
+								the past {windowDays(options.window)} days.
+							</p>
+						)}
+
+						{/* Which aggregation produced the headline percentages */}
+						{isDone && !error && meta.sentiment && (
+							<p
+								className="mt-1 text-xs text-gray-400"
+								title={`${meta.sentiment.posts} posts, worth ${meta.sentiment.effectiveSize} equally weighted posts; ranges are 95% confidence intervals`}
+							>
+								Headline sentiment is{" "}
+								{AGGREGATION_LABELS[meta.sentiment.strategy]}:{" "}
+								{describeBreakdown(meta.sentiment)}.
+							</p>
+						)}
+					</div>
+				)}
+
+				{/* Financial Reality Section */}
+				{showFinancial && (
+					<div>
+						<h2 className="text-xl font-semibold text-white mb-3 flex items-center">
+							<span className="w-1.5 h-5 bg-green-500 rounded-sm mr-2"></span>
+							Financial Reality
+						</h2>
+						<FinancialRealityStreamView
+							company={company}
+							stream={financialStream}
+						/>
+					</div>
+				)}
+
+				{/* Comparison Section - only show when both sources ran and finished */}
+				{showNarrative &&
+					showFinancial &&
+					isDone &&
+					!error &&
+					isFinancialDone &&
+					!financialError &&
+					bulletPoints.length > 0 && (
+						<div>
+							<h2 className="text-xl font-semibold text-white mb-3 flex items-center">
+								<span className="w-1.5 h-5 bg-purple-500 rounded-sm mr-2"></span>
+								Narrative vs Reality
+							</h2>
+							<NarrativeFinancialComparison
+								company={company}
+								narratives={bulletPoints
+									.filter((bp) => !isPlaceholderBullet(bp))
+									.map((bp) => bp.text)}
+								stored={storedDivergence}
+								financialData={{
+									company,
+									fundamentals: financialData.fundamentals.map(
+										(item) => item.text
+									),
+									risks: financialData.risks.map(
+										(item) => item.text
+									),
+									trends: financialData.trends.map(
+										(item) => item.text
+									),
+									source: financialData.source,
+									date: financialData.date,
+								}}
+								isLoading={isLoading || isFinancialLoading}
+							/>
+						</div>
+					)}
+
+				{/* Reset button for completed analyses */}
+				{narrativeSettled &&
+					financialSettled &&
+					!isLoading &&
+					!isFinancialLoading && (
+						<div className="flex justify-center mt-8">
+							<button
+								onClick={handleReset}
+								className="px-4 py-2 text-sm font-medium text-blue-400 border border-blue-900/50
+                      rounded-lg hover:bg-blue-900/20 transition-colors"
+							>
+								<RefreshCw size={14} className="inline mr-2" />
+								New Analysis
+							</button>
+						</div>
+					)}
+
+				{/* Past runs */}
+				<DivergenceChart
+					company={company}
+					series={divergenceHistory.series}
+					isLoading={divergenceHistory.isLoading}
+					currentId={snapshot?.id}
+				/>
+				<SnapshotHistory
+					company={company}
+					snapshots={history.snapshots}
+					isLoading={history.isLoading}
+					currentId={snapshot?.id}
+				/>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import { ExternalLink } from "lucide-react";
+import type { Citation } from "@/types/perplexity";
+
+interface CitationFootnotesProps {
+	citations: Citation[];
+	className?: string;
+}
+
+interface CitationMarkersProps {
+	citations: Citation[];
+	className?: string;
+}
+
+// Formats a citation date like "Apr 23, 2025", keeping unparseable dates as-is
+const formatDate = (date: string) => {
+	const parsed = new Date(date);
+	return isNaN(parsed.getTime())
+		? date
+		: parsed.toLocaleDateString(undefined, {
+				month: "short",
+				day: "numeric",
+				year: "numeric",
+		  });
+};
+
+/**
+ * Superscript footnote numbers linking a bullet to its sources
+ */
+export function CitationMarkers({
+	citations,
+	className = "",
+}: CitationMarkersProps) {
+	if (citations.length === 0) return null;
+
+	return (
+		<sup className={`ml-0.5 space-x-0.5 ${className}`}>
+			{citations.map((citation) => (
+				<a
+					key={citation.index}
+					href={citation.url}
+					target="_blank"
+					rel="noopener noreferrer"
+					title={citation.title || citation.domain}
+					className="text-blue-600 dark:text-blue-400 hover:underline"
+				>
+					[{citation.index}]
+				</a>
+			))}
+		</sup>
+	);
+}
+
+/**
+ * Numbered list of sources with domain, title and date
+ */
+export default function CitationFootnotes({
+	citations,
+	className = "",
+}: CitationFootnotesProps) {
+	if (citations.length === 0) return null;
+
+	return (
+		<ol className={`space-y-1 text-xs text-gray-500 dark:text-gray-400 ${className}`}>
+			{citations.map((citation) => (
+				<li key={citation.index} className="flex items-start gap-1.5">
+					<span className="flex-shrink-0 font-medium text-gray-400 dark:text-gray-500">
+						[{citation.index}]
+					</span>
+					<a
+						href={citation.url}
+						target="_blank"
+						rel="noopener noreferrer"
+						className="min-w-0 hover:underline"
+					>
+						<span className="font-medium text-blue-600 dark:text-blue-400">
+							{citation.domain}
+						</span>
+						{citation.title && (
+							<span className="ml-1 text-gray-600 dark:text-gray-300">
+								{citation.title}
+							</span>
+						)}
+						{citation.date && (
+							<span className="ml-1">
+								· {formatDate(citation.date)}
+							</span>
+						)}
+						<ExternalLink
+							size={10}
+							className="inline ml-1 align-baseline"
+						/>
+					</a>
+				</li>
+			))}
+		</ol>
+	);
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { CheckCircle2, Database, Loader2 } from "lucide-react";
+import type { CollectionProgress } from "@/lib/redditClient";
+
+interface CollectionProgressPanelProps {
+	company: string;
+	progress: CollectionProgress;
+}
+
+/**
+ * Live view of Reddit collection while the narrative stream is being prepared
+ */
+export default function CollectionProgressPanel({
+	company,
+	progress,
+}: CollectionProgressPanelProps) {
+	const percent =
+		progress.total > 0
+			? Math.round((progress.completed / progress.total) * 100)
+			: 0;
+	const finished = progress.cached || progress.completed >= progress.total;
+
+	const stats = [
+		{ label: "Posts found", value: progress.uniquePosts },
+		{
+			label: "Subreddits",
+			value: progress.cached
+				? progress.subredditsCovered
+				: `${progress.subredditsCovered}/${progress.subredditsTotal}`,
+		},
+		{ label: "Duplicates removed", value: progress.duplicates },
+	];
+
+	return (
+		<div className="mb-4 rounded-xl border border-gray-700 bg-gray-800/50 shadow-lg">
+			{/* Header */}
+			<div className="flex items-center justify-between px-4 py-3 border-b border-gray-700 bg-gray-800/80">
+				<h3 className="text-sm font-medium text-white flex items-center">
+					{finished ? (
+						<CheckCircle2 size={16} className="mr-2 text-green-400" />
+					) : (
+						<Loader2
+							size={16}
+							className="mr-2 animate-spin text-blue-400"
+						/>
+					)}
+					{progress.cached
+						? `Using recent Reddit collection for ${company.toUpperCase()}`
+						: `Searching Reddit for ${company.toUpperCase()}`}
+				</h3>
+				{progress.cached ? (
+					<span className="flex items-center text-xs text-gray-400">
+						<Database size={12} className="mr-1" />
+						Cached
+					</span>
+				) : (
+					<span className="text-xs text-gray-400">
+						{progress.completed}/{progress.total} searches
+					</span>
+				)}
+			</div>
+
+			<div className="p-4 space-y-3">
+				{/* Search progress */}
+				{!progress.cached && (
+					<div className="h-1.5 w-full overflow-hidden rounded-full bg-gray-700">
+						<div
+							className="h-full rounded-full bg-blue-500 transition-all duration-300"
+							style={{ width: `${percent}%` }}
+						></div>
+					</div>
+				)}
+
+				<div className="grid grid-cols-3 gap-3">
+					{stats.map((stat) => (
+						<div key={stat.label}>
+							<p className="text-lg font-semibold text-white">
+								{stat.value}
+							</p>
+							<p className="text-xs text-gray-400">{stat.label}</p>
+						</div>
+					))}
+				</div>
+
+				<p className="text-xs text-gray-500">
+					{finished
+						? "Collection complete. Waiting for the analysis to start..."
+						: progress.subreddit && progress.query
+						? `Last searched r/${progress.subreddit} for "${progress.query}"`
+						: null}
+					{progress.failed > 0 &&
+						` · ${progress.failed} ${
+							progress.failed === 1 ? "search" : "searches"
+						} failed`}
+					{progress.ambiguous > 0 &&
+						` · ${progress.ambiguous} ambiguous ${
+							progress.ambiguous === 1 ? "post" : "posts"
+						} discarded`}
+				</p>
+			</div>
+		</div>
+	);
+}
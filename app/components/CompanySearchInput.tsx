@@ -0,0 +1,142 @@
+"use client";
+
+import { useState, type KeyboardEvent, type RefObject } from "react";
+import { useCompanySuggestions } from "@/lib/useCompanySuggestions";
+import type { CompanySuggestion } from "@/lib/entities";
+
+interface CompanySearchInputProps {
+	id: string;
+	value: string;
+	onChange: (value: string) => void;
+	onSelect: (suggestion: CompanySuggestion) => void;
+	disabled?: boolean;
+	placeholder?: string;
+	className?: string;
+	inputRef?: RefObject<HTMLInputElement | null>;
+}
+
+/**
+ * Text input that suggests companies by ticker or name as the user types.
+ * Arrow keys move through suggestions, Enter picks the highlighted one and
+ * Escape closes the list. Enter with nothing highlighted submits the form.
+ */
+export default function CompanySearchInput({
+	id,
+	value,
+	onChange,
+	onSelect,
+	disabled = false,
+	placeholder,
+	className,
+	inputRef,
+}: CompanySearchInputProps) {
+	const [focused, setFocused] = useState(false);
+	const [dismissed, setDismissed] = useState(false);
+	const [activeIndex, setActiveIndex] = useState(-1);
+	const { suggestions } = useCompanySuggestions(value, focused && !disabled);
+
+	const listId = `${id}-suggestions`;
+	const open = focused && !dismissed && suggestions.length > 0;
+	const active = open && activeIndex < suggestions.length ? activeIndex : -1;
+
+	const select = (suggestion: CompanySuggestion) => {
+		onChange(suggestion.ticker);
+		setDismissed(true);
+		setActiveIndex(-1);
+		onSelect(suggestion);
+	};
+
+	const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+		if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+			e.preventDefault();
+			if (!open) {
+				setDismissed(false);
+				return;
+			}
+			const step = e.key === "ArrowDown" ? 1 : -1;
+			setActiveIndex(
+				(active + step + suggestions.length) % suggestions.length
+			);
+		} else if (e.key === "Enter" && active >= 0) {
+			e.preventDefault();
+			select(suggestions[active]);
+		} else if (e.key === "Escape" && open) {
+			e.preventDefault();
+			setDismissed(true);
+			setActiveIndex(-1);
+		}
+	};
+
+	return (
+		<>
+			<input
+				ref={inputRef}
+				type="text"
+				id={id}
+				role="combobox"
+				aria-autocomplete="list"
+				aria-expanded={open}
+				aria-controls={listId}
+				aria-activedescendant={
+					active >= 0 ? `${listId}-${active}` : undefined
+				}
+				autoComplete="off"
+				spellCheck={false}
+				placeholder={placeholder}
+				value={value}
+				onChange={(e) => {
+					onChange(e.target.value);
+					setDismissed(false);
+					setActiveIndex(-1);
+				}}
+				onKeyDown={handleKeyDown}
+				onFocus={() => setFocused(true)}
+				onBlur={() => {
+					setFocused(false);
+					setActiveIndex(-1);
+				}}
+				disabled={disabled}
+				className={className}
+			/>
+
+			{open && (
+				<ul
+					id={listId}
+					role="listbox"
+					className="absolute left-0 right-0 top-full z-20 mt-1 max-h-80 overflow-y-auto
+                     rounded-lg border border-gray-700 bg-gray-800 py-1 shadow-lg"
+				>
+					{suggestions.map((suggestion, index) => (
+						<li
+							key={suggestion.ticker}
+							id={`${listId}-${index}`}
+							role="option"
+							aria-selected={index === active}
+							// Keep focus in the input so the click lands before blur closes the list
+							onMouseDown={(e) => e.preventDefault()}
+							onClick={() => select(suggestion)}
+							onMouseEnter={() => setActiveIndex(index)}
+							className={`flex cursor-pointer items-center justify-between px-3 py-2 text-sm ${
+								index === active
+									? "bg-blue-600/30 text-white"
+									: "text-gray-300"
+							}`}
+						>
+							<span className="flex min-w-0 items-center gap-3">
+								<span className="w-20 shrink-0 font-mono font-semibold text-white">
+									{suggestion.ticker}
+								</span>
+								<span className="truncate">{suggestion.name}</span>
+							</span>
+							{suggestion.exchange && (
+								<span className="ml-3 shrink-0 rounded bg-gray-700 px-1.5 py-0.5 text-xs text-gray-400">
+									{suggestion.exchange}
+								</span>
+							)}
+						</li>
+					))}
+				</ul>
+			)}
+		</>
+	);
+}
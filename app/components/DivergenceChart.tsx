@@ -0,0 +1,329 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { LineChart, Loader2 } from "lucide-react";
+import { analysisPath } from "@/lib/analysisOptions";
+import type { DivergencePoint, DivergenceSeries } from "@/lib/snapshots";
+
+interface DivergenceChartProps {
+	company: string;
+	series: DivergenceSeries | null;
+	isLoading?: boolean;
+	currentId?: string; // Snapshot being viewed, if any
+}
+
+// Chart geometry in SVG units
+const WIDTH = 600;
+const HEIGHT = 220;
+const PAD = { top: 20, right: 36, bottom: 28, left: 36 };
+const PLOT_W = WIDTH - PAD.left - PAD.right;
+const PLOT_H = HEIGHT - PAD.top - PAD.bottom;
+
+const levelFill = {
+	low: "#4ade80",
+	medium: "#facc15",
+	high: "#f87171",
+};
+
+const formatDate = (iso: string) =>
+	new Date(iso).toLocaleDateString(undefined, {
+		month: "short",
+		day: "numeric",
+	});
+
+const formatSentiment = (value: number | null) =>
+	value === null ? "n/a" : `${value > 0 ? "+" : ""}${value.toFixed(2)}`;
+
+/**
+ * SVG path through the points that have a value, broken where one is missing
+ * or, when `segment` is given, where its key changes
+ */
+function linePath(
+	points: DivergencePoint[],
+	x: (point: DivergencePoint) => number,
+	y: (point: DivergencePoint) => number | null,
+	segment?: (point: DivergencePoint) => string
+): string {
+	let path = "";
+	let pen = false;
+	let key: string | null = null;
+	for (const point of points) {
+		const value = y(point);
+		if (value === null) {
+			pen = false;
+			continue;
+		}
+		if (segment && segment(point) !== key) {
+			key = segment(point);
+			pen = false;
+		}
+		path += `${pen ? "L" : "M"}${x(point).toFixed(1)},${value.toFixed(1)} `;
+		pen = true;
+	}
+	return path.trim();
+}
+
+/**
+ * Divergence score over a company's stored runs, with the sentiment of each
+ * side, filing/earnings dates and Reddit volume spikes marked. The score line
+ * breaks where the scoring algorithm changed. Clicking a point reopens that run.
+ */
+export default function DivergenceChart({
+	company,
+	series,
+	isLoading = false,
+	currentId,
+}: DivergenceChartProps) {
+	const router = useRouter();
+	const points = series?.points ?? [];
+	const earnings = series?.earnings ?? [];
+	const versions = series?.versions ?? [];
+
+	const header = (
+		<div className="flex items-center justify-between px-4 py-3 border-b border-gray-700 bg-gray-800/80">
+			<h3 className="flex items-center text-sm font-medium text-white">
+				<LineChart size={16} className="mr-2 text-gray-400" />
+				Divergence over time
+			</h3>
+			{points.length > 0 && (
+				<span className="text-xs text-gray-400">
+					{points.length} run{points.length === 1 ? "" : "s"}
+				</span>
+			)}
+		</div>
+	);
+
+	if (points.length < 2) {
+		return (
+			<div className="rounded-xl border border-gray-700 bg-gray-800/50 shadow-lg">
+				{header}
+				{isLoading ? (
+					<div className="flex items-center justify-center py-6 text-sm text-gray-400">
+						<Loader2 size={16} className="mr-2 animate-spin" />
+						Loading scores...
+					</div>
+				) : (
+					<p className="px-4 py-6 text-center text-sm text-gray-400">
+						The trend appears once {company} has two saved runs with both
+						Reddit and filings.
+					</p>
+				)}
+			</div>
+		);
+	}
+
+	// Time axis spans the runs and any filing dates before them
+	const times = [
+		...points.map((point) => Date.parse(point.createdAt)),
+		...earnings.map((marker) => Date.parse(marker.date)),
+	];
+	const start = Math.min(...times);
+	const span = Math.max(Math.max(...times) - start, 1);
+	const xOf = (iso: string) =>
+		PAD.left + ((Date.parse(iso) - start) / span) * PLOT_W;
+	const x = (point: DivergencePoint) => xOf(point.createdAt);
+
+	// Score on the left axis (0-100), sentiment on the right (-1 to 1)
+	const scoreY = (score: number) => PAD.top + (1 - score / 100) * PLOT_H;
+	const sentimentY = (value: number | null) =>
+		value === null ? null : PAD.top + ((1 - value) / 2) * PLOT_H;
+
+	return (
+		<div className="rounded-xl border border-gray-700 bg-gray-800/50 shadow-lg">
+			{header}
+			<div className="px-2 pt-3">
+				<svg
+					viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+					className="w-full h-auto"
+					role="img"
+					aria-label={`Divergence score of ${company} across ${points.length} runs`}
+				>
+					{/* Grid and axes */}
+					{[0, 50, 100].map((score) => (
+						<g key={score}>
+							<line
+								x1={PAD.left}
+								x2={WIDTH - PAD.right}
+								y1={scoreY(score)}
+								y2={scoreY(score)}
+								stroke="#374151"
+								strokeDasharray={score === 50 ? "2 4" : undefined}
+							/>
+							<text
+								x={PAD.left - 6}
+								y={scoreY(score) + 3}
+								textAnchor="end"
+								fontSize="10"
+								fill="#9ca3af"
+							>
+								{score}
+							</text>
+							<text
+								x={WIDTH - PAD.right + 6}
+								y={scoreY(score) + 3}
+								fontSize="10"
+								fill="#9ca3af"
+							>
+								{score === 100 ? "+1" : score === 50 ? "0" : "−1"}
+							</text>
+						</g>
+					))}
+
+					{/* Filing / earnings dates */}
+					{earnings.map((marker) => (
+						<g key={marker.date}>
+							<line
+								x1={xOf(marker.date)}
+								x2={xOf(marker.date)}
+								y1={PAD.top}
+								y2={HEIGHT - PAD.bottom}
+								stroke="#a78bfa"
+								strokeDasharray="4 3"
+							>
+								<title>{`${marker.source} (${marker.date})`}</title>
+							</line>
+							<text
+								x={xOf(marker.date)}
+								y={PAD.top - 6}
+								textAnchor="middle"
+								fontSize="9"
+								fill="#a78bfa"
+							>
+								{marker.source.split(" ")[0]}
+							</text>
+						</g>
+					))}
+
+					{/* Sentiment components */}
+					<path
+						d={linePath(points, x, (point) =>
+							sentimentY(point.narrativeSentiment)
+						)}
+						fill="none"
+						stroke="#60a5fa"
+						strokeWidth="1.5"
+						strokeDasharray="5 3"
+						opacity="0.7"
+					/>
+					<path
+						d={linePath(points, x, (point) =>
+							sentimentY(point.financialSentiment)
+						)}
+						fill="none"
+						stroke="#34d399"
+						strokeWidth="1.5"
+						strokeDasharray="5 3"
+						opacity="0.7"
+					/>
+
+					{/* Divergence score */}
+					<path
+						d={linePath(
+							points,
+							x,
+							(point) => scoreY(point.score),
+							(point) => point.version
+						)}
+						fill="none"
+						stroke="#e5e7eb"
+						strokeWidth="2"
+					/>
+					{points.map((point) => (
+						<g
+							key={point.id}
+							className="cursor-pointer"
+							onClick={() =>
+								router.push(
+									analysisPath(company, { window: point.window }, point.id)
+								)
+							}
+						>
+							{point.volumeSpike && (
+								<circle
+									cx={x(point)}
+									cy={scoreY(point.score)}
+									r="9"
+									fill="none"
+									stroke="#fb923c"
+									strokeWidth="2"
+								/>
+							)}
+							<circle
+								cx={x(point)}
+								cy={scoreY(point.score)}
+								r={point.id === currentId ? 6 : 4}
+								fill={levelFill[point.divergence]}
+								stroke={point.id === currentId ? "#ffffff" : "#111827"}
+								strokeWidth="1.5"
+							/>
+							<title>
+								{[
+									`${new Date(point.createdAt).toLocaleString()}`,
+									`Divergence ${point.score}% (${point.divergence}, ${point.version})`,
+									`Narrative sentiment ${formatSentiment(point.narrativeSentiment)}`,
+									`Financial sentiment ${formatSentiment(point.financialSentiment)}`,
+									`${point.postsPerDay} Reddit posts/day${
+										point.volumeSpike ? " (volume spike)" : ""
+									}`,
+								].join("\n")}
+							</title>
+						</g>
+					))}
+
+					{/* First and last run dates */}
+					<text
+						x={x(points[0])}
+						y={HEIGHT - 8}
+						textAnchor="start"
+						fontSize="10"
+						fill="#9ca3af"
+					>
+						{formatDate(points[0].createdAt)}
+					</text>
+					<text
+						x={x(points[points.length - 1])}
+						y={HEIGHT - 8}
+						textAnchor="end"
+						fontSize="10"
+						fill="#9ca3af"
+					>
+						{formatDate(points[points.length - 1].createdAt)}
+					</text>
+				</svg>
+			</div>
+
+			{/* Legend */}
+			<div className="flex flex-wrap gap-x-4 gap-y-1 px-4 pb-3 text-xs text-gray-400">
+				<span className="flex items-center">
+					<span className="mr-1.5 inline-block h-0.5 w-4 bg-gray-200"></span>
+					Divergence score
+				</span>
+				<span className="flex items-center">
+					<span className="mr-1.5 inline-block h-0.5 w-4 border-t-2 border-dashed border-blue-400"></span>
+					Reddit sentiment
+				</span>
+				<span className="flex items-center">
+					<span className="mr-1.5 inline-block h-0.5 w-4 border-t-2 border-dashed border-emerald-400"></span>
+					Filings sentiment
+				</span>
+				{earnings.length > 0 && (
+					<span className="flex items-center">
+						<span className="mr-1.5 inline-block h-3 border-l-2 border-dashed border-violet-400"></span>
+						Filing / earnings date
+					</span>
+				)}
+				{versions.length > 1 && (
+					<span className="flex items-center">
+						Score line breaks where the algorithm changed ({versions.join(" → ")})
+					</span>
+				)}
+				{points.some((point) => point.volumeSpike) && (
+					<span className="flex items-center">
+						<span className="mr-1.5 inline-block h-3 w-3 rounded-full border-2 border-orange-400"></span>
+						Reddit volume spike
+					</span>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -3,11 +3,7 @@
 /**
  * Animated skeleton UI for financial reality loading state
  */
-export default function FinancialRealitySkeleton({
-	company,
-}: {
-	company: string;
-}) {
+export default function FinancialRealitySkeleton() {
 	return (
 		<div className="rounded-xl overflow-hidden border border-gray-700 bg-gray-800/50 shadow-lg animate-pulse">
 			{/* Card header */}
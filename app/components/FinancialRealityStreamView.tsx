@@ -11,18 +11,28 @@ import {
 	CheckCircle,
 	Loader2,
 } from "lucide-react";
-import { useFinancialStream } from "@/lib/useFinancialStream";
+import type { FinancialStreamState } from "@/lib/useFinancialStream";
+import type { FinancialItem } from "@/lib/sonarFinancial";
+import CitationFootnotes, { CitationMarkers } from "./CitationFootnotes";
 
 interface FinancialRealityStreamViewProps {
 	company: string | null;
+	stream: FinancialStreamState; // The financial stream, opened once by the parent
 }
 
+// Formats an item as a bullet for copying
+const formatItem = (item: FinancialItem) =>
+	`• ${item.text}${item.significance ? ` — ${item.significance}` : ""}${
+		item.filing ? ` (${item.filing})` : ""
+	}${item.sourceUrl ? ` ${item.sourceUrl}` : ""}`;
+
 /**
  * Component to display streaming financial data
  * Mimics the structure of FinancialRealityCard but with streaming capabilities
  */
 export default function FinancialRealityStreamView({
 	company,
+	stream,
 }: FinancialRealityStreamViewProps) {
 	const [activeTab, setActiveTab] = useState<
 		"fundamentals" | "risks" | "trends"
@@ -30,19 +40,39 @@ export default function FinancialRealityStreamView({
 	const [copied, setCopied] = useState(false);
 	const contentRef = useRef<HTMLDivElement>(null);
 
-	// Use our custom hook to stream financial data
-	const { financialData, rawContent, isLoading, isDone, error } =
-		useFinancialStream(company);
+	const { financialData, rawContent, activeSection, isLoading, isDone, error } =
+		stream;
+
+	// Pulsing dot on the tab whose list is currently streaming in
+	const streamingDot = (tab: typeof activeTab) =>
+		activeSection === tab && (
+			<span className="w-1.5 h-1.5 rounded-full bg-current animate-pulse"></span>
+		);
+
+	// Resolve an item's footnote numbers to citations
+	const citationsFor = (item: FinancialItem) =>
+		(item.citations ?? [])
+			.map((n) => financialData.citations[n - 1])
+			.filter(Boolean);
+
+	// Footnotes for the active tab, or every citation if no item references one
+	const referenced = new Set(
+		financialData[activeTab].flatMap((item) => item.citations ?? [])
+	);
+	const tabFootnotes =
+		referenced.size > 0
+			? financialData.citations.filter((c) => referenced.has(c.index))
+			: financialData.citations;
 
 	// Format financial data for copying
 	const copyText = financialData
 		? `Financial Reality for ${company}:\n\n` +
 		  `FUNDAMENTALS:\n${financialData.fundamentals
-				.map((f) => `• ${f}`)
+				.map(formatItem)
 				.join("\n")}\n\n` +
-		  `RISKS:\n${financialData.risks.map((r) => `• ${r}`).join("\n")}\n\n` +
+		  `RISKS:\n${financialData.risks.map(formatItem).join("\n")}\n\n` +
 		  `TRENDS:\n${financialData.trends
-				.map((t) => `• ${t}`)
+				.map(formatItem)
 				.join("\n")}\n\n` +
 		  `Source: ${financialData.source}, Date: ${financialData.date}`
 		: "";
@@ -64,21 +94,6 @@ export default function FinancialRealityStreamView({
 		}
 	}, [rawContent, isLoading]);
 
-	// Helper function to extract source links from bullet points
-	const extractSourceLink = (text: string) => {
-		const linkMatch = text.match(/\[([^\]]+)\]\(([^)]+)\)/);
-		if (linkMatch) {
-			return {
-				text: text.substring(0, linkMatch.index).trim(),
-				source: {
-					title: linkMatch[1],
-					url: linkMatch[2],
-				},
-			};
-		}
-		return { text, source: null };
-	};
-
 	// If no company is selected, don't render anything
 	if (!company) {
 		return null;
@@ -146,6 +161,7 @@ export default function FinancialRealityStreamView({
 				>
 					<BarChart3 size={16} />
 					Fundamentals
+					{streamingDot("fundamentals")}
 				</button>
 				<button
 					onClick={() => setActiveTab("risks")}
@@ -157,6 +173,7 @@ export default function FinancialRealityStreamView({
 				>
 					<AlertTriangle size={16} />
 					Risks
+					{streamingDot("risks")}
 				</button>
 				<button
 					onClick={() => setActiveTab("trends")}
@@ -168,6 +185,7 @@ export default function FinancialRealityStreamView({
 				>
 					<TrendingUp size={16} />
 					Trends
+					{streamingDot("trends")}
 				</button>
 			</div>
 
@@ -224,8 +242,6 @@ export default function FinancialRealityStreamView({
 										);
 									}
 
-									const { text, source } =
-										extractSourceLink(item);
 									return (
 										<li
 											key={idx}
@@ -235,16 +251,19 @@ export default function FinancialRealityStreamView({
 												{idx + 1}
 											</div>
 											<div className="text-gray-200 leading-relaxed">
-												<span>{text}</span>
-												{source && (
+												<span>{item.text}</span>
+												<CitationMarkers
+													citations={citationsFor(item)}
+												/>
+												{item.sourceUrl && (
 													<a
-														href={source.url}
+														href={item.sourceUrl}
 														target="_blank"
 														rel="noopener noreferrer"
 														className="inline-flex items-center ml-1 text-blue-400 hover:underline"
 													>
 														<span className="text-xs font-medium">
-															[Source
+															[{item.filing || "Source"}
 														</span>
 														<ExternalLink
 															size={10}
@@ -255,6 +274,16 @@ export default function FinancialRealityStreamView({
 														</span>
 													</a>
 												)}
+												{!item.sourceUrl && item.filing && (
+													<span className="ml-1 text-xs text-gray-400">
+														({item.filing})
+													</span>
+												)}
+												{item.significance && (
+													<p className="mt-1 text-sm text-gray-400">
+														{item.significance}
+													</p>
+												)}
 											</div>
 										</li>
 									);
@@ -297,8 +326,6 @@ export default function FinancialRealityStreamView({
 										);
 									}
 
-									const { text, source } =
-										extractSourceLink(item);
 									return (
 										<li
 											key={idx}
@@ -308,16 +335,19 @@ export default function FinancialRealityStreamView({
 												{idx + 1}
 											</div>
 											<div className="text-gray-200 leading-relaxed">
-												<span>{text}</span>
-												{source && (
+												<span>{item.text}</span>
+												<CitationMarkers
+													citations={citationsFor(item)}
+												/>
+												{item.sourceUrl && (
 													<a
-														href={source.url}
+														href={item.sourceUrl}
 														target="_blank"
 														rel="noopener noreferrer"
 														className="inline-flex items-center ml-1 text-red-400 hover:underline"
 													>
 														<span className="text-xs font-medium">
-															[Source
+															[{item.filing || "Source"}
 														</span>
 														<ExternalLink
 															size={10}
@@ -328,6 +358,16 @@ export default function FinancialRealityStreamView({
 														</span>
 													</a>
 												)}
+												{!item.sourceUrl && item.filing && (
+													<span className="ml-1 text-xs text-gray-400">
+														({item.filing})
+													</span>
+												)}
+												{item.significance && (
+													<p className="mt-1 text-sm text-gray-400">
+														{item.significance}
+													</p>
+												)}
 											</div>
 										</li>
 									);
@@ -370,8 +410,6 @@ export default function FinancialRealityStreamView({
 										);
 									}
 
-									const { text, source } =
-										extractSourceLink(item);
 									return (
 										<li
 											key={idx}
@@ -381,16 +419,19 @@ export default function FinancialRealityStreamView({
 												{idx + 1}
 											</div>
 											<div className="text-gray-200 leading-relaxed">
-												<span>{text}</span>
-												{source && (
+												<span>{item.text}</span>
+												<CitationMarkers
+													citations={citationsFor(item)}
+												/>
+												{item.sourceUrl && (
 													<a
-														href={source.url}
+														href={item.sourceUrl}
 														target="_blank"
 														rel="noopener noreferrer"
 														className="inline-flex items-center ml-1 text-green-400 hover:underline"
 													>
 														<span className="text-xs font-medium">
-															[Source
+															[{item.filing || "Source"}
 														</span>
 														<ExternalLink
 															size={10}
@@ -401,12 +442,29 @@ export default function FinancialRealityStreamView({
 														</span>
 													</a>
 												)}
+												{!item.sourceUrl && item.filing && (
+													<span className="ml-1 text-xs text-gray-400">
+														({item.filing})
+													</span>
+												)}
+												{item.significance && (
+													<p className="mt-1 text-sm text-gray-400">
+														{item.significance}
+													</p>
+												)}
 											</div>
 										</li>
 									);
 								})}
 							</ul>
 						)}
+
+						{tabFootnotes.length > 0 && (
+							<CitationFootnotes
+								citations={tabFootnotes}
+								className="mt-4 pt-3 border-t border-gray-700"
+							/>
+						)}
 					</div>
 				)}
 			</div>
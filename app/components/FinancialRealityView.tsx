@@ -20,7 +20,7 @@ export default function FinancialRealityView({
 	}
 
 	if (isLoading) {
-		return <FinancialRealitySkeleton company={company} />;
+		return <FinancialRealitySkeleton />;
 	}
 
 	if (error) {
@@ -60,10 +60,10 @@ export default function FinancialRealityView({
 							No financial data available
 						</p>
 						<p className="text-gray-400">
-							We couldn't find recent official financial
+							We couldn&apos;t find recent official financial
 							information for {company}. This could be because
-							it's a private company, a new listing, or our data
-							sources don't have recent filings.
+							it&apos;s a private company, a new listing, or our data
+							sources don&apos;t have recent filings.
 						</p>
 					</div>
 				</div>
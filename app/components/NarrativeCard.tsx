@@ -1,8 +1,17 @@
 "use client";
 
-import { useState } from "react";
-import { Share2, Copy, CheckCircle2, ExternalLink } from "lucide-react";
+import { useState, type ReactNode } from "react";
+import {
+	Share2,
+	Copy,
+	CheckCircle2,
+	ExternalLink,
+	AlertTriangle,
+} from "lucide-react";
 import type { NarrativeBullet } from "@/lib/useNarrativeStream";
+import type { FigureCheck } from "@/lib/figureVerifier";
+import type { Citation } from "@/types/perplexity";
+import CitationFootnotes, { CitationMarkers } from "./CitationFootnotes";
 
 interface NarrativeCardProps {
 	company: string;
@@ -10,6 +19,47 @@ interface NarrativeCardProps {
 	className?: string;
 }
 
+// Styles for each verification status; verified figures render as plain text
+const FIGURE_STYLES: Record<FigureCheck["status"], string> = {
+	verified: "",
+	approximate:
+		"underline decoration-dotted decoration-amber-500 underline-offset-2",
+	unsupported:
+		"rounded px-0.5 bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300",
+};
+
+/**
+ * Splits bullet text around its figures so unsupported ones are highlighted inline
+ */
+function renderWithFigures(text: string, figures: FigureCheck[] = []) {
+	const parts: ReactNode[] = [];
+	let cursor = 0;
+
+	for (const figure of figures) {
+		const start = text.indexOf(figure.text, cursor);
+		if (start === -1) continue;
+
+		if (start > cursor) parts.push(text.slice(cursor, start));
+		parts.push(
+			<span
+				key={start}
+				className={FIGURE_STYLES[figure.status]}
+				title={
+					figure.status === "unsupported"
+						? "Not found in the Reddit posts analyzed"
+						: figure.evidence
+				}
+			>
+				{figure.text}
+			</span>
+		);
+		cursor = start + figure.text.length;
+	}
+
+	parts.push(text.slice(cursor));
+	return parts;
+}
+
 export default function NarrativeCard({
 	company,
 	bulletPoints,
@@ -17,15 +67,39 @@ export default function NarrativeCard({
 }: NarrativeCardProps) {
 	const [copied, setCopied] = useState(false);
 
+	const unsupportedFigures = bulletPoints.reduce(
+		(count, b) =>
+			count +
+			(b.figures ?? []).filter((f) => f.status === "unsupported").length,
+		0
+	);
+
+	// Footnotes referenced by any bullet, in footnote order
+	const footnotes = Array.from(
+		new Map<number, Citation>(
+			bulletPoints.flatMap((b) =>
+				(b.citations ?? []).map((c) => [c.index, c] as const)
+			)
+		).values()
+	).sort((a, b) => a.index - b.index);
+
 	// Format narratives for copying
 	const copyText = `Media Narratives for ${company}:\n\n${bulletPoints
 		.map(
 			(b, idx) =>
 				`${idx + 1}. ${b.text}${
-					b.source ? ` (Source: ${b.source.url})` : ""
-				}`
+					b.citations?.length
+						? ` ${b.citations.map((c) => `[${c.index}]`).join("")}`
+						: ""
+				}${b.source ? ` (Source: ${b.source.url})` : ""}`
 		)
-		.join("\n")}`;
+		.join("\n")}${
+		footnotes.length > 0
+			? `\n\nSources:\n${footnotes
+					.map((c) => `[${c.index}] ${c.title || c.domain} ${c.url}`)
+					.join("\n")}`
+			: ""
+	}`;
 
 	const handleCopy = async () => {
 		try {
@@ -79,7 +153,15 @@ export default function NarrativeCard({
 								{index + 1}
 							</div>
 							<div className="text-gray-700 dark:text-gray-300">
-								<span>{bullet.text}</span>
+								<span>
+									{renderWithFigures(
+										bullet.text,
+										bullet.figures
+									)}
+								</span>
+								<CitationMarkers
+									citations={bullet.citations ?? []}
+								/>
 								{bullet.source && (
 									<a
 										href={bullet.source.url}
@@ -103,6 +185,13 @@ export default function NarrativeCard({
 						</li>
 					))}
 				</ul>
+
+				{footnotes.length > 0 && (
+					<CitationFootnotes
+						citations={footnotes}
+						className="mt-4 pt-3 border-t border-gray-200 dark:border-gray-700"
+					/>
+				)}
 			</div>
 
 			{/* Card footer */}
@@ -110,6 +199,16 @@ export default function NarrativeCard({
 				<div className="flex items-center text-xs text-gray-500 dark:text-gray-400">
 					<Share2 size={12} className="mr-1" />
 					<span>Generated {new Date().toLocaleDateString()}</span>
+					{unsupportedFigures > 0 && (
+						<span
+							className="flex items-center ml-auto text-red-600 dark:text-red-400"
+							title="Figures that could not be found in the Reddit posts sent for analysis"
+						>
+							<AlertTriangle size={12} className="mr-1" />
+							{unsupportedFigures} unsupported{" "}
+							{unsupportedFigures === 1 ? "figure" : "figures"}
+						</span>
+					)}
 				</div>
 			</div>
 		</div>
@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useMemo, useState } from "react";
 import {
 	AlertTriangle,
 	Info,
@@ -9,207 +9,133 @@ import {
 	Percent,
 } from "lucide-react";
 import type { FinancialReality } from "@/lib/sonarFinancial";
+import type {
+	ClaimLabel,
+	ComparisonResult,
+	DimensionRating,
+	DivergenceMode,
+	TermMatch,
+} from "@/lib/divergence";
+import { useDivergence } from "@/lib/useDivergence";
 
 interface NarrativeFinancialComparisonProps {
 	company: string;
 	narratives: string[];
 	financialData?: FinancialReality;
 	isLoading?: boolean;
+	stored?: ComparisonResult; // Result saved with a reopened run, shown in place of a heuristic rescore
 }
 
-interface ComparisonResult {
-	score: number; // 0-100 scale
-	divergence: "low" | "medium" | "high";
-	summary: string;
-	keyPoints: string[];
+const claimLabelColor: Record<ClaimLabel, string> = {
+	supported: "bg-green-900/30 text-green-400",
+	contradicted: "bg-red-900/30 text-red-400",
+	exaggerated: "bg-yellow-900/30 text-yellow-400",
+	unaddressed: "bg-gray-700 text-gray-400",
+};
+
+const ratingColor: Record<DimensionRating, string> = {
+	aligned: "bg-green-900/30 text-green-400",
+	understated: "bg-blue-900/30 text-blue-400",
+	overstated: "bg-yellow-900/30 text-yellow-400",
+	contradicted: "bg-red-900/30 text-red-400",
+	"not discussed": "bg-gray-700 text-gray-400",
+};
+
+const MODE_LABELS: Record<DivergenceMode, string> = {
+	heuristic: "Heuristic",
+	model: "Model",
+};
+
+/**
+ * Switches between the heuristic score and Sonar's judgment
+ */
+function ModeToggle({
+	mode,
+	onChange,
+}: {
+	mode: DivergenceMode;
+	onChange: (mode: DivergenceMode) => void;
+}) {
+	return (
+		<div className="inline-flex rounded-lg border border-gray-700 bg-gray-900/60 p-0.5 text-xs">
+			{(Object.keys(MODE_LABELS) as DivergenceMode[]).map((option) => (
+				<button
+					key={option}
+					type="button"
+					onClick={() => onChange(option)}
+					className={`rounded-md px-2.5 py-1 transition-colors ${
+						mode === option
+							? "bg-blue-600 text-white"
+							: "text-gray-400 hover:text-gray-200"
+					}`}
+					title={
+						option === "model"
+							? "Sonar judges the narrative against the filings"
+							: "Claims and keyword tone scored locally"
+					}
+				>
+					{MODE_LABELS[option]}
+				</button>
+			))}
+		</div>
+	);
 }
 
+/**
+ * Distinct matched terms of one side, with how many bullets or items each appeared in
+ */
+function groupTerms(matches: TermMatch[]) {
+	const counts = new Map<string, { term: string; polarity: TermMatch["polarity"]; count: number }>();
+	for (const match of matches) {
+		const entry = counts.get(match.term);
+		if (entry) entry.count++;
+		else counts.set(match.term, { term: match.term, polarity: match.polarity, count: 1 });
+	}
+	return Array.from(counts.values());
+}
+
+/**
+ * Renders the divergence score computed server-side by /api/divergence,
+ * or the stored result of a reopened run
+ */
 export default function NarrativeFinancialComparison({
 	company,
 	narratives,
 	financialData,
 	isLoading = false,
+	stored,
 }: NarrativeFinancialComparisonProps) {
-	const [comparison, setComparison] = useState<ComparisonResult | null>(null);
-
-	// Calculate divergence score and comparison points
-	useEffect(() => {
-		if (!financialData || narratives.length === 0) return;
-
-		// Simple algorithm to calculate divergence based on keyword matching
-		const calculateDivergence = () => {
-			// Combine all narrative points and financial data
-			const allNarratives = narratives.join(" ").toLowerCase();
-			const allFinancials = [
-				...financialData.fundamentals,
-				...financialData.risks,
-				...financialData.trends,
-			]
-				.join(" ")
-				.toLowerCase();
-
-			// Define sentiment keywords
-			const positiveTerms = [
-				"growth",
-				"profit",
-				"increase",
-				"success",
-				"positive",
-				"strong",
-				"innovation",
-				"beat",
-				"exceed",
-				"outperform",
-				"surge",
-				"rising",
-				"momentum",
-				"bullish",
-			];
-
-			const negativeTerms = [
-				"decline",
-				"loss",
-				"decrease",
-				"failure",
-				"negative",
-				"weak",
-				"problem",
-				"miss",
-				"below",
-				"underperform",
-				"drop",
-				"falling",
-				"slowdown",
-				"bearish",
-			];
-
-			// Count positive and negative terms in both datasets
-			const narrativePositiveCount = positiveTerms.filter((term) =>
-				allNarratives.includes(term)
-			).length;
-			const narrativeNegativeCount = negativeTerms.filter((term) =>
-				allNarratives.includes(term)
-			).length;
-
-			const financialPositiveCount = positiveTerms.filter((term) =>
-				allFinancials.includes(term)
-			).length;
-			const financialNegativeCount = negativeTerms.filter((term) =>
-				allFinancials.includes(term)
-			).length;
-
-			// Calculate sentiment scores (-1 to 1 scale)
-			const narrativeSentiment =
-				narrativePositiveCount + narrativeNegativeCount > 0
-					? (narrativePositiveCount - narrativeNegativeCount) /
-					  (narrativePositiveCount + narrativeNegativeCount)
-					: 0;
-
-			const financialSentiment =
-				financialPositiveCount + financialNegativeCount > 0
-					? (financialPositiveCount - financialNegativeCount) /
-					  (financialPositiveCount + financialNegativeCount)
-					: 0;
-
-			// Calculate divergence
-			const sentimentDivergence = Math.abs(
-				narrativeSentiment - financialSentiment
-			);
-
-			// Generate key points based on comparison
-			const keyPoints: string[] = [];
-
-			// Compare sentiment
-			if (narrativeSentiment > 0 && financialSentiment < 0) {
-				keyPoints.push(
-					"Media portrays the company positively while financials show concerning indicators."
-				);
-			} else if (narrativeSentiment < 0 && financialSentiment > 0) {
-				keyPoints.push(
-					"Media portrays the company negatively despite positive financial indicators."
-				);
-			}
-
-			// Compare specific points (simplified for demonstration)
-			if (
-				allNarratives.includes("growth") &&
-				allFinancials.includes("decline")
-			) {
-				keyPoints.push(
-					"Media mentions growth while financial data indicates decline in key areas."
-				);
-			}
-
-			if (
-				allNarratives.includes("profit") &&
-				allFinancials.includes("loss")
-			) {
-				keyPoints.push(
-					"Media highlights profitability while financial statements show losses."
-				);
-			}
-
-			// Add generic points if specific ones weren't found
-			if (keyPoints.length === 0) {
-				if (sentimentDivergence > 0.5) {
-					keyPoints.push(
-						"Media narrative and financial reality show significant differences in overall tone."
-					);
-				} else if (sentimentDivergence > 0.2) {
-					keyPoints.push(
-						"Some discrepancies exist between media portrayal and financial data."
-					);
-				} else {
-					keyPoints.push(
-						"Media narrative aligns reasonably well with financial reality."
-					);
-				}
-			}
-
-			// Ensure we have at least 2 key points
-			if (keyPoints.length === 1) {
-				keyPoints.push(
-					"Consider both media narratives and official financial data when evaluating this company."
-				);
-			}
-
-			// Calculate numerical score (0-100, higher = more divergence)
-			const score = Math.min(100, Math.round(sentimentDivergence * 100));
-
-			// Determine divergence level
-			let divergence: "low" | "medium" | "high";
-			if (score < 30) divergence = "low";
-			else if (score < 60) divergence = "medium";
-			else divergence = "high";
-
-			// Generate summary
-			let summary = "";
-			if (divergence === "low") {
-				summary = `Media narratives generally align with financial realities for ${company}.`;
-			} else if (divergence === "medium") {
-				summary = `Some notable differences exist between how ${company} is portrayed in media vs. financial data.`;
-			} else {
-				summary = `Significant divergence between media portrayal and financial reality for ${company}.`;
-			}
-
-			return {
-				score,
-				divergence,
-				summary,
-				keyPoints,
-			};
-		};
-
-		// Set comparison data
-		setComparison(calculateDivergence());
-	}, [company, narratives, financialData]);
+	const input = useMemo(
+		() =>
+			financialData && narratives.length > 0
+				? {
+						company,
+						narratives,
+						financial: {
+							fundamentals: financialData.fundamentals,
+							risks: financialData.risks,
+							trends: financialData.trends,
+						},
+				  }
+				: null,
+		[company, narratives, financialData]
+	);
+	const [mode, setMode] = useState<DivergenceMode>("heuristic");
+	const showStored = !!stored && mode === "heuristic";
+	const live = useDivergence(
+		isLoading || showStored ? null : input,
+		undefined,
+		mode
+	);
+	const comparison = showStored ? stored : live.comparison;
+	const { isLoading: isScoring, error } = live;
 
 	if (!financialData || narratives.length === 0) {
 		return null;
 	}
 
 	// Loading state
-	if (isLoading) {
+	if (isLoading || isScoring) {
 		return (
 			<div className="rounded-xl overflow-hidden border border-gray-700 bg-gray-800/50 shadow-lg p-5 animate-pulse">
 				<div className="h-5 w-48 bg-gray-700 rounded mb-4"></div>
@@ -222,6 +148,20 @@ export default function NarrativeFinancialComparison({
 		);
 	}
 
+	if (error) {
+		return (
+			<div className="rounded-xl overflow-hidden border border-gray-700 bg-gray-800/50 shadow-lg p-5">
+				<div className="flex justify-end mb-3">
+					<ModeToggle mode={mode} onChange={setMode} />
+				</div>
+				<div className="flex items-center p-4 text-sm text-red-300 rounded-lg bg-red-900/20">
+					<AlertTriangle size={18} className="mr-3 flex-shrink-0" />
+					<p>Could not score the divergence: {error}</p>
+				</div>
+			</div>
+		);
+	}
+
 	// No comparison results
 	if (!comparison) {
 		return (
@@ -245,30 +185,33 @@ export default function NarrativeFinancialComparison({
 					Narrative-Reality Divergence
 				</h3>
 
-				<div className="flex items-center">
-					<div
-						className={`flex items-center justify-center w-12 h-12 rounded-full ${
-							comparison.divergence === "low"
-								? "bg-green-900/30 text-green-400"
-								: comparison.divergence === "medium"
-								? "bg-yellow-900/30 text-yellow-400"
-								: "bg-red-900/30 text-red-400"
-						}`}
-					>
-						<div className="text-lg font-bold">
-							{Math.round(comparison.score)}
+				<div className="flex items-center gap-4">
+					<ModeToggle mode={mode} onChange={setMode} />
+					<div className="flex items-center">
+						<div
+							className={`flex items-center justify-center w-12 h-12 rounded-full ${
+								comparison.divergence === "low"
+									? "bg-green-900/30 text-green-400"
+									: comparison.divergence === "medium"
+									? "bg-yellow-900/30 text-yellow-400"
+									: "bg-red-900/30 text-red-400"
+							}`}
+						>
+							<div className="text-lg font-bold">
+								{Math.round(comparison.score)}
+							</div>
 						</div>
+						<Percent
+							size={14}
+							className={`ml-1 ${
+								comparison.divergence === "low"
+									? "text-green-400"
+									: comparison.divergence === "medium"
+									? "text-yellow-400"
+									: "text-red-400"
+							}`}
+						/>
 					</div>
-					<Percent
-						size={14}
-						className={`ml-1 ${
-							comparison.divergence === "low"
-								? "text-green-400"
-								: comparison.divergence === "medium"
-								? "text-yellow-400"
-								: "text-red-400"
-						}`}
-					/>
 				</div>
 			</div>
 
@@ -301,39 +244,191 @@ export default function NarrativeFinancialComparison({
 					</div>
 				</div>
 
-				{/* Key points */}
-				<div className="space-y-3 mt-4">
-					<h4 className="text-sm font-medium text-gray-300">
-						Key Observations:
-					</h4>
-					<ul className="space-y-2">
-						{comparison.keyPoints.map((point, idx) => (
-							<li key={idx} className="flex items-start">
-								<div className="flex-shrink-0 mt-0.5 mr-2">
-									{comparison.divergence === "low" ? (
-										<TrendingDown
-											size={16}
-											className="text-green-400"
-										/>
-									) : comparison.divergence === "high" ? (
-										<TrendingUp
-											size={16}
-											className="text-red-400"
-										/>
+				{/* Model judgment: a rating per dimension */}
+				{comparison.judgment && (
+					<div className="grid grid-cols-2 gap-2 mb-4">
+						{Object.entries(comparison.judgment.dimensions).map(
+							([dimension, judged]) => (
+								<div
+									key={dimension}
+									className="rounded-lg border border-gray-700 bg-gray-800/60 p-3 text-xs"
+									title={judged.reason}
+								>
+									<div className="flex items-center justify-between gap-2 mb-1.5">
+										<span className="font-medium capitalize text-gray-200">
+											{dimension}
+										</span>
+										<span
+											className={`rounded px-1.5 py-0.5 font-medium capitalize ${
+												ratingColor[judged.rating]
+											}`}
+										>
+											{judged.rating}
+										</span>
+									</div>
+									<p className="text-gray-400">{judged.reason}</p>
+								</div>
+							)
+						)}
+					</div>
+				)}
+
+				{/* Model judgment: reasons with the bullets and items they cite */}
+				{comparison.judgment ? (
+					<div className="space-y-3 mt-4">
+						<h4 className="text-sm font-medium text-gray-300">
+							Cited Reasons:
+						</h4>
+						<ul className="space-y-2">
+							{comparison.judgment.reasons.map((reason, idx) => (
+								<li key={idx} className="text-sm text-gray-300">
+									<p>{reason.text}</p>
+									{reason.cites.length > 0 && (
+										<div className="flex flex-wrap gap-1.5 mt-1">
+											{reason.cites.map((cite) => (
+												<span
+													key={cite.id}
+													className="rounded bg-gray-700 px-1.5 py-0.5 text-xs text-gray-300"
+													title={cite.text}
+												>
+													{cite.id}
+													<span className="text-gray-500"> · {cite.section}</span>
+												</span>
+											))}
+										</div>
+									)}
+								</li>
+							))}
+						</ul>
+					</div>
+				) : (
+					<div className="space-y-3 mt-4">
+						<h4 className="text-sm font-medium text-gray-300">
+							Key Observations:
+						</h4>
+						<ul className="space-y-2">
+							{comparison.keyPoints.map((point, idx) => (
+								<li key={idx} className="flex items-start">
+									<div className="flex-shrink-0 mt-0.5 mr-2">
+										{comparison.divergence === "low" ? (
+											<TrendingDown
+												size={16}
+												className="text-green-400"
+											/>
+										) : comparison.divergence === "high" ? (
+											<TrendingUp
+												size={16}
+												className="text-red-400"
+											/>
+										) : (
+											<AlertTriangle
+												size={16}
+												className="text-yellow-400"
+											/>
+										)}
+									</div>
+									<span className="text-sm text-gray-300">
+										{point}
+									</span>
+								</li>
+							))}
+						</ul>
+					</div>
+				)}
+
+				{/* Claim pairs behind the score */}
+				{comparison.evidence.claims &&
+					comparison.evidence.claims.length > 0 && (
+						<div className="space-y-3 mt-5">
+							<h4 className="text-sm font-medium text-gray-300">
+								Claims checked against filings:
+							</h4>
+							<ul className="space-y-2">
+								{comparison.evidence.claims.map((pair, idx) => (
+									<li
+										key={idx}
+										className="rounded-lg border border-gray-700 bg-gray-800/60 p-3 text-xs"
+									>
+										<div className="flex items-center justify-between gap-2 mb-1.5">
+											<span
+												className={`rounded px-1.5 py-0.5 font-medium capitalize ${
+													claimLabelColor[pair.label]
+												}`}
+											>
+												{pair.label}
+											</span>
+											<span className="text-gray-400">
+												{(pair.narrative ?? pair.financial)?.metric}
+											</span>
+										</div>
+										<p className="text-gray-300">{pair.reason}</p>
+										{pair.narrative && (
+											<p className="mt-1 text-gray-400">
+												<span className="text-gray-500">Narrative: </span>
+												{pair.narrative.text}
+											</p>
+										)}
+										{pair.financial && (
+											<p className="mt-1 text-gray-400">
+												<span className="text-gray-500">Filings: </span>
+												{pair.financial.text}
+											</p>
+										)}
+									</li>
+								))}
+							</ul>
+						</div>
+					)}
+
+				{/* Matched evidence */}
+				{!comparison.judgment && (
+					<div className="space-y-3 mt-5">
+						<h4 className="text-sm font-medium text-gray-300">
+							Evidence:
+						</h4>
+						{(
+							[
+								["Narrative", comparison.evidence.narrative],
+								["Financials", comparison.evidence.financial],
+							] as const
+						).map(([label, matches]) => (
+							<div key={label} className="flex items-start text-xs">
+								<span className="w-20 flex-shrink-0 pt-0.5 text-gray-400">
+									{label}
+								</span>
+								<div className="flex flex-wrap gap-1.5">
+									{matches.length === 0 ? (
+										<span className="pt-0.5 text-gray-500">
+											No sentiment terms found
+										</span>
 									) : (
-										<AlertTriangle
-											size={16}
-											className="text-yellow-400"
-										/>
+										groupTerms(matches).map((match) => (
+											<span
+												key={match.term}
+												className={`rounded px-1.5 py-0.5 ${
+													match.polarity === "positive"
+														? "bg-green-900/30 text-green-400"
+														: "bg-red-900/30 text-red-400"
+												}`}
+												title={matches
+													.filter((m) => m.term === match.term)
+													.map((m) =>
+														m.weight === undefined
+															? m.text
+															: `${m.weight > 0 ? "+" : ""}${m.weight} · ${m.text}`
+													)
+													.join("\n")}
+											>
+												{match.term}
+												{match.count > 1 && ` ×${match.count}`}
+											</span>
+										))
 									)}
 								</div>
-								<span className="text-sm text-gray-300">
-									{point}
-								</span>
-							</li>
+							</div>
 						))}
-					</ul>
-				</div>
+					</div>
+				)}
 			</div>
 
 			{/* Footer */}
@@ -343,6 +438,9 @@ export default function NarrativeFinancialComparison({
 					<span>
 						Based on comparison of media narrative and official
 						financial data
+						· {comparison.version}
+						{comparison.judgment && ` (${comparison.judgment.model})`}
+						{showStored && " · as scored when the run was saved"}
 					</span>
 				</div>
 			</div>
@@ -3,7 +3,7 @@
 /**
  * Animated skeleton UI for narrative loading state
  */
-export default function NarrativeSkeleton({ company }: { company: string }) {
+export default function NarrativeSkeleton() {
 	return (
 		<div className="rounded-xl overflow-hidden border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-sm animate-pulse">
 			{/* Card header */}
@@ -1,60 +1,33 @@
 "use client";
 
-import { useNarrativeStream } from "@/lib/useNarrativeStream";
-import { useFinancialStream } from "@/lib/useFinancialStream";
-import {
-	Search,
-	RefreshCw,
-	AlertTriangle,
-	Loader2,
-	ExternalLink,
-} from "lucide-react";
-import { useState, useRef, useEffect } from "react";
+import { Search, Loader2 } from "lucide-react";
+import { useState, useRef } from "react";
+import { useRouter } from "next/navigation";
 import PopularCompanies from "./PopularCompanies";
-import NarrativeSkeleton from "./NarrativeSkeleton";
-import NarrativeCard from "./NarrativeCard";
-import FinancialRealityStreamView from "./FinancialRealityStreamView";
-import NarrativeFinancialComparison from "./NarrativeFinancialComparison";
+import CompanySearchInput from "./CompanySearchInput";
+import { analysisPath } from "@/lib/analysisOptions";
 
+/**
+ * Home page search. Picking a company opens its shareable analysis page,
+ * which resolves names such as "Google" to their ticker.
+ */
 export default function NarrativeStreamView() {
 	const [query, setQuery] = useState<string>("");
-	const [company, setCompany] = useState<string | null>(null);
+	const [navigating, setNavigating] = useState(false);
 	const inputRef = useRef<HTMLInputElement>(null);
+	const router = useRouter();
 
-	// Get streaming content using our custom hooks
-	const { bulletPoints, rawContent, isLoading, isDone, error } =
-		useNarrativeStream(company);
-	const {
-		financialData,
-		rawContent: financialRawContent,
-		isLoading: isFinancialLoading,
-		isDone: isFinancialDone,
-		error: financialError,
-	} = useFinancialStream(company);
+	const analyze = (company: string) => {
+		setNavigating(true);
+		router.push(analysisPath(company));
+	};
 
 	const handleSubmit = (e: React.FormEvent) => {
 		e.preventDefault();
 		if (!query.trim()) return;
-		setCompany(query.trim());
-	};
-
-	const handleReset = () => {
-		setCompany(null);
-		setQuery("");
-		if (inputRef.current) {
-			inputRef.current.focus();
-		}
+		analyze(query.trim());
 	};
 
-	// Auto-scroll to bottom of content as new chunks arrive
-	const resultsRef = useRef<HTMLDivElement>(null);
-
-	useEffect(() => {
-		if (resultsRef.current && (isLoading || isFinancialLoading)) {
-			resultsRef.current.scrollTop = resultsRef.current.scrollHeight;
-		}
-	}, [rawContent, financialRawContent, isLoading, isFinancialLoading]);
-
 	return (
 		<div className="flex flex-col w-full max-w-xl">
 			{/* Search form */}
@@ -72,14 +45,14 @@ export default function NarrativeStreamView() {
 							<Search size={18} />
 						</div>
 
-						<input
-							ref={inputRef}
-							type="text"
+						<CompanySearchInput
+							inputRef={inputRef}
 							id="company"
-							placeholder="TSLA, AAPL, Google, Meta, etc."
+							placeholder="TSLA, AAPL, Google, BRK.B, etc."
 							value={query}
-							onChange={(e) => setQuery(e.target.value)}
-							disabled={isLoading || isFinancialLoading}
+							onChange={setQuery}
+							onSelect={(selected) => analyze(selected.ticker)}
+							disabled={navigating}
 							className="flex-1 h-12 pl-10 pr-24 py-2 text-base rounded-lg
                      focus:outline-none focus:ring-2 focus:ring-blue-500
                      border-none
@@ -89,16 +62,14 @@ export default function NarrativeStreamView() {
 
 						<button
 							type="submit"
-							disabled={
-								isLoading || isFinancialLoading || !query.trim()
-							}
+							disabled={navigating || !query.trim()}
 							className="absolute right-0 h-full px-5 text-base font-medium
                      bg-blue-600 hover:bg-blue-700
                      focus:outline-none focus:ring-2 focus:ring-blue-500
                      text-white rounded-r-lg transition-colors
                      disabled:opacity-50 disabled:cursor-not-allowed"
 						>
-							{isLoading || isFinancialLoading ? (
+							{navigating ? (
 								<Loader2 size={18} className="animate-spin" />
 							) : (
 								"Analyze"
@@ -109,247 +80,15 @@ export default function NarrativeStreamView() {
 			</form>
 
 			{/* Popular companies suggestions */}
-			{!company && !isLoading && !isFinancialLoading && (
-				<div className="mb-6">
-					<PopularCompanies
-						onSelect={(selected) => {
-							setQuery(selected);
-							setCompany(selected);
-						}}
-						disabled={isLoading || isFinancialLoading}
-					/>
-				</div>
-			)}
-
-			{/* Results display */}
-			{(isLoading ||
-				isFinancialLoading ||
-				rawContent ||
-				error ||
-				financialError ||
-				company) && (
-				<div className="space-y-8">
-					{/* Media Narrative Section */}
-					<div>
-						<h2 className="text-xl font-semibold text-white mb-3 flex items-center">
-							<span className="w-1.5 h-5 bg-blue-500 rounded-sm mr-2"></span>
-							Media Narrative
-						</h2>
-
-						{/* Narrative content */}
-						{isLoading && !rawContent && !error ? (
-							<NarrativeSkeleton company={company || ""} />
-						) : isDone && bulletPoints.length > 0 && !error ? (
-							<NarrativeCard
-								company={company || ""}
-								bulletPoints={bulletPoints}
-							/>
-						) : (
-							<div
-								ref={resultsRef}
-								className="relative overflow-hidden rounded-xl border border-gray-700
-                     bg-gray-800/50 shadow-lg"
-							>
-								{/* Header */}
-								<div className="flex items-center justify-between px-4 py-3 border-b border-gray-700 bg-gray-800/80">
-									<h3 className="text-lg font-medium text-white">
-										{company &&
-											`Media Narratives: ${company.toUpperCase()}`}
-									</h3>
-
-									<div className="flex items-center space-x-2">
-										{isDone && (
-											<button
-												onClick={handleReset}
-												className="p-1.5 rounded-full hover:bg-gray-700 text-gray-400 hover:text-gray-200 transition-colors"
-												title="New search"
-											>
-												<RefreshCw size={18} />
-											</button>
-										)}
-									</div>
-								</div>
-
-								{/* Content */}
-								<div className="p-5">
-									{error ? (
-										<div className="flex items-center p-4 text-sm text-red-300 rounded-lg bg-red-900/30">
-											<AlertTriangle
-												size={18}
-												className="mr-3 flex-shrink-0"
-											/>
-											<div>
-												<p className="font-medium mb-1">
-													Error connecting to
-													Perplexity API
-												</p>
-												<p className="text-red-200/70">
-													{error}
-												</p>
-											</div>
-										</div>
-									) : (
-										<div className="space-y-4">
-											{bulletPoints.length > 0 ? (
-												<ul className="space-y-3">
-													{bulletPoints.map(
-														(bullet, idx) => (
-															<li
-																key={idx}
-																className="flex items-start"
-															>
-																<div className="flex-shrink-0 w-6 h-6 mr-3 flex items-center justify-center rounded-full bg-blue-900/40 text-blue-400 text-sm font-medium">
-																	{idx + 1}
-																</div>
-																<div className="text-gray-200 leading-relaxed">
-																	<span>
-																		{
-																			bullet.text
-																		}
-																	</span>
-																	{bullet.source && (
-																		<a
-																			href={
-																				bullet
-																					.source
-																					.url
-																			}
-																			target="_blank"
-																			rel="noopener noreferrer"
-																			className="inline-flex items-center ml-1 text-blue-400 hover:underline"
-																		>
-																			<span className="text-xs font-medium">
-																				[Source
-																			</span>
-																			<ExternalLink
-																				size={
-																					10
-																				}
-																				className="ml-0.5 mr-0.5"
-																			/>
-																			<span className="text-xs font-medium">
-																				]
-																			</span>
-																		</a>
-																	)}
-																</div>
-															</li>
-														)
-													)}
-												</ul>
-											) : (
-												<div className="py-8 text-center text-gray-400">
-													<Loader2
-														size={28}
-														className="mx-auto mb-3 animate-spin text-blue-500"
-													/>
-													<p>
-														Searching across news,
-														blogs, Twitter, and
-														YouTube...
-													</p>
-												</div>
-											)}
-										</div>
-									)}
-								</div>
-
-								{/* Footer with streaming indicator */}
-								{isLoading && !error && (
-									<div className="px-4 py-2 border-t border-gray-700 bg-gray-800 text-xs text-gray-400">
-										<div className="flex items-center">
-											<div className="flex space-x-1 mr-2">
-												<div
-													className="w-1 h-1 rounded-full bg-blue-500 animate-pulse"
-													style={{
-														animationDuration: "1s",
-														animationDelay: "0ms",
-													}}
-												></div>
-												<div
-													className="w-1 h-1 rounded-full bg-blue-500 animate-pulse"
-													style={{
-														animationDuration: "1s",
-														animationDelay: "300ms",
-													}}
-												></div>
-												<div
-													className="w-1 h-1 rounded-full bg-blue-500 animate-pulse"
-													style={{
-														animationDuration: "1s",
-														animationDelay: "600ms",
-													}}
-												></div>
-											</div>
-											<span>
-												Streaming results as they
-												arrive...
-											</span>
-										</div>
-									</div>
-								)}
-							</div>
-						)}
-					</div>
-
-					{/* Financial Reality Section */}
-					{company && (
-						<div>
-							<h2 className="text-xl font-semibold text-white mb-3 flex items-center">
-								<span className="w-1.5 h-5 bg-green-500 rounded-sm mr-2"></span>
-								Financial Reality
-							</h2>
-							<FinancialRealityStreamView company={company} />
-						</div>
-					)}
-
-					{/* Comparison Section - only show when we have both narrative and financial data */}
-					{company &&
-						isDone &&
-						!error &&
-						isFinancialDone &&
-						!financialError &&
-						bulletPoints.length > 0 && (
-							<div>
-								<h2 className="text-xl font-semibold text-white mb-3 flex items-center">
-									<span className="w-1.5 h-5 bg-purple-500 rounded-sm mr-2"></span>
-									Narrative vs Reality
-								</h2>
-								<NarrativeFinancialComparison
-									company={company}
-									narratives={bulletPoints.map(
-										(bp) => bp.text
-									)}
-									financialData={{
-										...financialData,
-										company: company || "",
-									}}
-									isLoading={isLoading || isFinancialLoading}
-								/>
-							</div>
-						)}
-
-					{/* Reset button for completed searches */}
-					{isDone &&
-						isFinancialDone &&
-						!isLoading &&
-						!isFinancialLoading && (
-							<div className="flex justify-center mt-8">
-								<button
-									onClick={handleReset}
-									className="px-4 py-2 text-sm font-medium text-blue-400 border border-blue-900/50
-                      rounded-lg hover:bg-blue-900/20 transition-colors"
-								>
-									<RefreshCw
-										size={14}
-										className="inline mr-2"
-									/>
-									New Analysis
-								</button>
-							</div>
-						)}
-				</div>
-			)}
+			<div className="mb-6">
+				<PopularCompanies
+					onSelect={(selected) => {
+						setQuery(selected);
+						analyze(selected);
+					}}
+					disabled={navigating}
+				/>
+			</div>
 		</div>
 	);
 }
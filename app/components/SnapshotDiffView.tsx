@@ -0,0 +1,296 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import {
+	ArrowLeft,
+	ArrowRight,
+	TrendingUp,
+	TrendingDown,
+	Minus,
+} from "lucide-react";
+import { analysisPath, windowDays } from "@/lib/analysisOptions";
+import type {
+	BulletChange,
+	DiffSectionName,
+	SentimentSplit,
+	SnapshotDiff,
+	SnapshotSummary,
+} from "@/lib/snapshots";
+
+interface SnapshotDiffViewProps {
+	diff: SnapshotDiff;
+}
+
+const SECTION_TITLES: Record<DiffSectionName, string> = {
+	narrative: "Reddit narrative",
+	fundamentals: "Fundamentals",
+	risks: "Risks",
+	trends: "Trends",
+};
+
+const changeStyles: Record<BulletChange, { label: string; badge: string; row: string }> = {
+	added: {
+		label: "New",
+		badge: "bg-green-900/30 text-green-400",
+		row: "border-l-green-500",
+	},
+	removed: {
+		label: "Dropped",
+		badge: "bg-red-900/30 text-red-400",
+		row: "border-l-red-500",
+	},
+	strengthened: {
+		label: "Strengthened",
+		badge: "bg-blue-900/30 text-blue-400",
+		row: "border-l-blue-500",
+	},
+	weakened: {
+		label: "Weakened",
+		badge: "bg-yellow-900/30 text-yellow-400",
+		row: "border-l-yellow-500",
+	},
+	unchanged: {
+		label: "Unchanged",
+		badge: "bg-gray-700 text-gray-400",
+		row: "border-l-gray-600",
+	},
+};
+
+const formatTime = (iso: string) =>
+	new Date(iso).toLocaleString(undefined, {
+		dateStyle: "medium",
+		timeStyle: "short",
+	});
+
+const formatDelta = (delta: number, unit = "") =>
+	`${delta > 0 ? "+" : ""}${delta}${unit}`;
+
+/**
+ * Side-by-side diff of two stored runs of the same company: how the narrative
+ * themes and the filings moved, with the divergence score change on top
+ */
+export default function SnapshotDiffView({ diff }: SnapshotDiffViewProps) {
+	const [showUnchanged, setShowUnchanged] = useState(false);
+	const { before, after, divergence, sentiment } = diff;
+
+	return (
+		<div className="w-full space-y-6">
+			{/* Runs being compared */}
+			<div className="grid grid-cols-2 gap-3">
+				<RunHeader label="Before" snapshot={before} />
+				<RunHeader label="After" snapshot={after} />
+			</div>
+
+			{/* Divergence score delta */}
+			<DivergenceDelta {...divergence} />
+
+			{sentiment && (
+				<div className="rounded-xl border border-gray-700 bg-gray-800/50 p-4 shadow-lg">
+					<h3 className="text-sm font-medium text-white mb-3">
+						Reddit sentiment
+					</h3>
+					<div className="grid grid-cols-3 gap-3 text-center">
+						{(["bullish", "bearish", "neutral"] as (keyof SentimentSplit)[]).map(
+							(side) => (
+								<div key={side}>
+									<div className="text-xs uppercase tracking-wide text-gray-400">
+										{side}
+									</div>
+									<div className="mt-1 text-sm text-gray-300">
+										{sentiment.before[side]}% → {sentiment.after[side]}%
+									</div>
+									<div
+										className={`text-xs font-medium ${
+											sentiment.delta[side] === 0
+												? "text-gray-500"
+												: sentiment.delta[side] > 0
+												? "text-green-400"
+												: "text-red-400"
+										}`}
+									>
+										{formatDelta(sentiment.delta[side], " pts")}
+									</div>
+								</div>
+							)
+						)}
+					</div>
+				</div>
+			)}
+
+			<label className="flex items-center justify-end gap-2 text-xs text-gray-400">
+				<input
+					type="checkbox"
+					checked={showUnchanged}
+					onChange={(e) => setShowUnchanged(e.target.checked)}
+					className="accent-blue-500"
+				/>
+				Show unchanged
+			</label>
+
+			{diff.sections.length === 0 && (
+				<p className="rounded-xl border border-gray-700 bg-gray-800/50 p-5 text-center text-sm text-gray-400">
+					These runs have no source in common to compare.
+				</p>
+			)}
+
+			{diff.sections.map((section) => {
+				const bullets = showUnchanged
+					? section.bullets
+					: section.bullets.filter((bullet) => bullet.change !== "unchanged");
+
+				return (
+					<div
+						key={section.name}
+						className="rounded-xl overflow-hidden border border-gray-700 bg-gray-800/50 shadow-lg"
+					>
+						<div className="flex flex-wrap items-center justify-between gap-2 px-4 py-3 border-b border-gray-700 bg-gray-800/80">
+							<h3 className="text-sm font-medium text-white">
+								{SECTION_TITLES[section.name]}
+							</h3>
+							<div className="flex flex-wrap gap-1.5 text-xs">
+								{(Object.keys(section.counts) as BulletChange[])
+									.filter((change) => section.counts[change] > 0)
+									.map((change) => (
+										<span
+											key={change}
+											className={`rounded px-1.5 py-0.5 ${changeStyles[change].badge}`}
+										>
+											{section.counts[change]} {changeStyles[change].label.toLowerCase()}
+										</span>
+									))}
+							</div>
+						</div>
+
+						{bullets.length === 0 ? (
+							<p className="px-4 py-4 text-sm text-gray-400">
+								No changes.
+							</p>
+						) : (
+							<ul className="divide-y divide-gray-700/60">
+								{bullets.map((bullet, index) => (
+									<li
+										key={index}
+										className={`grid grid-cols-2 gap-4 border-l-2 px-4 py-3 text-sm ${
+											changeStyles[bullet.change].row
+										}`}
+									>
+										<div className="text-gray-400">
+											{bullet.before ?? (
+												<span className="italic text-gray-600">—</span>
+											)}
+										</div>
+										<div className="text-gray-200">
+											<span
+												className={`mb-1 inline-block rounded px-1.5 py-0.5 text-xs font-medium ${
+													changeStyles[bullet.change].badge
+												}`}
+											>
+												{changeStyles[bullet.change].label}
+											</span>
+											<div>
+												{bullet.after ?? (
+													<span className="italic text-gray-600">—</span>
+												)}
+											</div>
+										</div>
+									</li>
+								))}
+							</ul>
+						)}
+					</div>
+				);
+			})}
+		</div>
+	);
+}
+
+/**
+ * One side of the comparison, linking back to the stored run
+ */
+function RunHeader({
+	label,
+	snapshot,
+}: {
+	label: string;
+	snapshot: SnapshotSummary;
+}) {
+	return (
+		<Link
+			href={analysisPath(snapshot.ticker, snapshot, snapshot.id)}
+			className="rounded-xl border border-gray-700 bg-gray-800/50 p-3 shadow-lg hover:border-gray-600"
+		>
+			<div className="flex items-center text-xs uppercase tracking-wide text-gray-400">
+				{label === "Before" ? (
+					<ArrowLeft size={12} className="mr-1" />
+				) : (
+					<ArrowRight size={12} className="mr-1" />
+				)}
+				{label}
+			</div>
+			<div className="mt-1 text-sm text-white">
+				{formatTime(snapshot.createdAt)}
+			</div>
+			<div className="text-xs text-gray-400">
+				{windowDays(snapshot.window)}d window
+				{snapshot.totalPosts !== null && ` · ${snapshot.totalPosts} posts`}
+			</div>
+		</Link>
+	);
+}
+
+/**
+ * Highlighted change in divergence score between the runs
+ */
+function DivergenceDelta({
+	before,
+	after,
+	delta,
+	versions,
+}: SnapshotDiff["divergence"]) {
+	if (before !== null && after !== null && versions.before !== versions.after) {
+		return (
+			<div className="rounded-xl border border-gray-700 bg-gray-800/50 p-4 text-center text-sm text-gray-400">
+				Divergence {before}% ({versions.before}) → {after}% ({versions.after}).
+				The runs were scored by different algorithms, so the scores are not
+				compared.
+			</div>
+		);
+	}
+
+	if (delta === null) {
+		return (
+			<div className="rounded-xl border border-gray-700 bg-gray-800/50 p-4 text-center text-sm text-gray-400">
+				A divergence score needs both Reddit and filings in each run.
+			</div>
+		);
+	}
+
+	// Rising divergence means narrative and reality drifted apart
+	const tone =
+		delta === 0
+			? "border-gray-700 bg-gray-800/50 text-gray-300"
+			: delta > 0
+			? "border-red-800 bg-red-900/20 text-red-400"
+			: "border-green-800 bg-green-900/20 text-green-400";
+	const Icon = delta === 0 ? Minus : delta > 0 ? TrendingUp : TrendingDown;
+
+	return (
+		<div
+			className={`flex items-center justify-between rounded-xl border p-4 shadow-lg ${tone}`}
+		>
+			<div>
+				<div className="text-xs uppercase tracking-wide text-gray-400">
+					Divergence score
+				</div>
+				<div className="mt-1 text-lg text-white">
+					{before}% → {after}%
+				</div>
+			</div>
+			<div className="flex items-center text-2xl font-bold">
+				<Icon size={22} className="mr-2" />
+				{formatDelta(delta, " pts")}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import Link from "next/link";
+import { GitCompare, History, Loader2 } from "lucide-react";
+import {
+	analysisPath,
+	snapshotDiffPath,
+	windowDays,
+} from "@/lib/analysisOptions";
+import type { SnapshotSummary } from "@/lib/snapshots";
+
+interface SnapshotHistoryProps {
+	company: string;
+	snapshots: SnapshotSummary[];
+	isLoading?: boolean;
+	currentId?: string; // Snapshot being viewed, if any
+}
+
+const formatTime = (iso: string) =>
+	new Date(iso).toLocaleString(undefined, {
+		dateStyle: "medium",
+		timeStyle: "short",
+	});
+
+const levelColor = {
+	low: "bg-green-900/30 text-green-400",
+	medium: "bg-yellow-900/30 text-yellow-400",
+	high: "bg-red-900/30 text-red-400",
+};
+
+/**
+ * Timeline of stored analysis runs; each entry reopens its run as it was and
+ * can be compared with the run being viewed (or the latest one)
+ */
+export default function SnapshotHistory({
+	company,
+	snapshots,
+	isLoading = false,
+	currentId,
+}: SnapshotHistoryProps) {
+	// Runs are compared against the one being viewed, otherwise the latest
+	const baseId = currentId ?? snapshots[0]?.id;
+
+	return (
+		<div className="rounded-xl border border-gray-700 bg-gray-800/50 shadow-lg">
+			<div className="flex items-center justify-between px-4 py-3 border-b border-gray-700 bg-gray-800/80">
+				<h3 className="flex items-center text-sm font-medium text-white">
+					<History size={16} className="mr-2 text-gray-400" />
+					Past analyses of {company}
+				</h3>
+				{currentId && (
+					<Link
+						href={analysisPath(company)}
+						className="text-xs font-medium text-blue-400 hover:underline"
+					>
+						Run live analysis
+					</Link>
+				)}
+			</div>
+
+			{isLoading && snapshots.length === 0 ? (
+				<div className="flex items-center justify-center py-6 text-sm text-gray-400">
+					<Loader2 size={16} className="mr-2 animate-spin" />
+					Loading history...
+				</div>
+			) : snapshots.length === 0 ? (
+				<p className="px-4 py-6 text-center text-sm text-gray-400">
+					Finished analyses are saved here.
+				</p>
+			) : (
+				<ol className="relative max-h-72 overflow-y-auto py-2">
+					{snapshots.map((snapshot) => (
+						<li key={snapshot.id} className="flex items-center">
+							<Link
+								href={analysisPath(
+									snapshot.ticker,
+									snapshot,
+									snapshot.id
+								)}
+								aria-current={
+									snapshot.id === currentId ? "page" : undefined
+								}
+								className={`flex min-w-0 flex-1 items-center justify-between gap-3 px-4 py-2 text-sm transition-colors ${
+									snapshot.id === currentId
+										? "bg-blue-600/20 text-white"
+										: "text-gray-300 hover:bg-gray-700/50"
+								}`}
+							>
+								<span className="flex min-w-0 items-center gap-3">
+									<span
+										className={`h-2 w-2 shrink-0 rounded-full ${
+											snapshot.id === currentId
+												? "bg-blue-400"
+												: "bg-gray-600"
+										}`}
+									></span>
+									<span className="truncate">
+										{formatTime(snapshot.createdAt)}
+									</span>
+								</span>
+
+								<span className="flex shrink-0 items-center gap-2 text-xs text-gray-400">
+									<span>{windowDays(snapshot.window)}d</span>
+									{snapshot.sources.length === 1 && (
+										<span className="rounded bg-gray-700 px-1.5 py-0.5">
+											{snapshot.sources[0]} only
+										</span>
+									)}
+									{snapshot.divergence && (
+										<span
+											className={`rounded px-1.5 py-0.5 font-medium ${
+												levelColor[snapshot.divergence.divergence]
+											}`}
+											title="Divergence score"
+										>
+											{snapshot.divergence.score}%
+										</span>
+									)}
+								</span>
+							</Link>
+							{baseId && snapshot.id !== baseId ? (
+								<Link
+									href={snapshotDiffPath(
+										snapshot.ticker,
+										snapshot.id,
+										baseId
+									)}
+									title={
+										currentId
+											? "Compare with the run being viewed"
+											: "Compare with the latest run"
+									}
+									aria-label={`Compare the run of ${formatTime(
+										snapshot.createdAt
+									)}`}
+									className="shrink-0 px-3 py-2 text-gray-400 hover:text-blue-400"
+								>
+									<GitCompare size={14} />
+								</Link>
+							) : (
+								<span className="w-[38px] shrink-0"></span>
+							)}
+						</li>
+					))}
+				</ol>
+			)}
+		</div>
+	);
+}
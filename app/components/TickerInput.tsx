@@ -2,43 +2,59 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
-
-// Accepts 1–5 uppercase letters (standard US ticker format)
-const TICKER_REGEX = /^[A-Z]{1,5}$/;
+import CompanySearchInput from "./CompanySearchInput";
+import { fetchCompanySuggestions } from "@/lib/useCompanySuggestions";
+import { isTickerSymbol, normalizeTicker } from "@/lib/entities/symbols";
+import { analysisPath } from "@/lib/analysisOptions";
 
 export default function TickerInput() {
 	const [ticker, setTicker] = useState("");
 	const [error, setError] = useState<string | null>(null);
 	const router = useRouter();
 
-	const handleSubmit = (e: React.FormEvent) => {
+	const navigate = (symbol: string) => {
+		setError(null);
+		// Navigate to the analysis route; backend fetch will trigger there
+		router.push(analysisPath(symbol));
+	};
+
+	const handleSubmit = async (e: React.FormEvent) => {
 		e.preventDefault();
-		const symbol = ticker.trim().toUpperCase();
+		const input = ticker.trim();
+		if (!input) return;
 
-		if (!TICKER_REGEX.test(symbol)) {
-			setError("Please enter a valid ticker (1–5 capital letters).");
+		// Tickers, including class shares (BRK.B) and international listings (0700.HK)
+		if (isTickerSymbol(input)) {
+			navigate(normalizeTicker(input));
 			return;
 		}
 
-		setError(null);
-		// Navigate to the analysis route; backend fetch will trigger there
-		router.push(`/analyze/${symbol}`);
+		// Otherwise take the best matching company name
+		try {
+			const [best] = await fetchCompanySuggestions(input, 1);
+			if (best) {
+				navigate(best.ticker);
+				return;
+			}
+		} catch {
+			// Fall through to the validation message
+		}
+		setError("No matching company. Try a ticker like TSLA, BRK.B or 0700.HK.");
 	};
 
 	return (
 		<form onSubmit={handleSubmit} className="w-full max-w-md">
 			<label htmlFor="ticker" className="block mb-2 text-lg font-medium">
-				Enter a stock ticker
+				Enter a stock ticker or company
 			</label>
 
-			<div className="flex">
-				<input
+			<div className="relative flex">
+				<CompanySearchInput
 					id="ticker"
-					name="ticker"
-					type="text"
 					value={ticker}
-					onChange={(e) => setTicker(e.target.value.toUpperCase())}
-					placeholder="e.g. TSLA"
+					onChange={setTicker}
+					onSelect={(selected) => navigate(selected.ticker)}
+					placeholder="e.g. TSLA, BRK.B or Apple"
 					className="flex-grow rounded-l-md border border-gray-300 p-3 text-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:border-gray-700 dark:text-white"
 				/>
 				<button
@@ -0,0 +1,111 @@
+// lib/analysisOptions.ts
+/**
+ * Options carried in an analysis URL, e.g. /analyze/TSLA?window=30d&sources=reddit
+ *
+ * - window: how far back Reddit discussion is collected
+ * - sources: which sides of the analysis to run; "reddit" is the narrative,
+ *   "filings" the financial reality. The divergence view needs both.
+ * - aggregation: how posts are weighted into the sentiment percentages;
+ *   left unset, the server uses its DEFAULT_AGGREGATION
+ * - snapshot: a stored run to reopen instead of analyzing live
+ *
+ * Defaults are left out of URLs so the plain /analyze/TSLA stays canonical.
+ */
+import { isAggregationStrategy, type AggregationStrategy } from "./sentiment";
+
+export const ANALYSIS_WINDOWS = ["30d", "90d", "180d", "365d"] as const;
+export type AnalysisWindow = (typeof ANALYSIS_WINDOWS)[number];
+export const DEFAULT_WINDOW: AnalysisWindow = "90d";
+
+export const ANALYSIS_SOURCES = ["reddit", "filings"] as const;
+export type AnalysisSource = (typeof ANALYSIS_SOURCES)[number];
+
+export interface AnalysisOptions {
+  window: AnalysisWindow;
+  sources: AnalysisSource[];
+  aggregation?: AggregationStrategy;  // Unset means the server's default strategy
+}
+
+export const DEFAULT_ANALYSIS_OPTIONS: AnalysisOptions = {
+  window: DEFAULT_WINDOW,
+  sources: [...ANALYSIS_SOURCES]
+};
+
+// Route search params, either parsed or as Next passes them to pages
+type SearchParamsLike = URLSearchParams | Record<string, string | string[] | undefined>;
+
+const readParam = (params: SearchParamsLike, name: string): string | null => {
+  if (params instanceof URLSearchParams) return params.get(name);
+  const value = params[name];
+  return (Array.isArray(value) ? value[0] : value) ?? null;
+};
+
+/**
+ * Parses a date window, falling back to the default for missing or unknown values
+ */
+export function parseWindow(value: string | null | undefined): AnalysisWindow {
+  return ANALYSIS_WINDOWS.find(window => window === value) ?? DEFAULT_WINDOW;
+}
+
+/**
+ * Number of days a window covers
+ */
+export function windowDays(window: AnalysisWindow): number {
+  return parseInt(window, 10);
+}
+
+/**
+ * Parses a comma-separated source list, ignoring unknown names.
+ * An empty or missing list means every source.
+ */
+export function parseSources(value: string | null | undefined): AnalysisSource[] {
+  const requested = (value ?? "").split(",").map(source => source.trim().toLowerCase());
+  const sources = ANALYSIS_SOURCES.filter(source => requested.includes(source));
+  return sources.length > 0 ? sources : [...ANALYSIS_SOURCES];
+}
+
+/**
+ * Reads the analysis options from route search params
+ */
+export function parseAnalysisOptions(params: SearchParamsLike): AnalysisOptions {
+  const aggregation = readParam(params, "aggregation");
+  return {
+    window: parseWindow(readParam(params, "window")),
+    sources: parseSources(readParam(params, "sources")),
+    ...(isAggregationStrategy(aggregation) && { aggregation })
+  };
+}
+
+/**
+ * Builds the shareable URL of an analysis, leaving out default options
+ *
+ * @param symbol Ticker to analyze
+ * @param options Options that differ from the defaults
+ * @param snapshot ID of a stored run to reopen
+ */
+export function analysisPath(symbol: string, options: Partial<AnalysisOptions> = {}, snapshot?: string): string {
+  const params = new URLSearchParams();
+  if (options.window && options.window !== DEFAULT_WINDOW) {
+    params.set("window", options.window);
+  }
+  if (options.sources && options.sources.length < ANALYSIS_SOURCES.length) {
+    params.set("sources", options.sources.join(","));
+  }
+  if (options.aggregation) {
+    params.set("aggregation", options.aggregation);
+  }
+  if (snapshot) {
+    params.set("snapshot", snapshot);
+  }
+
+  const query = params.toString();
+  return `/analyze/${encodeURIComponent(symbol)}${query ? `?${query}` : ""}`;
+}
+
+/**
+ * URL of the diff between two stored analyses of a company
+ */
+export function snapshotDiffPath(symbol: string, from: string, to: string): string {
+  const params = new URLSearchParams({ from, to });
+  return `/analyze/${encodeURIComponent(symbol)}/diff?${params}`;
+}
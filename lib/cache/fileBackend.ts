@@ -0,0 +1,50 @@
+// lib/cache/fileBackend.ts
+import { promises as fs } from "node:fs";
+import { createHash, randomBytes } from "node:crypto";
+import path from "node:path";
+import type { CacheBackend, CacheEntry } from "./types";
+
+/**
+ * Stores each entry as a JSON file, so results survive restarts and
+ * can be shared by processes on the same machine
+ */
+export class FileSystemBackend implements CacheBackend {
+  constructor(private readonly dir: string) {}
+
+  private fileFor(key: string): string {
+    const hash = createHash("sha1").update(key).digest("hex");
+    return path.join(this.dir, `${hash}.json`);
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    try {
+      const stored = JSON.parse(await fs.readFile(this.fileFor(key), "utf-8"));
+      // Guard against hash collisions
+      return stored.key === key ? (stored.entry as CacheEntry<T>) : undefined;
+    } catch (error: any) {
+      if (error.code === "ENOENT") return undefined;
+      console.warn(`Unreadable cache file for ${key}:`, error.message);
+      return undefined;
+    }
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+
+    // Write then rename so readers never see a partial file; the random
+    // suffix keeps concurrent writes of one key from sharing a temp file
+    const file = this.fileFor(key);
+    const temp = `${file}.${process.pid}.${randomBytes(6).toString("hex")}.tmp`;
+    try {
+      await fs.writeFile(temp, JSON.stringify({ key, entry }), "utf-8");
+      await fs.rename(temp, file);
+    } catch (error) {
+      await fs.rm(temp, { force: true });
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.fileFor(key), { force: true });
+  }
+}
@@ -0,0 +1,183 @@
+// lib/cache/index.ts
+/**
+ * Server-side result cache for narrative and financial results.
+ *
+ * Entries are keyed by normalized company, route type, prompt version and
+ * date window. Within `ttlMs` a hit is served as-is; for a further `staleMs`
+ * it is served immediately while a background revalidation refreshes it.
+ *
+ * Backend is chosen with RESULT_CACHE_BACKEND:
+ * - `memory` (default): in-process LRU, capped at RESULT_CACHE_MAX_ENTRIES
+ * - `fs`: JSON files under RESULT_CACHE_DIR, shared across restarts
+ */
+import { MemoryLruBackend } from "./memoryBackend";
+import { FileSystemBackend } from "./fileBackend";
+import type { CacheBackend, CacheEntry } from "./types";
+
+export type { CacheBackend, CacheEntry } from "./types";
+export { MemoryLruBackend } from "./memoryBackend";
+export { FileSystemBackend } from "./fileBackend";
+export { replayCompletion, type CachedCompletion } from "./sseReplay";
+
+export type CacheBackendName = "memory" | "fs";
+
+export const RESULT_CACHE_BACKEND: CacheBackendName =
+  (process.env.RESULT_CACHE_BACKEND as CacheBackendName) || "memory";
+export const RESULT_CACHE_DIR = process.env.RESULT_CACHE_DIR || ".cache/results";
+export const RESULT_CACHE_MAX_ENTRIES = Number(process.env.RESULT_CACHE_MAX_ENTRIES) || 500;
+
+// How a result was served, reported in the X-Cache header
+export type CacheStatus = "HIT" | "STALE" | "MISS" | "BYPASS";
+
+export interface CacheKeyParts {
+  route: string;          // e.g. "narrative-stream", "financial", "reddit"
+  company: string;
+  promptVersion: number;  // Bump when a prompt changes so old results are ignored
+  window: string;         // Date window the result covers, e.g. "90d"
+  variant?: string;       // Any other option the result depends on, e.g. the sentiment aggregation
+}
+
+export interface CacheTiming {
+  ttlMs: number;    // How long a result is fresh
+  staleMs: number;  // How long after that it may be served while revalidating
+}
+
+// Freshness windows per result type
+export const CACHE_TIMINGS = {
+  reddit: { ttlMs: 15 * 60_000, staleMs: 60 * 60_000 },
+  narrative: { ttlMs: 15 * 60_000, staleMs: 6 * 60 * 60_000 },
+  financial: { ttlMs: 24 * 60 * 60_000, staleMs: 7 * 24 * 60 * 60_000 },
+  // Judgments depend only on their input, so they are kept for a week and never revalidated
+  judgment: { ttlMs: 7 * 24 * 60 * 60_000, staleMs: 0 }
+} satisfies Record<string, CacheTiming>;
+
+/**
+ * Normalizes a company or ticker so "$tsla ", "TSLA" and "tsla" share an entry
+ */
+export function normalizeCompany(company: string): string {
+  return company.trim().replace(/^\$/, "").replace(/\s+/g, " ").toUpperCase();
+}
+
+/**
+ * Builds a cache key from its parts
+ */
+export function cacheKey(parts: CacheKeyParts): string {
+  const key = [parts.route, `v${parts.promptVersion}`, normalizeCompany(parts.company), parts.window];
+  if (parts.variant) key.push(parts.variant);
+  return key.join(":");
+}
+
+/**
+ * Whether the request asked to skip the cache with `?fresh=1`
+ */
+export function wantsFresh(searchParams: URLSearchParams): boolean {
+  const fresh = searchParams.get("fresh");
+  return fresh === "1" || fresh === "true";
+}
+
+export class ResultCache {
+  // Revalidations in flight, so concurrent stale hits only refresh once
+  private inflight = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly backend: CacheBackend) {}
+
+  /**
+   * Looks up a key, dropping entries past their stale window
+   */
+  async lookup<T>(key: string): Promise<{ value: T; status: "HIT" | "STALE" } | undefined> {
+    let entry: CacheEntry<T> | undefined;
+    try {
+      entry = await this.backend.get<T>(key);
+    } catch (error) {
+      console.warn(`Cache read failed for ${key}:`, error);
+      return undefined;
+    }
+    if (!entry) return undefined;
+
+    const now = Date.now();
+    if (now > entry.staleUntil) {
+      await this.backend.delete(key).catch(() => {});
+      return undefined;
+    }
+    return { value: entry.value, status: now <= entry.freshUntil ? "HIT" : "STALE" };
+  }
+
+  /**
+   * Stores a value with the given freshness window
+   */
+  async set<T>(key: string, value: T, timing: CacheTiming): Promise<void> {
+    const now = Date.now();
+    try {
+      await this.backend.set(key, {
+        value,
+        storedAt: now,
+        freshUntil: now + timing.ttlMs,
+        staleUntil: now + timing.ttlMs + timing.staleMs
+      });
+    } catch (error) {
+      // A failed write only costs a future miss
+      console.warn(`Cache write failed for ${key}:`, error);
+    }
+  }
+
+  /**
+   * Recomputes a value and stores it. Concurrent calls for the same key share one computation.
+   */
+  refresh<T>(key: string, compute: () => Promise<T>, timing: CacheTiming): Promise<T> {
+    const existing = this.inflight.get(key);
+    if (existing) return existing as Promise<T>;
+
+    const pending = compute()
+      .then(async value => {
+        await this.set(key, value, timing);
+        return value;
+      })
+      .finally(() => this.inflight.delete(key));
+
+    this.inflight.set(key, pending);
+    return pending;
+  }
+
+  /**
+   * Starts a background refresh, logging rather than surfacing failures
+   */
+  revalidate<T>(key: string, compute: () => Promise<T>, timing: CacheTiming): void {
+    this.refresh(key, compute, timing).catch(error => {
+      console.warn(`Background revalidation failed for ${key}:`, error);
+    });
+  }
+
+  /**
+   * Returns a cached value, computing it on a miss. Stale values are returned
+   * immediately and refreshed in the background; `fresh` skips the lookup.
+   */
+  async getOrCompute<T>(
+    key: string,
+    compute: () => Promise<T>,
+    timing: CacheTiming,
+    options: { fresh?: boolean } = {}
+  ): Promise<{ value: T; status: CacheStatus }> {
+    if (!options.fresh) {
+      const cached = await this.lookup<T>(key);
+      if (cached) {
+        if (cached.status === "STALE") this.revalidate(key, compute, timing);
+        return cached;
+      }
+    }
+
+    const value = await this.refresh(key, compute, timing);
+    return { value, status: options.fresh ? "BYPASS" : "MISS" };
+  }
+}
+
+function createBackend(): CacheBackend {
+  if (RESULT_CACHE_BACKEND === "fs") return new FileSystemBackend(RESULT_CACHE_DIR);
+  return new MemoryLruBackend(RESULT_CACHE_MAX_ENTRIES);
+}
+
+// Kept on globalThis so API routes and server-rendered pages, which Next may
+// bundle separately, share one instance
+const globalCache = globalThis as typeof globalThis & { __resultCache?: ResultCache };
+
+// Shared instance used by the API routes and the analysis page
+export const resultCache = (globalCache.__resultCache ??= new ResultCache(createBackend()));
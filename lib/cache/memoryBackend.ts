@@ -0,0 +1,37 @@
+// lib/cache/memoryBackend.ts
+import type { CacheBackend, CacheEntry } from "./types";
+
+/**
+ * In-process LRU cache. Map iteration order is insertion order,
+ * so re-inserting on read keeps the least recently used entry first.
+ */
+export class MemoryLruBackend implements CacheBackend {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries = 500) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    // Evict least recently used entries
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
@@ -0,0 +1,28 @@
+// lib/cache/sseReplay.ts
+import type { SearchResult } from "@/types/perplexity";
+import type { EventSender } from "@/lib/streamProtocol";
+import { toCitations } from "@/lib/citations";
+
+// What a streaming route stores so the completion can be replayed later
+export interface CachedCompletion {
+  content: string;
+  citations?: string[];
+  search_results?: SearchResult[];
+}
+
+/**
+ * Replays a cached completion as protocol events, split into word-sized
+ * deltas so clients render it the same way as a live response.
+ * The caller sends any meta before and the done event after.
+ *
+ * @param completion The cached completion
+ * @param send Event sender of the response stream
+ */
+export function replayCompletion(completion: CachedCompletion, send: EventSender): void {
+  const tokens = completion.content.match(/\S+\s*|\s+/g) ?? [];
+  tokens.forEach(token => send("delta", { content: token }));
+
+  // Like Sonar, sources arrive with the end of the content
+  const citations = toCitations(completion);
+  if (citations.length > 0) send("citation", { citations });
+}
@@ -0,0 +1,19 @@
+// lib/cache/types.ts
+
+// A cached value with its freshness window
+export interface CacheEntry<T = unknown> {
+  value: T;
+  storedAt: number;    // Epoch ms when the value was computed
+  freshUntil: number;  // Served without revalidation until this time
+  staleUntil: number;  // Served while revalidating until this time, then dropped
+}
+
+/**
+ * Storage for cache entries. Backends only store and evict;
+ * freshness is decided by ResultCache.
+ */
+export interface CacheBackend {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+}
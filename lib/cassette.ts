@@ -0,0 +1,240 @@
+// lib/cassette.ts
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+/**
+ * Record-and-replay cassettes for outbound HTTP traffic (Sonar and Reddit).
+ *
+ * - `record`: calls go to the network and each request/response pair is
+ *   written to `<CASSETTE_DIR>/<CASSETTE_NAME>-<scope>.json`, including every
+ *   body chunk exactly as it arrived and its timing. Bodies carrying secrets
+ *   are stored redacted, as a single chunk.
+ * - `replay`: calls are served from the cassette, re-emitting the recorded
+ *   chunks byte-for-byte with the recorded delays (scaled by CASSETTE_SPEED).
+ * - `off` (default): plain fetch.
+ */
+export type CassetteMode = "off" | "record" | "replay";
+
+export type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+export const CASSETTE_MODE: CassetteMode =
+  (process.env.CASSETTE_MODE as CassetteMode) || "off";
+export const CASSETTE_DIR = process.env.CASSETTE_DIR || "cassettes";
+export const CASSETTE_NAME = process.env.CASSETTE_NAME || "default";
+// 1 replays in real time, 0 replays instantly
+export const CASSETTE_SPEED = Number(process.env.CASSETTE_SPEED ?? 1);
+
+// JSON fields whose values are never written to disk
+const REDACTED_FIELDS = ["access_token"];
+
+interface RecordedChunk {
+  offsetMs: number; // Time since the response headers arrived
+  base64: string;   // Raw bytes of the chunk
+}
+
+interface CassetteEntry {
+  request: {
+    method: string;
+    url: string;
+    body: string | null;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    latencyMs: number; // Time until the response headers arrived
+    chunks: RecordedChunk[];
+  };
+  recordedAt: string;
+}
+
+interface Cassette {
+  version: 1;
+  entries: CassetteEntry[];
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function cassettePath(scope: string): string {
+  return path.join(CASSETTE_DIR, `${CASSETTE_NAME}-${scope}.json`);
+}
+
+async function loadCassette(file: string): Promise<Cassette> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf-8")) as Cassette;
+  } catch (error: any) {
+    if (error.code === "ENOENT") return { version: 1, entries: [] };
+    throw error;
+  }
+}
+
+function requestBody(init?: RequestInit): string | null {
+  if (init?.body === undefined || init.body === null) return null;
+  return typeof init.body === "string" ? init.body : String(init.body);
+}
+
+/**
+ * Redacts secrets from a complete response body. Chunks are only redacted
+ * once assembled, since a secret can be split across them.
+ *
+ * @returns The chunks unchanged, or the whole redacted body as one chunk at the last offset
+ */
+function redactChunks(chunks: { offsetMs: number; bytes: Uint8Array }[]): RecordedChunk[] {
+  const recorded = chunks.map(chunk => ({
+    offsetMs: chunk.offsetMs,
+    base64: Buffer.from(chunk.bytes).toString("base64")
+  }));
+  const text = Buffer.concat(chunks.map(chunk => chunk.bytes)).toString("utf-8");
+  if (!REDACTED_FIELDS.some(field => text.includes(`"${field}"`))) return recorded;
+
+  const redacted = REDACTED_FIELDS.reduce(
+    (acc, field) => acc.replace(new RegExp(`("${field}"\\s*:\\s*)"[^"]*"`, "g"), `$1"REDACTED"`),
+    text
+  );
+  return [{
+    offsetMs: chunks[chunks.length - 1].offsetMs,
+    base64: Buffer.from(redacted, "utf-8").toString("base64")
+  }];
+}
+
+/**
+ * Wraps fetch so it records every call to the cassette for `scope`
+ */
+function createRecordingFetch(scope: string, baseFetch: FetchLike): FetchLike {
+  const file = cassettePath(scope);
+  // Serialize writes so concurrent requests don't clobber each other
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  const persist = (entry: CassetteEntry) => {
+    writeQueue = writeQueue.then(async () => {
+      const cassette = await loadCassette(file);
+      cassette.entries.push(entry);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, JSON.stringify(cassette, null, 2));
+    }).catch(error => {
+      console.error(`Failed to write cassette ${file}:`, error);
+    });
+  };
+
+  return async (url, init) => {
+    const started = Date.now();
+    const response = await baseFetch(url, init);
+    const headersAt = Date.now();
+
+    const entry: CassetteEntry = {
+      request: {
+        method: init?.method ?? "GET",
+        url,
+        body: requestBody(init)
+      },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers: Object.fromEntries(response.headers.entries()),
+        latencyMs: headersAt - started,
+        chunks: []
+      },
+      recordedAt: new Date(started).toISOString()
+    };
+
+    if (!response.body) {
+      persist(entry);
+      return response;
+    }
+
+    // Read one branch to record it while the caller consumes the other
+    const [callerBranch, recordBranch] = response.body.tee();
+    (async () => {
+      const reader = recordBranch.getReader();
+      const chunks: { offsetMs: number; bytes: Uint8Array }[] = [];
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push({ offsetMs: Date.now() - headersAt, bytes: value });
+      }
+      entry.response.chunks = redactChunks(chunks);
+      persist(entry);
+    })().catch(error => {
+      console.error(`Failed to record ${url}:`, error);
+    });
+
+    return new Response(callerBranch, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers
+    });
+  };
+}
+
+/**
+ * Serves calls from the cassette for `scope`. Requests are matched on
+ * method, URL and body; if nothing matches exactly, the next unused entry
+ * for the same method and URL is used so prompts with rolling dates replay.
+ */
+function createReplayFetch(scope: string): FetchLike {
+  const file = cassettePath(scope);
+  const used = new Set<CassetteEntry>();
+  let cassette: Promise<Cassette> | null = null;
+
+  return async (url, init) => {
+    cassette ??= loadCassette(file);
+    const { entries } = await cassette;
+    const method = init?.method ?? "GET";
+    const body = requestBody(init);
+
+    const candidates = entries.filter(
+      e => !used.has(e) && e.request.method === method && e.request.url === url
+    );
+    const entry = candidates.find(e => e.request.body === body) ?? candidates[0];
+
+    if (!entry) {
+      throw new Error(`No cassette entry in ${file} for ${method} ${url}`);
+    }
+    used.add(entry);
+
+    const { response } = entry;
+    const speed = Number.isFinite(CASSETTE_SPEED) ? CASSETTE_SPEED : 1;
+    await sleep(response.latencyMs * speed);
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let elapsed = 0;
+        for (const chunk of response.chunks) {
+          await sleep((chunk.offsetMs - elapsed) * speed);
+          elapsed = chunk.offsetMs;
+          if (init?.signal?.aborted) break;
+          controller.enqueue(new Uint8Array(Buffer.from(chunk.base64, "base64")));
+        }
+        controller.close();
+      }
+    });
+
+    return new Response(stream, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers
+    });
+  };
+}
+
+/**
+ * Returns a fetch-compatible function for `scope` that records, replays or
+ * passes through depending on CASSETTE_MODE
+ * @param scope Cassette file suffix, e.g. "sonar" or "reddit"
+ * @param baseFetch Underlying fetch used when recording or passing through
+ */
+export function createCassetteFetch(
+  scope: string,
+  baseFetch: FetchLike = (url, init) => fetch(url, init)
+): FetchLike {
+  switch (CASSETTE_MODE) {
+    case "record":
+      console.log(`Recording ${scope} traffic to ${cassettePath(scope)}`);
+      return createRecordingFetch(scope, baseFetch);
+    case "replay":
+      console.log(`Replaying ${scope} traffic from ${cassettePath(scope)}`);
+      return createReplayFetch(scope);
+    default:
+      return baseFetch;
+  }
+}
@@ -0,0 +1,85 @@
+// lib/citations.ts
+import type { Citation, SearchResult } from "@/types/perplexity";
+
+// "[1]" style footnote markers; "[1](url)" markdown links are not markers
+const MARKER_PATTERN = /\[(\d{1,2})\](?!\()/g;
+
+/**
+ * Returns the hostname of a URL without "www.", or the URL itself if unparseable
+ */
+export function domainOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Builds numbered citations from the `citations` and `search_results`
+ * fields Sonar returns on completions and stream chunks
+ *
+ * @param response Any object carrying Sonar citation fields
+ * @returns Citations numbered from 1, in the order the API returned them
+ */
+export function toCitations(response: {
+  citations?: string[];
+  search_results?: SearchResult[];
+} | null | undefined): Citation[] {
+  if (!response) return [];
+
+  // search_results carry titles and dates; bare citations are just URLs
+  const results = response.search_results ?? [];
+  const urls = response.citations?.length
+    ? response.citations
+    : results.map(result => result.url);
+
+  return urls
+    .filter(url => typeof url === "string" && url.length > 0)
+    .map((url, i) => {
+      const result = results.find(r => r.url === url);
+      return {
+        index: i + 1,
+        url,
+        title: result?.title || undefined,
+        domain: domainOf(url),
+        date: result?.date ?? result?.last_updated ?? null
+      };
+    });
+}
+
+/**
+ * Extracts the footnote numbers referenced by "[n]" markers in text
+ */
+export function extractMarkers(text: string): number[] {
+  const markers = new Set<number>();
+  for (const match of text.matchAll(MARKER_PATTERN)) {
+    markers.add(Number(match[1]));
+  }
+  return Array.from(markers);
+}
+
+/**
+ * Removes "[n]" footnote markers from text for display
+ */
+export function stripMarkers(text: string): string {
+  return text.replace(MARKER_PATTERN, "").replace(/\s+([.,;:])/g, "$1").trim();
+}
+
+/**
+ * Maps citations onto bullets. Bullets that use "[n]" markers get those
+ * footnotes; when no bullet carries a marker, bullet i falls back to
+ * citation i + 1 so each bullet still points at a source.
+ *
+ * @param bullets Bullet texts, possibly containing markers
+ * @param citations Numbered citations from the response
+ * @returns Footnote numbers for each bullet
+ */
+export function mapCitations(bullets: string[], citations: Citation[]): number[][] {
+  const known = new Set(citations.map(citation => citation.index));
+  const byMarker = bullets.map(text => extractMarkers(text).filter(n => known.has(n)));
+
+  if (byMarker.some(markers => markers.length > 0)) return byMarker;
+
+  return bullets.map((_, i) => (known.has(i + 1) ? [i + 1] : []));
+}
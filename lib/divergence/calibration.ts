@@ -0,0 +1,92 @@
+// lib/divergence/calibration.ts
+/**
+ * Every model judgment is logged next to the heuristic result for the same
+ * input, so the heuristic can be calibrated against the model over time.
+ * Records are appended as JSON lines to one file per ticker under
+ * DIVERGENCE_CALIBRATION_DIR.
+ */
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { ComparisonResult, DivergenceInput } from "./types";
+
+export const DIVERGENCE_CALIBRATION_DIR =
+  process.env.DIVERGENCE_CALIBRATION_DIR || ".data/calibration";
+
+export interface CalibrationRecord {
+  ticker: string;
+  createdAt: string;
+  input: DivergenceInput;
+  heuristic: ComparisonResult;
+  model: ComparisonResult;
+}
+
+// How far the heuristic is from the model across records
+export interface CalibrationStats {
+  count: number;
+  meanAbsoluteError: number | null;   // Mean |heuristic - model| score, in points
+  meanBias: number | null;            // Mean heuristic - model score; positive = heuristic runs high
+  levelAgreement: number | null;      // Share of records where both gave the same level
+}
+
+function fileTicker(ticker: string): string {
+  return ticker.toUpperCase().replace(/[^A-Z0-9.]/g, "") || "UNKNOWN";
+}
+
+/**
+ * Summarizes how the heuristic compares with the model
+ */
+export function calibrationStats(records: CalibrationRecord[]): CalibrationStats {
+  if (records.length === 0) {
+    return { count: 0, meanAbsoluteError: null, meanBias: null, levelAgreement: null };
+  }
+  const diffs = records.map(record => record.heuristic.score - record.model.score);
+  const mean = (values: number[]) => Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 10) / 10;
+
+  return {
+    count: records.length,
+    meanAbsoluteError: mean(diffs.map(Math.abs)),
+    meanBias: mean(diffs),
+    levelAgreement: mean(records.map(record => (record.heuristic.divergence === record.model.divergence ? 1 : 0)))
+  };
+}
+
+export class CalibrationLog {
+  constructor(private readonly dir: string) {}
+
+  private fileFor(ticker: string): string {
+    return path.join(this.dir, `${fileTicker(ticker)}.jsonl`);
+  }
+
+  async record(record: CalibrationRecord): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.appendFile(this.fileFor(record.ticker), JSON.stringify(record) + "\n", "utf-8");
+  }
+
+  /**
+   * Most recent records of a ticker, newest first
+   */
+  async list(ticker: string, limit = 50): Promise<CalibrationRecord[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.fileFor(ticker), "utf-8");
+    } catch (error: any) {
+      if (error.code === "ENOENT") return [];
+      throw error;
+    }
+
+    const records: CalibrationRecord[] = [];
+    for (const line of content.split("\n").reverse()) {
+      if (records.length >= limit) break;
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // A partially written last line is skipped
+      }
+    }
+    return records;
+  }
+}
+
+// Shared instance used by the divergence routes
+export const calibrationLog = new CalibrationLog(DIVERGENCE_CALIBRATION_DIR);
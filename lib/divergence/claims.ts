@@ -0,0 +1,269 @@
+// lib/divergence/claims.ts
+/**
+ * Claim-level alignment of narrative bullets with filing items.
+ *
+ * Texts are split into clauses and each clause that names a metric and a
+ * direction becomes a claim (metric, direction, magnitude, period, segment).
+ * Narrative claims are paired with the filing claim about the same metric,
+ * preferring the same segment and period; claims about different segments
+ * are never paired, so "energy growth" does not contradict "automotive decline".
+ *
+ * Fixes to extraction and pairing are switched on by ClaimRules, so older
+ * algorithm versions keep pairing claims exactly as they did.
+ */
+import { extractFigures } from "../figureVerifier";
+import { stripMarkers } from "../citations";
+import { NEGATORS, NON_NEGATING } from "../sentiment/lexicon";
+import type {
+  Claim,
+  ClaimDirection,
+  ClaimPair,
+  DivergenceInput,
+  DivergenceSection
+} from "./types";
+
+export interface ClaimRules {
+  negation: boolean;     // A negator before the direction word flips it: "revenue is not growing"
+  priorLevels: boolean;  // A percentage after "from" is the previous level: "18%, down from 25%"
+  factualOnly: boolean;  // Hypothetical filing claims ("could decline 5%") are left out and risks rank below fundamentals
+}
+
+// Rules of claims-1 and claims-2
+export const ORIGINAL_CLAIM_RULES: ClaimRules = { negation: false, priorLevels: false, factualOnly: false };
+export const CLAIM_RULES: ClaimRules = { negation: true, priorLevels: true, factualOnly: true };
+
+// A narrative percentage this many times the filing's (and 2+ points more) is exaggerated
+export const EXAGGERATION_RATIO = 1.5;
+const EXAGGERATION_MIN_POINTS = 2;
+
+// Canonical metric and the phrases that name it; longer phrases first
+const METRICS: [string, RegExp][] = [
+  ["free cash flow", /\b(?:free cash flow|fcf)\b/],
+  ["cash flow", /\b(?:operating cash flow|cash flows?)\b/],
+  ["market share", /\bmarket share\b/],
+  ["margins", /\b(?:gross|operating|net|profit|ebitda)?\s*margins?\b/],
+  ["earnings", /\b(?:earnings|eps|net income|profits?|profitability|bottom[- ]line)\b/],
+  ["revenue", /\b(?:revenues?|sales|top[- ]line)\b/],
+  ["deliveries", /\b(?:deliveries|delivery|deployments?|shipments?|units sold|production)\b/],
+  ["users", /\b(?:(?:active|paying|monthly|daily) users|subscribers|customers|daus?|maus?)\b/],
+  ["demand", /\b(?:demand|orders|backlog|bookings)\b/],
+  ["guidance", /\b(?:guidance|outlook|forecast)\b/],
+  ["costs", /\b(?:costs?|expenses|opex|spending)\b/],
+  ["capex", /\b(?:capex|capital expenditures?)\b/],
+  ["debt", /\b(?:debt|leverage|borrowings)\b/],
+  ["stock price", /\b(?:stock price|share price|stock)\b/]
+];
+
+const DIRECTIONS: [ClaimDirection, RegExp][] = [
+  ["up", /\b(?:grow\w*|grew|increas\w*|ris(?:e|es|ing|en)|rose|up|surg\w*|jump\w*|soar\w*|climb\w*|expand\w*|higher|record|beat|beats|improv\w*|accelerat\w*|gain\w*|strong\w*)\b/g],
+  ["down", /\b(?:declin\w*|decreas\w*|fell|fall\w*|drop\w*|down|lower|miss\w*|shr[iu]nk\w*|shrank|contract\w*|slow\w*|weak\w*|plung\w*|sank|sink\w*|cuts?|compress\w*|deteriorat\w*|loss|losses)\b/g],
+  ["flat", /\b(?:flat|stable|unchanged|steady)\b/g]
+];
+
+const PERIOD =
+  /\b(?:q[1-4]\s*(?:fy)?\s*'?\d{2,4}|fy\s?'?\d{2,4}|(?:first|second|third|fourth) quarter(?: of)?(?: \d{4})?|full[- ]year(?: \d{4})?|year[- ]over[- ]year|yoy|quarter[- ]over[- ]quarter|qoq|sequential(?:ly)?)\b/;
+
+const REGIONS =
+  /\b(?:china|europe|united states|u\.s\.|north america|asia|india|japan|emea|apac|latin america|international|domestic)\b/;
+
+const SEGMENT = /\b([a-z][a-z&-]+(?: [a-z][a-z&-]+)?) (?:segment|division|business|unit)\b/;
+
+// A percentage after these words is a level ("fell to 17%"), not a change
+const LEVEL_BEFORE = /\b(?:to|at|was|is|of just|reached|stands at)\s*$/;
+// ...and, under priorLevels, also a previous level ("down from 25%")
+const PRIOR_LEVEL_BEFORE = /\b(?:to|at|was|is|of just|reached|stands at|from)\s*$/;
+
+// Words that make a clause a possibility rather than a reported fact
+const HYPOTHETICAL = /\b(?:could|may|might|would)\b/;
+
+// Words before a direction word searched for a negator
+const NEGATION_WINDOW = 3;
+
+// Words that name the company as a whole rather than a segment
+const NOT_SEGMENTS = new Set(["the", "core", "overall", "entire", "whole", "total", "its", "our", "their"]);
+
+/**
+ * Clauses of a text: sentences, and the halves of "X while Y" or "X but Y"
+ */
+function clauses(text: string): string[] {
+  return stripMarkers(text)
+    .toLowerCase()
+    .split(/[.;!?]\s+|,?\s+(?:while|but|whereas|although|however)\s+/)
+    .map(clause => clause.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Direction word closest to the metric, preferring one after it
+ */
+function directionNear(clause: string, metricIndex: number): { direction: ClaimDirection; index: number } | null {
+  let best: { direction: ClaimDirection; index: number; distance: number } | null = null;
+  for (const [direction, pattern] of DIRECTIONS) {
+    for (const match of clause.matchAll(pattern)) {
+      const index = match.index ?? 0;
+      // Words before the metric ("strong revenue") count, but weigh less
+      const distance = index >= metricIndex ? index - metricIndex : (metricIndex - index) * 1.5;
+      if (!best || distance < best.distance) best = { direction, index, distance };
+    }
+  }
+  return best;
+}
+
+/**
+ * Whether a negator shortly before the direction word reverses it ("not growing", "didn't grow")
+ */
+function negatedAt(clause: string, index: number): boolean {
+  const words = clause.slice(0, index).replace(/['’]/g, "").split(/[^a-z]+/).filter(Boolean).slice(-NEGATION_WINDOW);
+  return words.some((word, i) =>
+    NEGATORS.has(word) && !NON_NEGATING.has(`${word} ${words[i + 1] ?? ""}`)
+  );
+}
+
+const OPPOSITE: Record<ClaimDirection, ClaimDirection | null> = { up: "down", down: "up", flat: null };
+
+function segmentOf(clause: string): string | null {
+  const region = clause.match(REGIONS);
+  if (region) return region[0] === "u.s." ? "united states" : region[0];
+
+  const segment = clause.match(SEGMENT);
+  if (!segment) return null;
+  const words = segment[1].split(" ").filter(word => !NOT_SEGMENTS.has(word));
+  return words.length > 0 ? words.join(" ") : null;
+}
+
+/**
+ * Extracts the claims made by one bullet or item
+ *
+ * @param rules Extraction fixes to apply (default CLAIM_RULES)
+ */
+export function extractClaims(text: string, section: DivergenceSection, rules: ClaimRules = CLAIM_RULES): Claim[] {
+  const claims: Claim[] = [];
+  const levelBefore = rules.priorLevels ? PRIOR_LEVEL_BEFORE : LEVEL_BEFORE;
+
+  for (const clause of clauses(text)) {
+    const percents = extractFigures(clause).filter(
+      figure => figure.kind === "percent" && !levelBefore.test(clause.slice(0, clause.indexOf(figure.text)))
+    );
+    const hypothetical = HYPOTHETICAL.test(clause);
+    const period = clause.match(PERIOD)?.[0].replace(/\s+/g, " ") ?? null;
+    const segment = segmentOf(clause);
+    const seen = new Set<string>();
+
+    for (const [metric, pattern] of METRICS) {
+      const match = clause.match(pattern);
+      if (!match || seen.has(metric)) continue;
+      const near = directionNear(clause, match.index ?? 0);
+      if (!near) continue;
+
+      // A negated move says what did not happen, so its figure is not the change
+      const negated = rules.negation && negatedAt(clause, near.index);
+      const direction = negated ? OPPOSITE[near.direction] : near.direction;
+      if (!direction) continue;
+      seen.add(metric);
+
+      const magnitude = percents.length > 0 && direction !== "flat" && !negated
+        ? (direction === "down" ? -1 : 1) * Math.abs(percents[0].value)
+        : null;
+      claims.push({ metric, direction, magnitude, period, segment, section, text, hypothetical });
+    }
+  }
+
+  return claims;
+}
+
+const describe = (claim: Claim) =>
+  [
+    claim.segment,
+    claim.metric,
+    claim.direction,
+    claim.magnitude !== null ? `${Math.abs(claim.magnitude)}%` : null,
+    claim.period ? `(${claim.period})` : null
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+// Unscoped claims match any segment; "energy storage" falls within "energy"
+const sameScope = (a: string | null, b: string | null) =>
+  a === null || b === null || a.startsWith(b) || b.startsWith(a);
+
+/**
+ * Labels a narrative claim against the filing claim about the same metric
+ */
+function labelPair(narrative: Claim, financial: Claim): Pick<ClaimPair, "label" | "reason"> {
+  if (narrative.direction !== financial.direction) {
+    // A move where the filings report none is overstated; the opposite move is contradicted
+    const label = financial.direction === "flat" ? "exaggerated" : "contradicted";
+    return { label, reason: `Narrative says ${describe(narrative)}; filings say ${describe(financial)}` };
+  }
+
+  if (narrative.magnitude !== null && financial.magnitude !== null) {
+    const claimed = Math.abs(narrative.magnitude);
+    const reported = Math.abs(financial.magnitude);
+    if (claimed >= reported * EXAGGERATION_RATIO && claimed - reported >= EXAGGERATION_MIN_POINTS) {
+      return {
+        label: "exaggerated",
+        reason: `Narrative claims ${claimed}% but filings report ${reported}% for ${financial.metric}`
+      };
+    }
+  }
+
+  return { label: "supported", reason: `Filings also report ${describe(financial)}` };
+}
+
+/**
+ * Pairs the narrative's claims with the filings' claims about the same metric
+ *
+ * @param rules Extraction and pairing fixes to apply (default CLAIM_RULES)
+ * @returns One pair per narrative claim, then filing claims on metrics the narrative never mentions
+ */
+export function alignClaims({ narratives, financial }: DivergenceInput, rules: ClaimRules = CLAIM_RULES): ClaimPair[] {
+  const narrativeClaims = narratives.flatMap(text => extractClaims(text, "narrative", rules));
+  const financialClaims = [
+    ...financial.fundamentals.flatMap(text => extractClaims(text, "fundamentals", rules)),
+    ...financial.trends.flatMap(text => extractClaims(text, "trends", rules)),
+    ...financial.risks.flatMap(text => extractClaims(text, "risks", rules))
+  ].filter(claim => !rules.factualOnly || !claim.hypothetical);
+
+  const pairs: ClaimPair[] = narrativeClaims.map(claim => {
+    const sameMetric = financialClaims.filter(other => other.metric === claim.metric);
+    const candidates = sameMetric.filter(other => sameScope(claim.segment, other.segment));
+
+    if (candidates.length === 0) {
+      return {
+        narrative: claim,
+        financial: null,
+        label: "unaddressed",
+        reason: sameMetric.length > 0
+          ? `Filings only discuss ${claim.metric} for ${sameMetric.map(other => other.segment).join(", ")}`
+          : `Filings do not mention ${claim.metric}`
+      };
+    }
+
+    // Prefer a claim about the same segment, then the same period, then one with a figure;
+    // under factualOnly, any fundamental or trend over a risk
+    const rank = (other: Claim) =>
+      (rules.factualOnly && other.section !== "risks" ? 8 : 0) +
+      (claim.segment !== null && other.segment !== null ? 4 : 0) +
+      (claim.period !== null && other.period === claim.period ? 2 : 0) +
+      (other.magnitude !== null ? 1 : 0);
+    const match = candidates.reduce((best, other) => (rank(other) > rank(best) ? other : best));
+
+    return { narrative: claim, financial: match, ...labelPair(claim, match) };
+  });
+
+  // Filing facts the narrative leaves out
+  const mentioned = new Set(narrativeClaims.map(claim => claim.metric));
+  const reported = new Set<string>();
+  for (const claim of financialClaims) {
+    if (mentioned.has(claim.metric) || reported.has(claim.metric)) continue;
+    reported.add(claim.metric);
+    pairs.push({
+      narrative: null,
+      financial: claim,
+      label: "unaddressed",
+      reason: `Narrative does not mention ${describe(claim)}`
+    });
+  }
+
+  return pairs;
+}
@@ -0,0 +1,90 @@
+// lib/divergence/claimsV1.ts
+/**
+ * Claim-aware scoring: narrative claims are checked against filing claims
+ * about the same metric and segment (see claims.ts). The score is mostly the
+ * share of addressed claims that are contradicted (exaggerated ones count
+ * half), with the keyword tone gap making up the rest. Without any claim the
+ * filings address, the tone gap alone is the score.
+ */
+import { alignClaims, ORIGINAL_CLAIM_RULES, type ClaimRules } from "./claims";
+import { keywordTone, type ToneModel } from "./tone";
+import { divergenceLevel, levelSummary } from "./levels";
+import type { ClaimPair, ComparisonResult, DivergenceAlgorithm, DivergenceInput } from "./types";
+
+// Weight of the claim score against the tone gap when claims were addressed
+const CLAIM_WEIGHT = 0.7;
+// Mismatched claims listed as key points
+const MAX_CLAIM_POINTS = 3;
+
+function claimScore(pairs: ClaimPair[]): number | null {
+  const addressed = pairs.filter(pair => pair.narrative && pair.financial);
+  if (addressed.length === 0) return null;
+  const contradicted = addressed.filter(pair => pair.label === "contradicted").length;
+  const exaggerated = addressed.filter(pair => pair.label === "exaggerated").length;
+  return ((contradicted + exaggerated / 2) / addressed.length) * 100;
+}
+
+/**
+ * Claim-aware score with the tone gap read by the given tone model and claims paired under the given rules
+ */
+export function scoreWithClaims(
+  input: DivergenceInput,
+  tone: ToneModel,
+  version: string,
+  rules: ClaimRules = ORIGINAL_CLAIM_RULES
+): ComparisonResult {
+  const { company, narratives, financial } = input;
+  const narrativeSentiment = tone.sentiment(narratives);
+  const financialSentiment = tone.sentiment([...financial.fundamentals, ...financial.risks, ...financial.trends]);
+  const toneScore = Math.abs(narrativeSentiment - financialSentiment) * 100;
+
+  const claims = alignClaims(input, rules);
+  const fromClaims = claimScore(claims);
+  const divergenceScore = Math.min(100, Math.round(
+    fromClaims === null ? toneScore : CLAIM_WEIGHT * fromClaims + (1 - CLAIM_WEIGHT) * toneScore
+  ));
+
+  // Mismatched claims first, then how many claims held up
+  const keyPoints = claims
+    .filter(pair => pair.label === "contradicted" || pair.label === "exaggerated")
+    .slice(0, MAX_CLAIM_POINTS)
+    .map(pair => `${pair.label === "contradicted" ? "Contradicted" : "Exaggerated"}: ${pair.reason}.`);
+
+  const supported = claims.filter(pair => pair.label === "supported").length;
+  if (supported > 0) {
+    keyPoints.push(`${supported} narrative claim${supported === 1 ? " is" : "s are"} backed by the filings.`);
+  }
+  if (fromClaims === null) {
+    keyPoints.push("The filings do not address any specific claim in the narrative; the score reflects overall tone only.");
+  }
+
+  const divergence = divergenceLevel(divergenceScore);
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return {
+    score: divergenceScore,
+    divergence,
+    summary: levelSummary(divergence, company),
+    keyPoints,
+    components: {
+      narrativeSentiment: round(narrativeSentiment),
+      financialSentiment: round(financialSentiment)
+    },
+    evidence: {
+      narrative: tone.matches("narrative", narratives),
+      financial: [
+        ...tone.matches("fundamentals", financial.fundamentals),
+        ...tone.matches("risks", financial.risks),
+        ...tone.matches("trends", financial.trends)
+      ],
+      claims
+    },
+    version
+  };
+}
+
+export const claimsV1: DivergenceAlgorithm = {
+  version: "claims-1",
+  description: "Share of narrative claims the filings contradict or undercut, blended with the keyword tone gap",
+  score: input => scoreWithClaims(input, keywordTone, claimsV1.version)
+};
@@ -0,0 +1,15 @@
+// lib/divergence/claimsV2.ts
+/**
+ * claims-1 with the tone gap read by the lexicon scorer (lib/sentiment)
+ * instead of keywords, so "not bullish" and "no decline" count the right way
+ * and "slight dip" weighs less than "collapse".
+ */
+import { scoreWithClaims } from "./claimsV1";
+import { lexiconTone } from "./tone";
+import type { DivergenceAlgorithm } from "./types";
+
+export const claimsV2: DivergenceAlgorithm = {
+  version: "claims-2",
+  description: "claims-1 with a negation- and intensity-aware lexicon tone gap",
+  score: input => scoreWithClaims(input, lexiconTone, claimsV2.version)
+};
@@ -0,0 +1,17 @@
+// lib/divergence/claimsV3.ts
+/**
+ * claims-2 with the claim fixes of CLAIM_RULES: negated moves are flipped
+ * ("revenue is not growing"), "down from 25%" is read as the previous level,
+ * and hypothetical filing claims ("could cause revenue to decline 5%") are
+ * left out, with risk items ranked below fundamentals and trends.
+ */
+import { scoreWithClaims } from "./claimsV1";
+import { CLAIM_RULES } from "./claims";
+import { lexiconTone } from "./tone";
+import type { DivergenceAlgorithm } from "./types";
+
+export const claimsV3: DivergenceAlgorithm = {
+  version: "claims-3",
+  description: "claims-2 with negation, prior levels and hypothetical risks handled in claim pairing",
+  score: input => scoreWithClaims(input, lexiconTone, claimsV3.version, CLAIM_RULES)
+};
@@ -0,0 +1,86 @@
+// lib/divergence/index.ts
+/**
+ * Narrative vs. financial reality divergence scoring.
+ *
+ * Each scoring algorithm is registered under a version, and every result
+ * records the version that produced it, so stored scores can be compared
+ * across algorithm changes. Add a new version rather than changing an
+ * existing one; DIVERGENCE_VERSION picks the default.
+ *
+ * In model mode Sonar judges the divergence instead (judge.ts), and each
+ * judgment is logged with the heuristic result for calibration.
+ */
+import { keywordV1 } from "./keywordV1";
+import { claimsV1 } from "./claimsV1";
+import { claimsV2 } from "./claimsV2";
+import { claimsV3 } from "./claimsV3";
+import type { ComparisonResult, DivergenceAlgorithm, DivergenceInput } from "./types";
+
+export type {
+  Claim,
+  ClaimDirection,
+  ClaimLabel,
+  ClaimPair,
+  ComparisonResult,
+  DimensionJudgment,
+  DimensionRating,
+  DivergenceAlgorithm,
+  DivergenceComponents,
+  DivergenceEvidence,
+  DivergenceInput,
+  DivergenceDimension,
+  DivergenceLevel,
+  DivergenceMode,
+  DivergenceSection,
+  JudgmentCite,
+  JudgmentReason,
+  ModelJudgment,
+  TermMatch
+} from "./types";
+export { countSentimentTerms } from "./tone";
+export { alignClaims, extractClaims, CLAIM_RULES, ORIGINAL_CLAIM_RULES, type ClaimRules } from "./claims";
+export {
+  judgeDivergence,
+  buildJudgeRequest,
+  JUDGE_PROMPT_VERSION,
+  JUDGE_VERSION,
+  DIVERGENCE_DIMENSIONS
+} from "./judge";
+export {
+  calibrationLog,
+  calibrationStats,
+  CalibrationLog,
+  type CalibrationRecord,
+  type CalibrationStats
+} from "./calibration";
+
+const ALGORITHMS: Record<string, DivergenceAlgorithm> = {
+  [keywordV1.version]: keywordV1,
+  [claimsV1.version]: claimsV1,
+  [claimsV2.version]: claimsV2,
+  [claimsV3.version]: claimsV3
+};
+
+// Algorithm used when no version is requested
+export const DIVERGENCE_VERSION = claimsV3.version;
+
+export const DIVERGENCE_VERSIONS = Object.keys(ALGORITHMS);
+
+export function isDivergenceVersion(version: string): boolean {
+  return Object.prototype.hasOwnProperty.call(ALGORITHMS, version);
+}
+
+/**
+ * Scores how far the narrative is from the financial reality
+ *
+ * @param input Narrative bullets and financial sections
+ * @param version Algorithm version (default DIVERGENCE_VERSION)
+ * @returns Score, level, summary, key observations, components, matched evidence and the version used
+ * @throws Error for an unknown version
+ */
+export function scoreDivergence(input: DivergenceInput, version: string = DIVERGENCE_VERSION): ComparisonResult {
+  if (!isDivergenceVersion(version)) {
+    throw new Error(`Unknown divergence algorithm version: ${version}`);
+  }
+  return ALGORITHMS[version].score(input);
+}
@@ -0,0 +1,212 @@
+// lib/divergence/judge.ts
+/**
+ * Model mode: Sonar reads the narrative bullets and the financial sections
+ * and returns a structured judgment (a score, a rating per dimension, and
+ * reasons citing the bullets and items they rely on). Slower and costlier
+ * than the heuristic algorithms, and harder to fool with wording.
+ */
+import { sonarClient, getContent, type SonarCallOptions } from "../sonarClient";
+import { toCitations } from "../citations";
+import { divergenceLevel } from "./levels";
+import type { ResponseSchema, SonarRequest } from "@/types/perplexity";
+import type {
+  ComparisonResult,
+  DimensionJudgment,
+  DimensionRating,
+  DivergenceDimension,
+  DivergenceInput,
+  DivergenceSection,
+  JudgmentCite
+} from "./types";
+
+// Bump when the prompt or schema changes; recorded on model results as JUDGE_VERSION
+export const JUDGE_PROMPT_VERSION = 1;
+export const JUDGE_VERSION = `sonar-judge-${JUDGE_PROMPT_VERSION}`;
+export const JUDGE_MODEL = "sonar-pro";
+
+export const DIVERGENCE_DIMENSIONS: DivergenceDimension[] = ["growth", "profitability", "risk", "valuation"];
+
+const RATINGS: DimensionRating[] = ["aligned", "overstated", "understated", "contradicted", "not discussed"];
+
+const dimensionSchema = {
+  type: "object",
+  properties: {
+    rating: { type: "string", enum: RATINGS },
+    score: { type: "number" },
+    reason: { type: "string" }
+  },
+  required: ["rating", "score", "reason"]
+};
+
+/**
+ * JSON schema Sonar's judgment is constrained to
+ */
+export const DIVERGENCE_JUDGMENT_SCHEMA: ResponseSchema = {
+  type: "object",
+  properties: {
+    score: { type: "number" },
+    summary: { type: "string" },
+    narrativeTone: { type: "number" },
+    financialTone: { type: "number" },
+    dimensions: {
+      type: "object",
+      properties: Object.fromEntries(DIVERGENCE_DIMENSIONS.map(dimension => [dimension, dimensionSchema])),
+      required: DIVERGENCE_DIMENSIONS
+    },
+    reasons: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          text: { type: "string" },
+          cites: { type: "array", items: { type: "string" } }
+        },
+        required: ["text", "cites"]
+      },
+      minItems: 2,
+      maxItems: 5
+    }
+  },
+  required: ["score", "summary", "narrativeTone", "financialTone", "dimensions", "reasons"]
+};
+
+// Bullets and items numbered so the judgment can cite them
+interface NumberedText {
+  id: string;
+  section: DivergenceSection;
+  text: string;
+}
+
+function numberInput({ narratives, financial }: DivergenceInput): NumberedText[] {
+  const financialItems = [
+    ...financial.fundamentals.map(text => ({ section: "fundamentals" as const, text })),
+    ...financial.risks.map(text => ({ section: "risks" as const, text })),
+    ...financial.trends.map(text => ({ section: "trends" as const, text }))
+  ];
+  return [
+    ...narratives.map((text, i) => ({ id: `N${i + 1}`, section: "narrative" as const, text })),
+    ...financialItems.map((item, i) => ({ id: `F${i + 1}`, ...item }))
+  ];
+}
+
+/**
+ * Builds the Sonar request that judges a narrative against the filings
+ */
+export function buildJudgeRequest(input: DivergenceInput): SonarRequest {
+  const numbered = numberInput(input);
+  const list = (predicate: (item: NumberedText) => boolean) =>
+    numbered
+      .filter(predicate)
+      .map(item => `${item.id} [${item.section}] ${item.text}`)
+      .join("\n");
+
+  return {
+    model: JUDGE_MODEL,
+    messages: [
+      {
+        role: "system",
+        content: `You are DivergenceJudge-GPT. You compare how retail investors on Reddit talk about a company (the narrative) with what its financial filings report (the reality).
+
+Judge these dimensions: ${DIVERGENCE_DIMENSIONS.join(", ")}. For each, rate the narrative against the filings as one of: ${RATINGS.join(", ")}; give a 0-100 divergence score (0 = the narrative matches the filings, 100 = it is the opposite) and a one-sentence reason.
+
+Also return:
+- score: overall 0-100 divergence between narrative and reality
+- summary: one sentence
+- narrativeTone and financialTone: the overall tone of each side from -1 (negative) to 1 (positive)
+- reasons: 2-5 specific observations, each citing the ids (e.g. "N2", "F7") of the bullets and items it relies on
+
+Judge only from the texts provided; do not reward or penalize wording alone. Respond with JSON only.`
+      },
+      {
+        role: "user",
+        content: `Company: ${input.company}
+
+Narrative bullets:
+${list(item => item.section === "narrative")}
+
+Financial items:
+${list(item => item.section !== "narrative")}`
+      }
+    ],
+    // Structured outputs keep the judgment parseable
+    response_format: {
+      type: "json_schema",
+      json_schema: { schema: DIVERGENCE_JUDGMENT_SCHEMA }
+    },
+    temperature: 0.1
+  };
+}
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+/**
+ * Reads the judgment JSON, tolerating fenced output and missing fields
+ */
+function parseJudgment(content: string): Record<string, any> {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  try {
+    return JSON.parse(fenced ? fenced[1] : content);
+  } catch {
+    throw new Error("Sonar returned a divergence judgment that is not valid JSON");
+  }
+}
+
+function toDimension(value: any): DimensionJudgment {
+  return {
+    rating: RATINGS.includes(value?.rating) ? value.rating : "not discussed",
+    score: Math.round(clamp(value?.score, 0, 100, 0)),
+    reason: typeof value?.reason === "string" ? value.reason : ""
+  };
+}
+
+/**
+ * Asks Sonar to judge the divergence between a narrative and the filings
+ *
+ * @param input Narrative bullets and financial sections
+ * @returns A result in the same shape as the heuristic algorithms, with the judgment attached
+ * @throws SonarApiError when the API call fails, Error when the judgment cannot be parsed
+ */
+export async function judgeDivergence(
+  input: DivergenceInput,
+  options: SonarCallOptions = {}
+): Promise<ComparisonResult> {
+  const request = buildJudgeRequest(input);
+  const response = await sonarClient.complete(request, options);
+  const data = parseJudgment(getContent(response));
+
+  const byId = new Map(numberInput(input).map(item => [item.id, item]));
+  const reasons = (Array.isArray(data.reasons) ? data.reasons : [])
+    .filter((reason: any) => typeof reason?.text === "string")
+    .map((reason: any) => ({
+      text: reason.text,
+      // Ids the model made up are dropped
+      cites: (Array.isArray(reason.cites) ? reason.cites : [])
+        .map((id: unknown) => byId.get(String(id).trim().toUpperCase()))
+        .filter((cite: JudgmentCite | undefined): cite is JudgmentCite => cite !== undefined)
+    }));
+
+  const score = Math.round(clamp(data.score, 0, 100, 0));
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return {
+    score,
+    divergence: divergenceLevel(score),
+    summary: typeof data.summary === "string" ? data.summary : "",
+    keyPoints: reasons.map((reason: { text: string }) => reason.text),
+    components: {
+      narrativeSentiment: round(clamp(data.narrativeTone, -1, 1, 0)),
+      financialSentiment: round(clamp(data.financialTone, -1, 1, 0))
+    },
+    evidence: { narrative: [], financial: [] },
+    version: JUDGE_VERSION,
+    judgment: {
+      model: request.model,
+      dimensions: Object.fromEntries(
+        DIVERGENCE_DIMENSIONS.map(dimension => [dimension, toDimension(data.dimensions?.[dimension])])
+      ) as Record<DivergenceDimension, DimensionJudgment>,
+      reasons,
+      sources: toCitations(response)
+    }
+  };
+}
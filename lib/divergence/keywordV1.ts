@@ -0,0 +1,98 @@
+// lib/divergence/keywordV1.ts
+/**
+ * The original keyword heuristic: each side's tone is the balance of
+ * positive and negative keywords it contains (each keyword counted once),
+ * and the score is how far apart the two tones are.
+ */
+import { keywordSentiment, matchTerms } from "./tone";
+import { divergenceLevel, levelSummary } from "./levels";
+import type { ComparisonResult, DivergenceAlgorithm, DivergenceInput } from "./types";
+
+/**
+ * Compares narrative bullets with financial data using keyword sentiment
+ *
+ * @returns Divergence score, level, summary, key observations, the sentiment of each side and the matched keywords
+ */
+function score({ company, narratives, financial }: DivergenceInput): ComparisonResult {
+  // Combine all narrative points and financial data
+  const allNarratives = narratives.join(" ").toLowerCase();
+  const allFinancials = [
+    ...financial.fundamentals,
+    ...financial.risks,
+    ...financial.trends
+  ]
+    .join(" ")
+    .toLowerCase();
+
+  const narrativeSentiment = keywordSentiment(allNarratives);
+  const financialSentiment = keywordSentiment(allFinancials);
+  const sentimentDivergence = Math.abs(narrativeSentiment - financialSentiment);
+
+  // Generate key points based on comparison
+  const keyPoints: string[] = [];
+
+  // Compare sentiment
+  if (narrativeSentiment > 0 && financialSentiment < 0) {
+    keyPoints.push("Media portrays the company positively while financials show concerning indicators.");
+  } else if (narrativeSentiment < 0 && financialSentiment > 0) {
+    keyPoints.push("Media portrays the company negatively despite positive financial indicators.");
+  }
+
+  // Compare specific points (simplified for demonstration)
+  if (allNarratives.includes("growth") && allFinancials.includes("decline")) {
+    keyPoints.push("Media mentions growth while financial data indicates decline in key areas.");
+  }
+
+  if (allNarratives.includes("profit") && allFinancials.includes("loss")) {
+    keyPoints.push("Media highlights profitability while financial statements show losses.");
+  }
+
+  // Add generic points if specific ones weren't found
+  if (keyPoints.length === 0) {
+    if (sentimentDivergence > 0.5) {
+      keyPoints.push("Media narrative and financial reality show significant differences in overall tone.");
+    } else if (sentimentDivergence > 0.2) {
+      keyPoints.push("Some discrepancies exist between media portrayal and financial data.");
+    } else {
+      keyPoints.push("Media narrative aligns reasonably well with financial reality.");
+    }
+  }
+
+  // Ensure we have at least 2 key points
+  if (keyPoints.length === 1) {
+    keyPoints.push("Consider both media narratives and official financial data when evaluating this company.");
+  }
+
+  // Calculate numerical score (0-100, higher = more divergence)
+  const divergenceScore = Math.min(100, Math.round(sentimentDivergence * 100));
+
+  const divergence = divergenceLevel(divergenceScore);
+  const summary = levelSummary(divergence, company);
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return {
+    score: divergenceScore,
+    divergence,
+    summary,
+    keyPoints,
+    components: {
+      narrativeSentiment: round(narrativeSentiment),
+      financialSentiment: round(financialSentiment)
+    },
+    evidence: {
+      narrative: matchTerms("narrative", narratives),
+      financial: [
+        ...matchTerms("fundamentals", financial.fundamentals),
+        ...matchTerms("risks", financial.risks),
+        ...matchTerms("trends", financial.trends)
+      ]
+    },
+    version: keywordV1.version
+  };
+}
+
+export const keywordV1: DivergenceAlgorithm = {
+  version: "keyword-1",
+  description: "Tone gap from 14 positive and 14 negative keywords, matched as substrings",
+  score
+};
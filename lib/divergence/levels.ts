@@ -0,0 +1,24 @@
+// lib/divergence/levels.ts
+import type { DivergenceLevel } from "./types";
+
+/**
+ * Level of a 0-100 divergence score
+ */
+export function divergenceLevel(score: number): DivergenceLevel {
+  if (score < 30) return "low";
+  if (score < 60) return "medium";
+  return "high";
+}
+
+/**
+ * One-line summary for a divergence level
+ */
+export function levelSummary(level: DivergenceLevel, company: string): string {
+  if (level === "low") {
+    return `Media narratives generally align with financial realities for ${company}.`;
+  }
+  if (level === "medium") {
+    return `Some notable differences exist between how ${company} is portrayed in media vs. financial data.`;
+  }
+  return `Significant divergence between media portrayal and financial reality for ${company}.`;
+}
@@ -0,0 +1,109 @@
+// lib/divergence/tone.ts
+/**
+ * Tone of a side. The keyword tone counts which positive and negative
+ * sentiment keywords its texts contain, each keyword counted once; the
+ * lexicon tone weighs every term with negation and intensity (lib/sentiment).
+ */
+import { scoreSentiment, sentimentBalance } from "../sentiment";
+import type { DivergenceSection, TermMatch } from "./types";
+
+// How an algorithm reads the tone of one side
+export interface ToneModel {
+  sentiment(texts: string[]): number;                            // -1 to 1
+  matches(section: DivergenceSection, texts: string[]): TermMatch[];
+}
+
+// Sentiment keywords
+const POSITIVE_TERMS = [
+  "growth",
+  "profit",
+  "increase",
+  "success",
+  "positive",
+  "strong",
+  "innovation",
+  "beat",
+  "exceed",
+  "outperform",
+  "surge",
+  "rising",
+  "momentum",
+  "bullish"
+];
+
+const NEGATIVE_TERMS = [
+  "decline",
+  "loss",
+  "decrease",
+  "failure",
+  "negative",
+  "weak",
+  "problem",
+  "miss",
+  "below",
+  "underperform",
+  "drop",
+  "falling",
+  "slowdown",
+  "bearish"
+];
+
+/**
+ * Counts the positive and negative sentiment keywords in lowercase text
+ */
+export function countSentimentTerms(text: string): { positive: number; negative: number } {
+  return {
+    positive: POSITIVE_TERMS.filter(term => text.includes(term)).length,
+    negative: NEGATIVE_TERMS.filter(term => text.includes(term)).length
+  };
+}
+
+/**
+ * Sentiment of a text on a -1 to 1 scale from the keywords it contains
+ */
+export function keywordSentiment(text: string): number {
+  const { positive, negative } = countSentimentTerms(text);
+  return positive + negative > 0 ? (positive - negative) / (positive + negative) : 0;
+}
+
+/**
+ * Every keyword occurrence per bullet or item, for showing why a side scored as it did
+ */
+export function matchTerms(section: DivergenceSection, texts: string[]): TermMatch[] {
+  const matches: TermMatch[] = [];
+  for (const text of texts) {
+    const lower = text.toLowerCase();
+    for (const term of POSITIVE_TERMS) {
+      if (lower.includes(term)) matches.push({ term, polarity: "positive", section, text });
+    }
+    for (const term of NEGATIVE_TERMS) {
+      if (lower.includes(term)) matches.push({ term, polarity: "negative", section, text });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Every lexicon term per bullet or item, named as written with its modifiers ("not bullish")
+ */
+export function matchLexicon(section: DivergenceSection, texts: string[]): TermMatch[] {
+  return texts.flatMap(text =>
+    scoreSentiment(text).tokens.map(token => ({
+      term: [...token.modifiers, token.text].join(" ").toLowerCase(),
+      polarity: token.weight > 0 ? "positive" as const : "negative" as const,
+      section,
+      text,
+      weight: token.weight
+    }))
+  );
+}
+
+export const keywordTone: ToneModel = {
+  sentiment: texts => keywordSentiment(texts.join(" ").toLowerCase()),
+  matches: matchTerms
+};
+
+export const lexiconTone: ToneModel = {
+  sentiment: sentimentBalance,
+  matches: matchLexicon
+};
@@ -0,0 +1,111 @@
+// lib/divergence/types.ts
+import type { FinancialReality } from "../sonarFinancial";
+import type { Citation } from "@/types/perplexity";
+
+export type DivergenceLevel = "low" | "medium" | "high";
+
+// Narrative bullets and financial sections to compare
+export interface DivergenceInput {
+  company: string;                // Used in the summary
+  narratives: string[];
+  financial: Pick<FinancialReality, "fundamentals" | "risks" | "trends">;
+}
+
+// The two sides the score is computed from, each -1 (negative) to 1 (positive)
+export interface DivergenceComponents {
+  narrativeSentiment: number;
+  financialSentiment: number;
+}
+
+export type DivergenceSection = "narrative" | "fundamentals" | "risks" | "trends";
+
+// A sentiment term found in one bullet or financial item
+export interface TermMatch {
+  term: string;
+  polarity: "positive" | "negative";
+  section: DivergenceSection;
+  text: string;                   // The bullet or item it was found in
+  weight?: number;                // Lexicon weight after negation and intensifiers (lexicon tone only)
+}
+
+export type ClaimDirection = "up" | "down" | "flat";
+
+// One atomic statement about a metric, e.g. "China revenue grew 12% in Q2 2025"
+export interface Claim {
+  metric: string;                 // Canonical metric, e.g. "revenue", "margins"
+  direction: ClaimDirection;
+  magnitude: number | null;       // Percent change as stated, signed by direction
+  period: string | null;          // e.g. "q2 2025", "year-over-year"
+  segment: string | null;         // Business segment or region, e.g. "energy", "china"
+  section: DivergenceSection;
+  text: string;                   // The bullet or item it was taken from
+  hypothetical?: boolean;         // Stated as a possibility ("could", "may"); absent on older results
+}
+
+export type ClaimLabel = "supported" | "contradicted" | "exaggerated" | "unaddressed";
+
+// A narrative claim and the filing claim about the same metric; either side is null when unaddressed
+export interface ClaimPair {
+  narrative: Claim | null;
+  financial: Claim | null;
+  label: ClaimLabel;
+  reason: string;
+}
+
+export interface DivergenceEvidence {
+  narrative: TermMatch[];
+  financial: TermMatch[];
+  claims?: ClaimPair[];           // From claim-aware algorithm versions
+}
+
+// "heuristic" runs a registered algorithm; "model" asks Sonar to judge
+export type DivergenceMode = "heuristic" | "model";
+
+export type DivergenceDimension = "growth" | "profitability" | "risk" | "valuation";
+
+export type DimensionRating = "aligned" | "overstated" | "understated" | "contradicted" | "not discussed";
+
+// How the narrative compares with the filings on one dimension
+export interface DimensionJudgment {
+  rating: DimensionRating;
+  score: number;                  // 0-100, higher = more divergence
+  reason: string;
+}
+
+// A bullet or item a judgment reason relies on
+export interface JudgmentCite {
+  id: string;                     // "N2" for the second narrative bullet, "F7" for the seventh financial item
+  section: DivergenceSection;
+  text: string;
+}
+
+export interface JudgmentReason {
+  text: string;
+  cites: JudgmentCite[];
+}
+
+// Sonar's structured judgment, kept alongside the score in model mode
+export interface ModelJudgment {
+  model: string;
+  dimensions: Record<DivergenceDimension, DimensionJudgment>;
+  reasons: JudgmentReason[];
+  sources: Citation[];            // Web sources Sonar grounded the judgment on
+}
+
+// How far the media narrative is from the financial reality
+export interface ComparisonResult {
+  score: number; // 0-100 scale, higher = more divergence
+  divergence: DivergenceLevel;
+  summary: string;
+  keyPoints: string[];
+  components: DivergenceComponents;
+  evidence: DivergenceEvidence;
+  version: string;                // Algorithm that produced the result
+  judgment?: ModelJudgment;       // Model mode only
+}
+
+export interface DivergenceAlgorithm {
+  version: string;
+  description: string;
+  score(input: DivergenceInput): ComparisonResult;
+}
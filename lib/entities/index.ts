@@ -0,0 +1,252 @@
+// lib/entities/index.ts
+/**
+ * Resolves what the user typed ("goog", "$TSLA", "Facebook", "brk-b") to a
+ * canonical company entity: ticker, legal name, exchange, IR domain, aliases
+ * and cashtag.
+ *
+ * Backed by the bundled dataset.json. Matching tries, in order, an exact
+ * ticker, an exact name or alias, a prefix, then an edit-distance fuzzy match.
+ * Input that matches nothing still resolves, to an unknown entity built from
+ * the input itself, so callers never have to handle a missing result.
+ */
+import dataset from "./dataset.json";
+import { TICKER_LIKE, normalizeTicker } from "./symbols";
+
+export { TICKER_LIKE, normalizeTicker, isTickerSymbol } from "./symbols";
+
+// A company as stored in dataset.json
+export interface EntityRecord {
+  ticker: string;      // Primary listing, e.g. "BRK.B", "0700.HK"
+  name: string;        // Legal name, e.g. "Alphabet Inc."
+  shortName: string;   // Name people use, e.g. "Alphabet"
+  exchange: string;
+  irDomain: string;    // Investor relations site
+  domain: string;      // Corporate site
+  aliases: string[];   // Other tickers, listings and names
+  context: string[];   // Products, subsidiaries and executives, used to score relevance
+}
+
+export interface ResolvedEntity {
+  ticker: string;
+  name: string;
+  shortName: string;
+  exchange: string | null;
+  irDomain: string | null;
+  domain: string | null;
+  aliases: string[];
+  context: string[];
+  cashtag: string | null;  // e.g. "$TSLA"; null when the input was not ticker-like
+  known: boolean;          // false when the input matched nothing in the dataset
+}
+
+export interface EntityMatch {
+  entity: ResolvedEntity;
+  score: number;           // 0-1, 1 for an exact ticker match
+  matchedOn: "ticker" | "alias" | "name" | "prefix" | "fuzzy";
+}
+
+// Autocomplete suggestion, as returned by /api/companies
+export interface CompanySuggestion {
+  ticker: string;
+  name: string;
+  shortName: string;
+  exchange: string | null;
+  matchedOn: EntityMatch["matchedOn"];
+}
+
+// Minimum score for findEntity to accept a match
+const MIN_MATCH_SCORE = 0.75;
+
+const ENTITIES: EntityRecord[] = dataset;
+
+// Legal suffixes dropped before comparing names
+const CORPORATE_SUFFIXES =
+  /\b(incorporated|inc|corporation|corp|company|co|ltd|limited|plc|holdings?|group|se|sa|ag|nv|a\/s)\b\.?/g;
+
+/**
+ * Normalizes a company name for comparison: lowercase, "&" as "and",
+ * no corporate suffixes or punctuation
+ */
+export function normalizeName(input: string): string {
+  return input
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/&/g, " and ")
+    .replace(/^the\s+/, "")
+    .replace(CORPORATE_SUFFIXES, " ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Edit distance between two strings (insertions, deletions, substitutions)
+ */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+const similarity = (a: string, b: string): number =>
+  1 - levenshtein(a, b) / Math.max(a.length, b.length, 1);
+
+const toResolved = (record: EntityRecord): ResolvedEntity => ({
+  ...record,
+  cashtag: `$${record.ticker}`,
+  known: true
+});
+
+/**
+ * Scores how well a query matches one dataset entry
+ */
+function scoreRecord(
+  record: EntityRecord,
+  ticker: string,
+  name: string
+): Omit<EntityMatch, "entity"> | null {
+  if (record.ticker === ticker) return { score: 1, matchedOn: "ticker" };
+
+  const aliasTickers = record.aliases.filter(alias => TICKER_LIKE.test(alias));
+  if (aliasTickers.includes(ticker)) return { score: 0.97, matchedOn: "alias" };
+
+  if (!name) return null;
+
+  const names = [record.name, record.shortName, ...record.aliases].map(normalizeName).filter(Boolean);
+  if (normalizeName(record.name) === name || normalizeName(record.shortName) === name) {
+    return { score: 0.95, matchedOn: "name" };
+  }
+  if (names.includes(name)) return { score: 0.93, matchedOn: "alias" };
+
+  // Prefixes are for suggestions: a ticker prefix is usually a different, unlisted
+  // ticker ("AA" is not "AAPL"), and a name prefix must cover most of the name
+  const tickerPrefix = ticker.length >= 2 && record.ticker.startsWith(ticker)
+    ? 0.6 + 0.1 * (ticker.length / record.ticker.length)
+    : 0;
+  const namePrefix = name.length >= 2
+    ? Math.max(0, ...names.filter(candidate => candidate.startsWith(name)).map(candidate => 0.6 + 0.3 * (name.length / candidate.length)))
+    : 0;
+  if (tickerPrefix || namePrefix) {
+    return { score: Math.max(tickerPrefix, namePrefix), matchedOn: "prefix" };
+  }
+
+  // Typos: compare whole names, and each word for multi-word names
+  if (name.length < 4) return null;
+  const best = Math.max(
+    ...names.flatMap(candidate => [candidate, ...candidate.split(" ")]).map(candidate => similarity(name, candidate))
+  );
+  return best >= 0.7 ? { score: best * 0.9, matchedOn: "fuzzy" } : null;
+}
+
+/**
+ * Ranks dataset entries against a query, best first
+ *
+ * @param query Ticker, cashtag, company name or alias
+ * @param limit Maximum number of matches
+ * @returns Matches with a score of at least 0.6
+ */
+export function searchEntities(query: string, limit = 10): EntityMatch[] {
+  const ticker = normalizeTicker(query);
+  const name = normalizeName(query.replace(/^\$/, ""));
+  if (!ticker) return [];
+
+  const matches: EntityMatch[] = [];
+  for (const record of ENTITIES) {
+    const match = scoreRecord(record, ticker, name);
+    if (match && match.score >= 0.6) {
+      matches.push({ entity: toResolved(record), ...match });
+    }
+  }
+
+  return matches
+    .sort((a, b) => b.score - a.score || a.entity.ticker.length - b.entity.ticker.length)
+    .slice(0, limit);
+}
+
+/**
+ * Finds the dataset entry a query most likely refers to
+ *
+ * @param query Ticker, cashtag, company name or alias
+ * @returns The best match, or null if nothing matches confidently
+ */
+export function findEntity(query: string): EntityMatch | null {
+  const [best] = searchEntities(query, 1);
+  return best && best.score >= MIN_MATCH_SCORE ? best : null;
+}
+
+/**
+ * Resolves a query to an entity. Unknown input resolves to an entity built
+ * from the input, treated as a ticker when it looks like one.
+ *
+ * @param query Ticker, cashtag, company name or alias
+ */
+export function resolveEntity(query: string): ResolvedEntity {
+  const match = findEntity(query);
+  if (match) return match.entity;
+
+  const trimmed = query.trim().replace(/^\$/, "").replace(/\s+/g, " ");
+  const ticker = normalizeTicker(trimmed);
+  // Short single words are taken as tickers even in lowercase ("roku")
+  const tickerLike = TICKER_LIKE.test(ticker) && (trimmed === ticker || trimmed.length <= 5);
+
+  return {
+    ticker: tickerLike ? ticker : trimmed.toUpperCase(),
+    name: tickerLike ? ticker : trimmed,
+    shortName: tickerLike ? ticker : trimmed,
+    exchange: null,
+    irDomain: null,
+    domain: null,
+    aliases: [],
+    context: [],
+    cashtag: tickerLike ? `$${ticker}` : null,
+    known: false
+  };
+}
+
+/**
+ * How prompts refer to an entity, e.g. "Alphabet Inc. (NASDAQ: GOOGL)"
+ */
+export function entityLabel(entity: ResolvedEntity): string {
+  if (!entity.known) return entity.name;
+  return `${entity.name} (${entity.exchange}: ${entity.ticker})`;
+}
+
+/**
+ * Company websites to allow as search sources. Unknown entities fall back to
+ * guessing "<name>.com".
+ */
+export function entityDomains(entity: ResolvedEntity): string[] {
+  if (!entity.known) {
+    const guess = normalizeName(entity.shortName).replace(/\s+/g, "");
+    return guess ? [`${guess}.com`] : [];
+  }
+  return Array.from(new Set([entity.irDomain, entity.domain].filter((domain): domain is string => !!domain)));
+}
+
+/**
+ * Autocomplete suggestions for what the user has typed so far
+ *
+ * @param query Partial ticker, cashtag or company name
+ * @param limit Maximum number of suggestions
+ */
+export function suggestCompanies(query: string, limit = 8): CompanySuggestion[] {
+  return searchEntities(query, limit).map(({ entity, matchedOn }) => ({
+    ticker: entity.ticker,
+    name: entity.name,
+    shortName: entity.shortName,
+    exchange: entity.exchange,
+    matchedOn
+  }));
+}
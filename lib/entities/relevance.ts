@@ -0,0 +1,146 @@
+// lib/entities/relevance.ts
+/**
+ * Scores how likely a piece of text is about an entity, so that posts that
+ * only contain "F", "ON" or "ALL" as ordinary words are not analyzed as
+ * posts about Ford, onsemi or Allstate.
+ *
+ * Signals, added up and capped at 1:
+ * - cashtag ("$F"): 1
+ * - company name or alias ("Ford", "Ford Motor"): 0.8
+ * - bare uppercase ticker ("F"): 0.6, or 0.2 for ambiguous tickers
+ * - ticker used in a trading phrase ("F calls", "bought F"): 0.3
+ * - context terms such as products and executives ("F-150", "Jim Farley"): 0.2 each, up to 0.6
+ *
+ * Context only counts alongside a mention. Text scoring at least
+ * RELEVANCE_THRESHOLD is about the entity; text that mentions it but scores
+ * lower is ambiguous.
+ */
+import { TICKER_LIKE } from "./symbols";
+import type { ResolvedEntity } from "./index";
+
+export interface RelevanceResult {
+  score: number;       // 0-1
+  mentioned: boolean;  // Whether any ticker, cashtag, name or alias appears
+  signals: string[];   // What contributed, e.g. ["cashtag", "context:F-150"]
+}
+
+export const RELEVANCE_THRESHOLD = 0.5;
+
+const WEIGHTS = {
+  cashtag: 1,
+  name: 0.8,
+  ticker: 0.6,
+  ambiguousTicker: 0.2,
+  tradingPhrase: 0.3,
+  context: 0.2
+};
+const MAX_CONTEXT = 0.6;
+
+// Words that are also tickers or company names, matched with extra care
+const COMMON_WORDS = new Set([
+  "all", "now", "on", "it", "ai", "dd", "open", "net", "cat", "cost", "hood",
+  "snap", "arm", "shop", "coin", "spot", "low", "cash", "real", "play", "love",
+  "car", "key", "so", "be", "are", "can", "good", "run", "true", "fast", "well",
+  "eat", "has", "peak", "main", "edit", "life", "team", "box", "one", "big",
+  "fun", "apple", "meta", "visa", "block", "square", "strategy", "unity",
+  "shell", "chase", "coke", "ford", "oracle", "lucid", "novo", "lilly",
+  "chevron", "amazon", "google", "alphabet", "reliance"
+]);
+
+const TRADING_AFTER = "(calls?|puts?|shares|stock|earnings|options|leaps|longs?|shorts?|bagholders?|position)";
+const TRADING_BEFORE = "(buy|buying|bought|sell|selling|sold|short|shorting|long|holding|hold|added|adding)";
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Word-bounded alternation; "$" counts as a boundary so "$F" contains "F"
+const bounded = (terms: string[]) =>
+  terms.map(term => `(?:^|[^\\w])${escapeRegExp(term)}(?![\\w])`).join("|");
+
+// Single-word names that are ordinary words must be capitalized as written
+const isCommonName = (name: string) => !name.includes(" ") && COMMON_WORDS.has(name.toLowerCase());
+
+/**
+ * Whether a ticker is too short or too common to count as a mention on its own
+ */
+export function isAmbiguousTicker(ticker: string): boolean {
+  const symbol = ticker.split(".")[0];
+  return symbol.length <= 2 || COMMON_WORDS.has(symbol.toLowerCase());
+}
+
+/**
+ * Builds a relevance scorer for an entity. Patterns are compiled once, so
+ * build one scorer per collection and reuse it for every post.
+ */
+export function createRelevanceScorer(entity: ResolvedEntity): (text: string) => RelevanceResult {
+  const tickers = Array.from(new Set(
+    [entity.ticker, ...entity.aliases].filter(term => TICKER_LIKE.test(term) && term === term.toUpperCase())
+  ));
+  const names = Array.from(new Set(
+    [entity.shortName, ...entity.aliases].filter(term => !tickers.includes(term))
+  ));
+
+  const caseSensitiveNames = names.filter(isCommonName);
+  const caseInsensitiveNames = names.filter(name => !isCommonName(name));
+
+  const compile = (terms: string[], flags = "") => (terms.length ? new RegExp(bounded(terms), flags) : null);
+  const cashtagPattern = compile(tickers.map(ticker => `$${ticker}`), "i");
+  const strictNamePattern = compile(caseSensitiveNames);
+  const namePattern = compile(caseInsensitiveNames, "i");
+  const tickerPattern = compile(tickers);
+  const contextPatterns = entity.context.map(term => ({
+    term,
+    pattern: new RegExp(bounded([term]), isCommonName(term) ? "" : "i")
+  }));
+
+  const tickerAlternation = tickers.map(escapeRegExp).join("|");
+  const tradingPattern = tickers.length
+    ? new RegExp(
+        `(?:^|[^\\w])\\$?(?:${tickerAlternation})\\s+${TRADING_AFTER}\\b|\\b${TRADING_BEFORE}\\s+(?:some\\s+|more\\s+)?\\$?(?:${tickerAlternation})(?![\\w])`,
+        "i"
+      )
+    : null;
+
+  const ambiguous = isAmbiguousTicker(entity.ticker);
+
+  return text => {
+    const signals: string[] = [];
+    let score = 0;
+
+    if (cashtagPattern?.test(text)) {
+      score += WEIGHTS.cashtag;
+      signals.push("cashtag");
+    }
+    if (strictNamePattern?.test(text) || namePattern?.test(text)) {
+      score += WEIGHTS.name;
+      signals.push("name");
+    }
+    const hasTicker = !!tickerPattern?.test(text);
+    if (hasTicker) {
+      score += ambiguous ? WEIGHTS.ambiguousTicker : WEIGHTS.ticker;
+      signals.push(ambiguous ? "ambiguous-ticker" : "ticker");
+    }
+
+    const mentioned = signals.length > 0;
+    if (!mentioned) return { score: 0, mentioned, signals };
+
+    // Trading phrases need the uppercase ticker or cashtag so "all calls" is not "ALL calls"
+    if ((hasTicker || signals.includes("cashtag")) && tradingPattern?.test(text)) {
+      const match = text.match(tradingPattern)![0];
+      if (tickers.some(ticker => match.includes(ticker))) {
+        score += WEIGHTS.tradingPhrase;
+        signals.push("trading-phrase");
+      }
+    }
+
+    let context = 0;
+    for (const { term, pattern } of contextPatterns) {
+      if (context >= MAX_CONTEXT) break;
+      if (pattern.test(text)) {
+        context += WEIGHTS.context;
+        signals.push(`context:${term}`);
+      }
+    }
+
+    return { score: Math.min(1, score + Math.min(context, MAX_CONTEXT)), mentioned, signals };
+  };
+}
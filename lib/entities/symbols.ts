@@ -0,0 +1,27 @@
+// lib/entities/symbols.ts
+/**
+ * Ticker symbol helpers with no dependency on the company dataset, so client
+ * components can validate symbols without bundling it.
+ */
+
+// US tickers, class shares ("BRK.B") and exchange-suffixed listings ("0700.HK", "005930.KS")
+export const TICKER_LIKE = /^[A-Z0-9]{1,6}([.-][A-Z0-9]{1,4})?$/;
+
+/**
+ * Normalizes a ticker: strips "$", uppercases, and writes share classes with a
+ * dot so "brk-b", "BRK/B" and "$BRK.B" all become "BRK.B"
+ */
+export function normalizeTicker(input: string): string {
+  return input
+    .trim()
+    .replace(/^\$/, "")
+    .toUpperCase()
+    .replace(/^([A-Z]{1,5})[-/ ]([A-Z])$/, "$1.$2");
+}
+
+/**
+ * Whether input is a ticker symbol, after normalizing
+ */
+export function isTickerSymbol(input: string): boolean {
+  return TICKER_LIKE.test(normalizeTicker(input));
+}
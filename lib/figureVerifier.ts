@@ -0,0 +1,191 @@
+// lib/figureVerifier.ts
+/**
+ * Post-processing check that the numbers in generated bullets actually
+ * appear in the Reddit posts the model was given.
+ *
+ * Every number, percentage and dollar figure is extracted from the bullets
+ * and looked up in post titles, selftext (or comment bodies), engagement counts
+ * and any known facts the caller passes, such as the computed sentiment shares:
+ * - verified: the same value appears in the source data
+ * - approximate: a value within APPROXIMATE_TOLERANCE appears
+ * - unsupported: nothing close was found (likely hallucinated or derived)
+ */
+
+export type FigureKind = "percent" | "currency" | "number";
+export type FigureStatus = "verified" | "approximate" | "unsupported";
+
+// A figure found in text
+export interface Figure {
+  text: string;    // Figure as written, e.g. "$36.6B" or "16.3%"
+  value: number;   // Normalized value, with k/M/B/T suffixes applied
+  kind: FigureKind;
+}
+
+// A figure from a bullet with its verification result
+export interface FigureCheck extends Figure {
+  bullet: number;     // Index of the bullet the figure appears in
+  status: FigureStatus;
+  evidence?: string;  // Where the matching value was found
+}
+
+export interface VerificationReport {
+  figures: FigureCheck[];
+  counts: Record<FigureStatus, number>;
+}
+
+// The parts of a Reddit post the verifier searches
+export interface VerificationSource {
+  title: string;
+  selftext: string;
+  score: number;
+  num_comments: number;
+  subreddit: string;
+}
+
+// Relative difference still treated as the same figure (rounding, "~1,200 upvotes")
+const APPROXIMATE_TOLERANCE = 0.05;
+
+const FIGURE_PATTERN =
+  /(?<![\w.$])(\$)?(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?(?:\s?(%|percent\b|[kKmMbBtT]\b|thousand\b|million\b|billion\b|trillion\b))?(?!\w)/g;
+
+// Rest of a percentage range after its first bound, as in "44-60%"
+const PERCENT_RANGE_REST = /^\s?[-–]\s?\d+(?:\.\d+)?\s?%/;
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3, thousand: 1e3,
+  m: 1e6, million: 1e6,
+  b: 1e9, billion: 1e9,
+  t: 1e12, trillion: 1e12
+};
+
+// Same marker stripping the stream parser applies, so bullet indexes line up
+const BULLET_MARKER = /^[-•*\d.\s)]+\s*/;
+const MARKDOWN_LINK = /\[[^\]]+\]\([^)]+\)/g;
+const FOOTNOTE_MARKER = /\[\d{1,2}\](?!\()/g;
+
+/**
+ * Extracts numbers, percentages and dollar figures from text
+ */
+export function extractFigures(text: string): Figure[] {
+  const figures: Figure[] = [];
+
+  for (const match of text.matchAll(FIGURE_PATTERN)) {
+    const [raw, dollar, whole, fraction = "", suffix] = match;
+    const unit = suffix?.toLowerCase();
+    const base = Number(whole.replace(/,/g, "") + fraction);
+    if (!Number.isFinite(base)) continue;
+
+    const isPercent =
+      unit === "%" || unit === "percent" ||
+      (!unit && !dollar && PERCENT_RANGE_REST.test(text.slice((match.index ?? 0) + raw.length)));
+    figures.push({
+      text: raw.trim(),
+      value: !isPercent && unit ? base * MULTIPLIERS[unit] : base,
+      kind: isPercent ? "percent" : dollar ? "currency" : "number"
+    });
+  }
+
+  return figures;
+}
+
+/**
+ * Splits generated content into bullets the same way the narrative stream hook does.
+ * Markdown links and "[n]" footnote markers are removed so their digits are not
+ * mistaken for figures.
+ */
+export function splitBullets(content: string): string[] {
+  return content
+    .split(/\r?\n/)
+    .map(line => line.trim().replace(BULLET_MARKER, "").trim())
+    .filter(line => line.length > 0)
+    .map(line => line.replace(MARKDOWN_LINK, "").replace(FOOTNOTE_MARKER, ""));
+}
+
+// Percentages only match percentages; amounts are often written without "$"
+const compatible = (a: FigureKind, b: FigureKind) =>
+  a === b || (a !== "percent" && b !== "percent");
+
+interface Candidate extends Figure {
+  evidence: string;
+}
+
+// A known value outside the posts; plain numbers are counts
+export type KnownFact = number | { value: number; kind: FigureKind };
+
+function buildCandidates(sources: VerificationSource[], extra: Candidate[]): Candidate[] {
+  const candidates = [...extra];
+
+  for (const source of sources) {
+    const label = `"${source.title.slice(0, 60)}${source.title.length > 60 ? "..." : ""}" (r/${source.subreddit})`;
+
+    for (const figure of extractFigures(`${source.title}\n${source.selftext}`)) {
+      candidates.push({ ...figure, evidence: `Post ${label}` });
+    }
+    candidates.push(
+      { text: String(source.score), value: source.score, kind: "number", evidence: `Upvotes on ${label}` },
+      { text: String(source.num_comments), value: source.num_comments, kind: "number", evidence: `Comments on ${label}` }
+    );
+  }
+
+  return candidates;
+}
+
+function checkFigure(figure: Figure, candidates: Candidate[]): Pick<FigureCheck, "status" | "evidence"> {
+  let closest: { candidate: Candidate; diff: number } | null = null;
+
+  for (const candidate of candidates) {
+    if (!compatible(figure.kind, candidate.kind)) continue;
+
+    // Relative difference; tiny values come from float error in suffix scaling
+    const diff = Math.abs(candidate.value - figure.value) / Math.max(Math.abs(figure.value), 1e-9);
+    if (diff < 1e-9) {
+      return { status: "verified", evidence: candidate.evidence };
+    }
+
+    if (!closest || diff < closest.diff) closest = { candidate, diff };
+  }
+
+  if (closest && closest.diff <= APPROXIMATE_TOLERANCE) {
+    return { status: "approximate", evidence: `${closest.candidate.evidence}: ${closest.candidate.text}` };
+  }
+
+  return { status: "unsupported" };
+}
+
+/**
+ * Verifies every figure in the generated bullets against the source posts
+ *
+ * @param bullets Bullet texts, as split by splitBullets
+ * @param sources Posts exactly as they were sent to the model
+ * @param facts Extra known values, e.g. { "posts analyzed": 112, "bullish share": { value: 52, kind: "percent" } }
+ * @returns Per-figure results and totals by status
+ */
+export function verifyFigures(
+  bullets: string[],
+  sources: VerificationSource[],
+  facts: Record<string, KnownFact> = {}
+): VerificationReport {
+  const extra = Object.entries(facts).map(([label, fact]) => {
+    const { value, kind } = typeof fact === "number" ? { value: fact, kind: "number" as const } : fact;
+    return {
+      text: kind === "percent" ? `${value}%` : String(value),
+      value,
+      kind,
+      evidence: kind === "percent" ? `Computed ${label}` : `Total ${label}`
+    };
+  });
+  const candidates = buildCandidates(sources, extra);
+
+  const figures: FigureCheck[] = bullets.flatMap((text, bullet) =>
+    extractFigures(text).map(figure => ({
+      ...figure,
+      bullet,
+      ...checkFigure(figure, candidates)
+    }))
+  );
+
+  const counts: Record<FigureStatus, number> = { verified: 0, approximate: 0, unsupported: 0 };
+  for (const figure of figures) counts[figure.status]++;
+
+  return { figures, counts };
+}
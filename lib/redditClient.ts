@@ -2,6 +2,11 @@
  * Enhanced Reddit API client for comprehensive sentiment analysis
  * Gathers data from multiple stock-related subreddits
  */
+import { createCassetteFetch, type FetchLike } from './cassette';
+import { RedditRequestScheduler, type RedditSchedulerOptions } from './redditScheduler';
+import { resolveEntity, type ResolvedEntity } from './entities';
+import { createRelevanceScorer, isAmbiguousTicker, RELEVANCE_THRESHOLD, type RelevanceResult } from './entities/relevance';
+import { scoreSentiment, describeToken, aggregateSentiment, DEFAULT_AGGREGATION, type AggregationStrategy, type SentimentBreakdown } from './sentiment';
 
 interface RedditPost {
     title: string;
@@ -13,6 +18,7 @@ interface RedditPost {
     subreddit: string;
     created_utc: number;
     comments?: RedditComment[];
+    relevance?: number;  // How clearly the post is about the company (0-1)
 }
 
 interface RedditComment {
@@ -28,22 +34,54 @@ interface SentimentData {
     neutralPosts: RedditPost[];
     keyThemes: string[];
     sources: string[];
+    ambiguousDiscarded?: number;  // Posts that mentioned the ticker but were rejected as not about the company
 }
 
-interface ThemePattern {
-    pattern: RegExp;
-    theme: string;
+// Progress of a gatherCompanyData run, reported after each search
+interface CollectionProgress {
+    completed: number;                  // Searches finished, including failures
+    total: number;                      // Searches planned
+    failed: number;
+    postsFound: number;                 // Matching posts so far, including duplicates
+    uniquePosts: number;                // Matching posts after deduplication
+    duplicates: number;                 // Posts returned by more than one search
+    ambiguous: number;                  // Posts discarded as ambiguous (e.g. "F" used as a word)
+    subredditsCovered: number;          // Distinct subreddits searched successfully so far
+    subredditsTotal: number;
+    query?: string;                     // The search that just finished
+    subreddit?: string;
+    rateLimitRemaining: number | null;  // Reddit requests left in the current window
+    cached?: boolean;                   // Reported in one step from a cached collection
+}
+
+// Budget for pulling top comments into a collection
+interface CommentOptions {
+    posts: number;     // Highest-engagement posts to fetch comments for (one request each)
+    perPost?: number;  // Top comments kept per post
 }
 
-interface ReasonPattern {
+// Posts kept by one search, and permalinks of posts rejected as ambiguous
+interface SearchResult {
+    posts: RedditPost[];
+    ambiguous: string[];
+}
+
+interface GatherOptions {
+    onProgress?: (progress: CollectionProgress) => void;
+    comments?: CommentOptions;  // Omit to skip comments
+    windowDays?: number;        // Only keep posts from this many days back (default 90)
+}
+
+interface ThemePattern {
     pattern: RegExp;
-    reason: string;
-    type: string;
+    theme: string;
 }
 
 class RedditClient {
     private clientId: string;
     private clientSecret: string;
+    private fetchImpl: FetchLike;
+    readonly scheduler: RedditRequestScheduler;
     private accessToken: string | null = null;
     private tokenExpiry: number = 0;
 
@@ -70,9 +108,16 @@ class RedditClient {
         'EuropeInvesting'
     ];
 
-    constructor(clientId: string, clientSecret: string) {
+    constructor(
+        clientId: string,
+        clientSecret: string,
+        fetchImpl: FetchLike = (url, init) => fetch(url, init),
+        schedulerOptions: RedditSchedulerOptions = {}
+    ) {
         this.clientId = clientId;
         this.clientSecret = clientSecret;
+        this.fetchImpl = fetchImpl;
+        this.scheduler = new RedditRequestScheduler(fetchImpl, schedulerOptions);
     }
 
     /**
@@ -85,7 +130,7 @@ class RedditClient {
 
         const auth = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64');
 
-        const response = await fetch('https://www.reddit.com/api/v1/access_token', {
+        const response = await this.fetchImpl('https://www.reddit.com/api/v1/access_token', {
             method: 'POST',
             headers: {
                 'Authorization': `Basic ${auth}`,
@@ -107,107 +152,237 @@ class RedditClient {
     }
 
     /**
-     * Enhanced gatherCompanyData with better search and limit handling
+     * Enhanced gatherCompanyData with better search and limit handling.
+     * Searches run concurrently through the request scheduler.
+     *
+     * @param company Resolved entity, or a name or ticker to resolve
      */
-    async gatherCompanyData(company: string): Promise<SentimentData> {
+    async gatherCompanyData(company: string | ResolvedEntity, options: GatherOptions = {}): Promise<SentimentData> {
+        const entity = typeof company === 'string' ? resolveEntity(company) : company;
+        const scoreRelevance = createRelevanceScorer(entity);
+        const windowDays = options.windowDays ?? 90;
         const token = await this.getAccessToken();
-        const allPosts: RedditPost[] = [];
+
+        // Short or common-word tickers ("F", "ALL") are searched by cashtag instead
+        const tickerQuery = isAmbiguousTicker(entity.ticker) ? entity.cashtag ?? entity.ticker : entity.ticker;
 
         // Multiple search strategies for comprehensive coverage
         const searchStrategies = [
-            // Direct company mentions
-            { query: company, subreddits: this.STOCK_SUBREDDITS.slice(0, 5) },
-            // Ticker symbol search (assumes company is ticker)
-            { query: `${company}`, subreddits: this.STOCK_SUBREDDITS.slice(0, 5) },
+            // Ticker symbol search
+            { query: tickerQuery, subreddits: this.STOCK_SUBREDDITS.slice(0, 5) },
+            // Company name, or the cashtag when the name is just the ticker
+            { query: entity.shortName !== entity.ticker ? entity.shortName : entity.cashtag ?? entity.ticker, subreddits: this.STOCK_SUBREDDITS.slice(0, 5) },
             // Quoted search
-            { query: `"${company}"`, subreddits: this.STOCK_SUBREDDITS.slice(5, 10) },
+            { query: `"${entity.shortName}"`, subreddits: this.STOCK_SUBREDDITS.slice(5, 10) },
             // Discussion focused
-            { query: `${company} DD`, subreddits: ['stocks', 'wallstreetbets', 'investing'] },
-            { query: `${company} analysis`, subreddits: ['SecurityAnalysis', 'valueinvesting'] },
+            { query: `${tickerQuery} DD`, subreddits: ['stocks', 'wallstreetbets', 'investing'] },
+            { query: `${entity.shortName} analysis`, subreddits: ['SecurityAnalysis', 'valueinvesting'] },
             // Sentiment focused
-            { query: `${company} bullish`, subreddits: ['wallstreetbets', 'options'] },
-            { query: `${company} bearish`, subreddits: ['stocks', 'investing'] }
+            { query: `${tickerQuery} bullish`, subreddits: ['wallstreetbets', 'options'] },
+            { query: `${tickerQuery} bearish`, subreddits: ['stocks', 'investing'] }
         ];
 
+        const searches = searchStrategies.flatMap(({ query, subreddits }) =>
+            subreddits.map(subreddit => ({ query, subreddit }))
+        );
+
+        // Results are kept in search order, and the remaining searches are only cancelled once the
+        // finished searches at the front of that order hold 200 posts, so the cap picks the same
+        // posts as a sequential run whatever order the searches finish in
+        const results: RedditPost[][] = searches.map(() => []);
+        const finished: boolean[] = searches.map(() => false);
+        const allSubreddits = new Set(searches.map(search => search.subreddit));
+        const searchedSubreddits = new Set<string>();
+        const seenPermalinks = new Set<string>();
+        const ambiguousPermalinks = new Set<string>();
+        let postsFound = 0;
+        let completed = 0;
+        let failed = 0;
+
+        // Cancels the remaining searches once enough posts are found
+        const enough = new AbortController();
+        const checkEnough = () => {
+            let prefixPosts = 0;
+            for (let i = 0; i < searches.length && finished[i]; i++) {
+                prefixPosts += results[i].length;
+                if (prefixPosts >= 200) {
+                    enough.abort();
+                    return;
+                }
+            }
+        };
+
         // Execute searches with better error handling
-        for (const { query, subreddits } of searchStrategies) {
-            for (const subreddit of subreddits) {
-                try {
-                    const response = await fetch(
-                        `https://oauth.reddit.com/r/${subreddit}/search.json?q=${encodeURIComponent(query)}&restrict_sr=true&sort=relevance&t=year&limit=100`,
-                        {
-                            headers: {
-                                'Authorization': `Bearer ${token}`,
-                                'User-Agent': 'NarrativeCheck/1.0'
-                            }
-                        }
-                    );
-
-                    if (response.ok) {
-                        const data = await response.json();
-                        const posts = data.data.children
-                            .filter((child: any) => {
-                                const title = child.data.title.toLowerCase();
-                                const text = child.data.selftext.toLowerCase();
-                                const companyLower = company.toLowerCase();
-
-                                // Must mention company specifically
-                                const hasCompanyMention = title.includes(companyLower) ||
-                                                        text.includes(companyLower) ||
-                                                        title.includes(`${companyLower}`) ||
-                                                        text.includes(`${companyLower}`);
-
-                                // Exclude generic threads
-                                const isGeneric = title.includes('daily discussion') ||
-                                                title.includes('weekend discussion') ||
-                                                title.includes('what are your moves') ||
-                                                title.includes('weekly thread') ||
-                                                title.includes('rate my portfolio');
-
-                                // Minimum engagement
-                                const hasEngagement = child.data.score >= 5 || child.data.num_comments >= 3;
-
-                                // Filter for posts within 90 days
-                                const ninetyDaysAgo = Date.now() / 1000 - (90 * 24 * 60 * 60);
-                                const isRecent = child.data.created_utc >= ninetyDaysAgo;
-
-                                return hasCompanyMention && !isGeneric && hasEngagement && isRecent;
-                            })
-                            .map((child: any) => ({
-                                title: child.data.title,
-                                selftext: child.data.selftext,
-                                url: child.data.url,
-                                permalink: `https://reddit.com${child.data.permalink}`,
-                                score: child.data.score,
-                                num_comments: child.data.num_comments,
-                                subreddit: child.data.subreddit,
-                                created_utc: child.data.created_utc
-                            }));
-
-                        allPosts.push(...posts);
-
-                        // Stop if we have enough posts
-                        if (allPosts.length >= 200) break;
-                    }
-                } catch (error) {
+        await Promise.all(searches.map(async ({ query, subreddit }, i) => {
+            try {
+                const result = await this.searchSubreddit(token, scoreRelevance, query, subreddit, windowDays, enough.signal);
+                results[i] = result.posts;
+                postsFound += result.posts.length;
+                result.posts.forEach(post => seenPermalinks.add(post.permalink));
+                result.ambiguous.forEach(permalink => ambiguousPermalinks.add(permalink));
+                searchedSubreddits.add(subreddit);
+            } catch (error) {
+                // Searches cancelled once enough posts were found count as completed
+                if (!enough.signal.aborted) {
+                    failed++;
                     console.error(`Error searching r/${subreddit} for "${query}":`, error);
                 }
             }
 
-            // Stop if we have enough posts
+            // Stop if we have enough posts; a failed search adds none, as in a sequential run
+            finished[i] = true;
+            checkEnough();
+
+            completed++;
+            options.onProgress?.({
+                completed,
+                total: searches.length,
+                failed,
+                postsFound,
+                uniquePosts: seenPermalinks.size,
+                duplicates: postsFound - seenPermalinks.size,
+                ambiguous: ambiguousPermalinks.size,
+                subredditsCovered: searchedSubreddits.size,
+                subredditsTotal: allSubreddits.size,
+                query,
+                subreddit,
+                rateLimitRemaining: this.scheduler.getRateLimit().remaining
+            });
+        }));
+
+        const allPosts: RedditPost[] = [];
+        for (const posts of results) {
             if (allPosts.length >= 200) break;
+            allPosts.push(...posts);
         }
 
         // Deduplicate and sort
         const uniquePosts = this.deduplicatePosts(allPosts);
         const sortedPosts = uniquePosts.sort((a, b) => (b.score + b.num_comments) - (a.score + a.num_comments));
 
-        console.log(`Found ${sortedPosts.length} unique posts for ${company}`);
+        console.log(`Found ${sortedPosts.length} unique posts for ${entity.ticker} (${completed} searches, ${failed} failed, ${ambiguousPermalinks.size} ambiguous discarded)`);
 
         // Take top posts for analysis
         const topPosts = sortedPosts.slice(0, 150);
 
-        return this.analyzeSentiment(topPosts, company);
+        // Pull top comments for the most engaged posts; link posts have no selftext otherwise
+        if (options.comments && options.comments.posts > 0) {
+            await this.attachComments(topPosts, options.comments);
+        }
+
+        return { ...this.analyzeSentiment(topPosts), ambiguousDiscarded: ambiguousPermalinks.size };
+    }
+
+    /**
+     * Fetch top comments for the highest-engagement posts, within the comment budget.
+     * Posts must already be sorted by engagement.
+     */
+    private async attachComments(posts: RedditPost[], { posts: budget, perPost = 5 }: CommentOptions): Promise<void> {
+        const targets = posts
+            .filter(post => post.num_comments > 0 && this.postIdOf(post.permalink))
+            .slice(0, budget);
+
+        await Promise.all(targets.map(async post => {
+            post.comments = await this.getComments(this.postIdOf(post.permalink)!, perPost);
+        }));
+
+        const fetched = targets.reduce((sum, post) => sum + (post.comments?.length ?? 0), 0);
+        console.log(`Fetched ${fetched} comments from ${targets.length} posts`);
+    }
+
+    /**
+     * Extract the post id from a permalink like https://reddit.com/r/stocks/comments/abc123/title/
+     */
+    private postIdOf(permalink: string): string | null {
+        return permalink.match(/\/comments\/([a-z0-9]+)/i)?.[1] ?? null;
+    }
+
+    /**
+     * Post text used for scoring: title, selftext and any fetched comments
+     */
+    private postText(post: RedditPost): string {
+        const comments = post.comments?.map(comment => comment.body).join(' ') ?? '';
+        return `${post.title} ${post.selftext} ${comments}`;
+    }
+
+    /**
+     * Run one search and keep recent, engaged posts that are about the company.
+     * Posts that mention it but score below the relevance threshold are reported as ambiguous.
+     */
+    private async searchSubreddit(
+        token: string,
+        scoreRelevance: (text: string) => RelevanceResult,
+        query: string,
+        subreddit: string,
+        windowDays: number,
+        signal?: AbortSignal
+    ): Promise<SearchResult> {
+        // Reddit's search only narrows to a month or a year; the window is applied below
+        const timeRange = windowDays <= 30 ? 'month' : 'year';
+
+        const response = await this.scheduler.fetch(
+            `https://oauth.reddit.com/r/${subreddit}/search.json?q=${encodeURIComponent(query)}&restrict_sr=true&sort=relevance&t=${timeRange}&limit=100`,
+            {
+                headers: {
+                    'Authorization': `Bearer ${token}`,
+                    'User-Agent': 'NarrativeCheck/1.0'
+                },
+                signal
+            },
+            `r/${subreddit} "${query}"`
+        );
+
+        if (!response.ok) {
+            throw new Error(`Reddit search failed: ${response.status}`);
+        }
+
+        const data = await response.json();
+        const result: SearchResult = { posts: [], ambiguous: [] };
+
+        data.data.children
+            .filter((child: any) => {
+                const title = child.data.title.toLowerCase();
+
+                // Exclude generic threads
+                const isGeneric = title.includes('daily discussion') ||
+                                title.includes('weekend discussion') ||
+                                title.includes('what are your moves') ||
+                                title.includes('weekly thread') ||
+                                title.includes('rate my portfolio');
+
+                // Minimum engagement
+                const hasEngagement = child.data.score >= 5 || child.data.num_comments >= 3;
+
+                // Filter for posts within the window
+                const windowStart = Date.now() / 1000 - (windowDays * 24 * 60 * 60);
+                const isRecent = child.data.created_utc >= windowStart;
+
+                return !isGeneric && hasEngagement && isRecent;
+            })
+            .forEach((child: any) => {
+                const permalink = `https://reddit.com${child.data.permalink}`;
+
+                // Must be about the company: cashtag, name, or a ticker backed by context
+                const relevance = scoreRelevance(`${child.data.title}\n${child.data.selftext}`);
+                if (relevance.score < RELEVANCE_THRESHOLD) {
+                    if (relevance.mentioned) result.ambiguous.push(permalink);
+                    return;
+                }
+
+                result.posts.push({
+                    title: child.data.title,
+                    selftext: child.data.selftext,
+                    url: child.data.url,
+                    permalink,
+                    score: child.data.score,
+                    num_comments: child.data.num_comments,
+                    subreddit: child.data.subreddit,
+                    created_utc: child.data.created_utc,
+                    relevance: relevance.score
+                });
+            });
+
+        return result;
     }
 
     /**
@@ -226,7 +401,7 @@ class RedditClient {
     /**
      * Enhanced analyzeSentiment with more detailed scoring
      */
-    private analyzeSentiment(posts: RedditPost[], company: string): SentimentData {
+    private analyzeSentiment(posts: RedditPost[]): SentimentData {
         const bullishPosts: RedditPost[] = [];
         const bearishPosts: RedditPost[] = [];
         const neutralPosts: RedditPost[] = [];
@@ -235,7 +410,7 @@ class RedditClient {
 
         // Enhanced sentiment analysis
         posts.forEach(post => {
-            const sentiment = this.analyzePostSentiment(post, company);
+            const sentiment = this.analyzePostSentiment(post);
 
             if (sentiment.score > 1) {
                 bullishPosts.push(post);
@@ -246,7 +421,7 @@ class RedditClient {
             }
 
             // Extract themes with context
-            this.extractDetailedThemes(`${post.title} ${post.selftext}`, themes);
+            this.extractDetailedThemes(this.postText(post), themes);
             sources.push(post.permalink);
         });
 
@@ -271,72 +446,12 @@ class RedditClient {
     }
 
     /**
-     * Enhanced sentiment analysis for individual posts
+     * Sentiment of an individual post from the lexicon scorer, with the terms behind it
+     * ("not bullish" counts against, "slight dip" counts less than "collapse")
      */
-    private analyzePostSentiment(post: RedditPost, company: string): { score: number; reasons: string[] } {
-        const text = `${post.title} ${post.selftext}`.toLowerCase();
-        let score = 0;
-        const reasons: string[] = [];
-
-        // Enhanced sentiment patterns with context
-        const sentimentPatterns = [
-            // Strong bullish with context
-            { pattern: /strong\s*buy/i, score: 3, reason: 'strong buy signal' },
-            { pattern: /calls?\s*on\s*\$?\w+/i, score: 2, reason: 'call options' },
-            { pattern: /loading\s*up/i, score: 2, reason: 'accumulation' },
-            { pattern: /undervalued/i, score: 2, reason: 'undervaluation' },
-            { pattern: /buy\s*the\s*dip/i, score: 2, reason: 'dip buying' },
-            { pattern: /to\s*the\s*moon/i, score: 2, reason: 'extreme bullishness' },
-            { pattern: /earnings\s*beat/i, score: 2, reason: 'earnings beat' },
-            { pattern: /raised\s*guidance/i, score: 2, reason: 'raised guidance' },
-
-            // Moderate bullish
-            { pattern: /\bbuy\b/i, score: 1, reason: 'buy recommendation' },
-            { pattern: /\blong\b/i, score: 1, reason: 'long position' },
-            { pattern: /bullish/i, score: 1, reason: 'bullish sentiment' },
-            { pattern: /upside/i, score: 1, reason: 'upside potential' },
-            { pattern: /growth/i, score: 1, reason: 'growth prospects' },
-
-            // Strong bearish
-            { pattern: /strong\s*sell/i, score: -3, reason: 'strong sell signal' },
-            { pattern: /puts?\s*on\s*\$?\w+/i, score: -2, reason: 'put options' },
-            { pattern: /overvalued/i, score: -2, reason: 'overvaluation' },
-            { pattern: /stay\s*away/i, score: -2, reason: 'avoid recommendation' },
-            { pattern: /bubble/i, score: -2, reason: 'bubble concerns' },
-            { pattern: /earnings\s*miss/i, score: -2, reason: 'earnings miss' },
-            { pattern: /lowered\s*guidance/i, score: -2, reason: 'lowered guidance' },
-
-            // Moderate bearish
-            { pattern: /\bsell\b/i, score: -1, reason: 'sell recommendation' },
-            { pattern: /\bshort\b/i, score: -1, reason: 'short position' },
-            { pattern: /bearish/i, score: -1, reason: 'bearish sentiment' },
-            { pattern: /downside/i, score: -1, reason: 'downside risk' },
-            { pattern: /declining/i, score: -1, reason: 'declining metrics' }
-        ];
-
-        // Apply patterns
-        sentimentPatterns.forEach(({ pattern, score: patternScore, reason }) => {
-            if (pattern.test(text)) {
-                score += patternScore;
-                reasons.push(reason);
-            }
-        });
-
-        // Check for specific metrics that add weight
-        const metricPatterns = [
-            { pattern: /\d+%\s*growth/i, score: 1, reason: 'growth metrics' },
-            { pattern: /\d+%\s*decline/i, score: -1, reason: 'decline metrics' },
-            { pattern: /p\/e\s*(?:ratio\s*)?(?:of\s*)?\d+/i, score: 0, reason: 'valuation discussion' }
-        ];
-
-        metricPatterns.forEach(({ pattern, score: metricScore, reason }) => {
-            if (pattern.test(text)) {
-                score += metricScore;
-                reasons.push(reason);
-            }
-        });
-
-        return { score, reasons };
+    private analyzePostSentiment(post: RedditPost): { score: number; reasons: string[] } {
+        const { score, tokens } = scoreSentiment(this.postText(post));
+        return { score, reasons: tokens.map(describeToken) };
     }
 
     /**
@@ -528,7 +643,7 @@ class RedditClient {
      */
     private generateSpecificTopicBullet(data: SentimentData, company: string): string {
         // Find the most discussed topic with specific mentions
-        const topicData = this.extractTopicWithDetails(data, company);
+        const topicData = this.extractTopicWithDetails(data);
 
         if (!topicData.topic) {
             return `• Primary discussion theme unclear across varied ${company} posts`;
@@ -540,7 +655,7 @@ class RedditClient {
     /**
      * Extract topic with specific details
      */
-    private extractTopicWithDetails(sentimentData: SentimentData, company: string): {
+    private extractTopicWithDetails(sentimentData: SentimentData): {
         topic: string;
         specificDetail: string;
         sentiment: string;
@@ -733,7 +848,7 @@ class RedditClient {
         if (optionInsight) return optionInsight;
 
         // 2. Comparison to competitors
-        const comparisonInsight = this.extractComparisonInsight(data, company);
+        const comparisonInsight = this.extractComparisonInsight(data);
         if (comparisonInsight) return comparisonInsight;
 
         // 3. Technical analysis mentions
@@ -799,7 +914,7 @@ class RedditClient {
     /**
      * Extract comparison insight
      */
-    private extractComparisonInsight(data: SentimentData, company: string): string {
+    private extractComparisonInsight(data: SentimentData): string {
         const allPosts = [...data.bullishPosts, ...data.bearishPosts, ...data.neutralPosts];
         const comparisons = new Map<string, { count: number; context: string }>();
 
@@ -979,64 +1094,72 @@ class RedditClient {
      */
     formatForNarrative(posts: RedditPost[], company: string): string[] {
         return posts.slice(0, 5).map(post => {
-            const sentiment = this.analyzePostSentiment(post, company);
+            const sentiment = this.analyzePostSentiment(post);
             const sentimentLabel = sentiment.score > 1 ? 'Bullish' : sentiment.score < -1 ? 'Bearish' : 'Neutral';
             const engagement = `${post.score} upvotes, ${post.num_comments} comments`;
 
-            // Extract key opinion
+            // Extract key opinion, linking to the comment it was quoted from
             const opinion = this.extractKeyOpinion(post, company);
 
-            return `• ${sentimentLabel} on r/${post.subreddit} (${engagement}) - ${opinion} [Source](${post.permalink})`;
+            return `• ${sentimentLabel} on r/${post.subreddit} (${engagement}) - ${opinion.text} [Source](${opinion.permalink})`;
         });
     }
 
     /**
-     * Extract key opinion from post
+     * Extract key opinion from a post, then from its comments, with the permalink it came from
      */
-    private extractKeyOpinion(post: RedditPost, company: string): string {
-        const text = `${post.title} ${post.selftext}`;
-        const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 20);
+    private extractKeyOpinion(post: RedditPost, company: string): { text: string; permalink: string } {
+        const candidates = [
+            { text: `${post.title} ${post.selftext}`, permalink: post.permalink },
+            ...(post.comments ?? []).map(comment => ({ text: comment.body, permalink: comment.permalink }))
+        ];
         const companyLower = company.toLowerCase();
-
-        // Look for sentences with opinions and data
-        for (const sentence of sentences) {
-            const sentLower = sentence.toLowerCase();
-
-            // Check if sentence contains company and opinion indicators
-            if (sentLower.includes(companyLower)) {
-                // Look for specific data points
-                const dataMatch = sentence.match(/\d+%|\$\d+[BM]?|\d+x/);
-                if (dataMatch) {
-                    return sentence.trim().slice(0, 150) + (sentence.length > 150 ? '...' : '');
-                }
-
-                // Look for opinion indicators
-                const opinionIndicators = ['because', 'due to', 'expect', 'believe', 'shows', 'indicates'];
-                if (opinionIndicators.some(indicator => sentLower.includes(indicator))) {
-                    return sentence.trim().slice(0, 150) + (sentence.length > 150 ? '...' : '');
+        const opinionIndicators = ['because', 'due to', 'expect', 'believe', 'shows', 'indicates'];
+
+        for (const { text, permalink } of candidates) {
+            const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 20);
+
+            // Look for sentences with opinions and data
+            for (const sentence of sentences) {
+                const sentLower = sentence.toLowerCase();
+
+                // Check if sentence contains company and opinion indicators
+                if (sentLower.includes(companyLower)) {
+                    // Look for specific data points, then opinion indicators
+                    const dataMatch = sentence.match(/\d+%|\$\d+[BM]?|\d+x/);
+                    if (dataMatch || opinionIndicators.some(indicator => sentLower.includes(indicator))) {
+                        return {
+                            text: sentence.trim().slice(0, 150) + (sentence.length > 150 ? '...' : ''),
+                            permalink
+                        };
+                    }
                 }
             }
         }
 
         // Fallback to title
-        return post.title.length > 100 ? post.title.slice(0, 100) + '...' : post.title;
+        return {
+            text: post.title.length > 100 ? post.title.slice(0, 100) + '...' : post.title,
+            permalink: post.permalink
+        };
     }
 
     /**
      * Get top comments from a post
      */
-    async getComments(postId: string): Promise<RedditComment[]> {
+    async getComments(postId: string, limit: number = 5): Promise<RedditComment[]> {
         try {
             const token = await this.getAccessToken();
 
-            const response = await fetch(
-                `https://oauth.reddit.com/comments/${postId}.json?sort=best&limit=10`,
+            const response = await this.scheduler.fetch(
+                `https://oauth.reddit.com/comments/${postId}.json?sort=best&limit=${Math.max(10, limit * 2)}`,
                 {
                     headers: {
                         'Authorization': `Bearer ${token}`,
                         'User-Agent': 'NarrativeCheck/1.0'
                     }
-                }
+                },
+                `comments ${postId}`
             );
 
             if (!response.ok) {
@@ -1052,7 +1175,11 @@ class RedditClient {
             }
 
             const comments = data[1].data.children
-                .filter((child: any) => child.kind === 't1' && child.data.score > 0)
+                .filter((child: any) =>
+                    child.kind === 't1' &&
+                    child.data.score > 0 &&
+                    !['[deleted]', '[removed]'].includes(child.data.body)
+                )
                 .map((child: any) => ({
                     body: child.data.body,
                     score: child.data.score,
@@ -1060,7 +1187,7 @@ class RedditClient {
                     created_utc: child.data.created_utc
                 }))
                 .sort((a: RedditComment, b: RedditComment) => b.score - a.score)
-                .slice(0, 5);
+                .slice(0, limit);
 
             return comments;
         } catch (error) {
@@ -1138,12 +1265,14 @@ class RedditClient {
 
     /**
      * Get retail investor metrics
+     *
+     * @param strategy How posts are weighted in the sentiment breakdown (see lib/sentiment/aggregate.ts)
      */
-    async getRetailMetrics(company: string): Promise<{
+    async getRetailMetrics(company: string, strategy: AggregationStrategy = DEFAULT_AGGREGATION): Promise<{
         totalPosts: number;
         totalEngagement: number;
         averageScore: number;
-        sentimentBreakdown: { bullish: number; bearish: number; neutral: number };
+        sentimentBreakdown: SentimentBreakdown;
         topSubreddits: string[];
         weeklyTrend: string;
     }> {
@@ -1154,11 +1283,7 @@ class RedditClient {
         const totalEngagement = allPosts.reduce((sum, post) => sum + post.score + post.num_comments, 0);
         const averageScore = totalPosts > 0 ? Math.round(totalEngagement / totalPosts) : 0;
 
-        const sentimentBreakdown = {
-            bullish: Math.round((data.bullishPosts.length / totalPosts) * 100) || 0,
-            bearish: Math.round((data.bearishPosts.length / totalPosts) * 100) || 0,
-            neutral: Math.round((data.neutralPosts.length / totalPosts) * 100) || 0
-        };
+        const sentimentBreakdown = this.sentimentBreakdown(data, strategy);
 
         // Get top subreddits
         const subredditCounts = new Map<string, number>();
@@ -1184,6 +1309,16 @@ class RedditClient {
         };
     }
 
+    /**
+     * Bullish/bearish/neutral percentages of a collection, weighted by the given strategy
+     */
+    sentimentBreakdown(data: SentimentData, strategy: AggregationStrategy = DEFAULT_AGGREGATION): SentimentBreakdown {
+        return aggregateSentiment(
+            { bullish: data.bullishPosts, bearish: data.bearishPosts, neutral: data.neutralPosts },
+            strategy
+        );
+    }
+
     /**
      * Calculate weekly trend
      */
@@ -1211,12 +1346,13 @@ class RedditClient {
 // Create singleton instance
 const redditClient = new RedditClient(
     process.env.REDDIT_CLIENT_ID || '',
-    process.env.REDDIT_CLIENT_SECRET || ''
+    process.env.REDDIT_CLIENT_SECRET || '',
+    createCassetteFetch('reddit')
 );
 
 // Export the class, instance, and types
 export { RedditClient, redditClient };
-export type { RedditPost, RedditComment, SentimentData };
+export type { RedditPost, RedditComment, SentimentData, CollectionProgress, GatherOptions, CommentOptions };
 
 // Example usage:
 /*
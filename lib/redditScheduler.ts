@@ -0,0 +1,237 @@
+/**
+ * Request scheduler for the Reddit API
+ * Runs requests with bounded concurrency, honors Reddit's X-Ratelimit-*
+ * headers and retries throttled or failed requests with backoff
+ */
+import type { FetchLike } from './cassette';
+
+interface RedditSchedulerOptions {
+    concurrency?: number;   // Requests in flight at once
+    maxRetries?: number;    // Retries after the first attempt
+    retryDelayMs?: number;  // Base delay, doubled on every retry
+    reserve?: number;       // Requests left unused in each rate limit window
+}
+
+interface RateLimitState {
+    remaining: number | null;  // Requests left in the current window
+    used: number | null;       // Requests used in the current window
+    resetAt: number;           // When the window resets (ms since epoch)
+}
+
+type SchedulerEvent =
+    | { type: 'start'; label: string; attempt: number; active: number; queued: number }
+    | { type: 'done'; label: string; status: number; active: number; queued: number }
+    | { type: 'retry'; label: string; attempt: number; delayMs: number; reason: string }
+    | { type: 'throttled'; waitMs: number; remaining: number | null }
+    | { type: 'failed'; label: string; reason: string };
+
+type SchedulerListener = (event: SchedulerEvent) => void;
+
+const DEFAULT_CONCURRENCY = Number(process.env.REDDIT_CONCURRENCY) || 4;
+const MAX_BACKOFF_MS = 60_000;
+
+/**
+ * Resolves after `ms`, or rejects with the signal's reason as soon as it aborts
+ */
+const sleep = (ms: number, signal?: AbortSignal | null) =>
+    new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+class RedditRequestScheduler {
+    private readonly concurrency: number;
+    private readonly maxRetries: number;
+    private readonly retryDelayMs: number;
+    private readonly reserve: number;
+    private readonly listeners = new Set<SchedulerListener>();
+    private readonly queue: Array<() => void> = [];
+    private active = 0;
+    private rateLimit: RateLimitState = { remaining: null, used: null, resetAt: 0 };
+
+    constructor(private readonly fetchImpl: FetchLike, options: RedditSchedulerOptions = {}) {
+        this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+        this.maxRetries = options.maxRetries ?? 3;
+        this.retryDelayMs = options.retryDelayMs ?? 1000;
+        this.reserve = options.reserve ?? 2;
+    }
+
+    /**
+     * Subscribe to scheduler events
+     * @returns A function that removes the listener
+     */
+    on(listener: SchedulerListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Latest rate limit state reported by Reddit
+     */
+    getRateLimit(): RateLimitState {
+        return { ...this.rateLimit };
+    }
+
+    /**
+     * Fetch through the scheduler. Waits for a free slot and rate limit budget,
+     * retrying 429s, 5xx responses and network errors with exponential backoff.
+     * Other non-2xx responses, and the last response once retries run out, are
+     * returned as-is. Aborting `init.signal` cancels queued and in-flight requests.
+     *
+     * @param url Request URL
+     * @param init Request options
+     * @param label Short description used in events and logs
+     */
+    async fetch(url: string, init: RequestInit = {}, label: string = url): Promise<Response> {
+        for (let attempt = 0; ; attempt++) {
+            init.signal?.throwIfAborted();
+            await this.acquire();
+
+            let response: Response | null = null;
+            let failure: unknown = null;
+            try {
+                // Requests cancelled while queued never reach Reddit
+                init.signal?.throwIfAborted();
+                await this.waitForBudget(init.signal);
+                this.emit({ type: 'start', label, attempt, active: this.active, queued: this.queue.length });
+                response = await this.fetchImpl(url, init);
+                this.updateRateLimit(response.headers);
+            } catch (error) {
+                failure = error;
+            } finally {
+                this.release();
+            }
+
+            if (init.signal?.aborted) {
+                response?.body?.cancel().catch(() => {});
+                throw failure ?? init.signal.reason;
+            }
+
+            const retryable = failure !== null || response!.status === 429 || response!.status >= 500;
+            if (!retryable) {
+                this.emit({ type: 'done', label, status: response!.status, active: this.active, queued: this.queue.length });
+                return response!;
+            }
+
+            const reason = failure !== null
+                ? (failure instanceof Error ? failure.message : String(failure))
+                : `HTTP ${response!.status}`;
+
+            if (attempt >= this.maxRetries) {
+                this.emit({ type: 'failed', label, reason });
+                if (response) return response;
+                throw failure;
+            }
+
+            const delayMs = this.retryDelay(attempt, response);
+            // The retried response is discarded, so release its connection
+            response?.body?.cancel().catch(() => {});
+            this.emit({ type: 'retry', label, attempt: attempt + 1, delayMs, reason });
+            await sleep(delayMs, init.signal);
+        }
+    }
+
+    private emit(event: SchedulerEvent): void {
+        this.listeners.forEach(listener => {
+            try {
+                listener(event);
+            } catch (error) {
+                console.error('Reddit scheduler listener failed:', error);
+            }
+        });
+    }
+
+    /**
+     * Wait for one of the concurrency slots
+     */
+    private acquire(): Promise<void> {
+        if (this.active < this.concurrency) {
+            this.active++;
+            return Promise.resolve();
+        }
+        return new Promise(resolve => {
+            // The slot is handed over directly, so `active` is unchanged
+            this.queue.push(resolve);
+        });
+    }
+
+    private release(): void {
+        const next = this.queue.shift();
+        if (next) {
+            next();
+        } else {
+            this.active--;
+        }
+    }
+
+    /**
+     * Pause until the rate limit window resets when its budget is spent.
+     * Each started request is deducted right away, so requests still in flight
+     * count against the budget before Reddit reports them. Rejects if `signal`
+     * aborts while waiting.
+     */
+    private async waitForBudget(signal?: AbortSignal | null): Promise<void> {
+        const { remaining, resetAt } = this.rateLimit;
+        if (remaining === null) return;
+
+        const waitMs = resetAt - Date.now();
+        if (waitMs <= 0) {
+            this.rateLimit = { remaining: null, used: null, resetAt: 0 };
+            return;
+        }
+
+        if (remaining <= this.reserve) {
+            this.emit({ type: 'throttled', waitMs, remaining });
+            await sleep(waitMs, signal);
+            this.rateLimit = { remaining: null, used: null, resetAt: 0 };
+            return;
+        }
+
+        // Reserve this request until the response reports the real count
+        this.rateLimit.remaining = remaining - 1;
+    }
+
+    private updateRateLimit(headers: Headers): void {
+        const remaining = parseFloat(headers.get('x-ratelimit-remaining') ?? '');
+        const used = parseFloat(headers.get('x-ratelimit-used') ?? '');
+        const reset = parseFloat(headers.get('x-ratelimit-reset') ?? '');
+        if (isNaN(remaining) || isNaN(reset)) return;
+
+        this.rateLimit = {
+            remaining: Math.floor(remaining),
+            used: isNaN(used) ? null : used,
+            resetAt: Date.now() + reset * 1000
+        };
+    }
+
+    /**
+     * Delay before the next attempt: Retry-After or the rate limit reset for 429s,
+     * otherwise exponential backoff with jitter
+     */
+    private retryDelay(attempt: number, response: Response | null): number {
+        if (response?.status === 429) {
+            const retryAfter = parseFloat(response.headers.get('retry-after') ?? '');
+            if (!isNaN(retryAfter)) return Math.min(retryAfter * 1000, MAX_BACKOFF_MS);
+
+            const resetIn = this.rateLimit.resetAt - Date.now();
+            if (resetIn > 0) return Math.min(resetIn, MAX_BACKOFF_MS);
+        }
+
+        const backoff = this.retryDelayMs * 2 ** attempt;
+        return Math.min(backoff + Math.random() * this.retryDelayMs, MAX_BACKOFF_MS);
+    }
+}
+
+export { RedditRequestScheduler };
+export type { RedditSchedulerOptions, RateLimitState, SchedulerEvent, SchedulerListener };
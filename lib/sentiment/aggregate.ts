@@ -0,0 +1,195 @@
+// lib/sentiment/aggregate.ts
+/**
+ * Turns per-post sentiment labels into bullish/bearish/neutral percentages.
+ *
+ * Strategies differ in how much each post counts:
+ * - count: every post once
+ * - log-engagement: log(1 + upvotes + comments), so a 20k-upvote DD outweighs
+ *   a 3-upvote post without drowning out everything else
+ * - subreddit: by SUBREDDIT_WEIGHTS, e.g. r/SecurityAnalysis over r/pennystocks
+ * - recency: halving every RECENCY_HALF_LIFE_DAYS before the newest post
+ *
+ * Each share comes with a 95% Wilson interval computed over the effective
+ * sample size of the weights (Kish), so a breakdown carried by a few heavy
+ * posts reports a wider interval than the same split across many posts.
+ */
+
+export type AggregationStrategy = "count" | "log-engagement" | "subreddit" | "recency";
+
+export const AGGREGATION_STRATEGIES: AggregationStrategy[] = ["count", "log-engagement", "subreddit", "recency"];
+
+// How each strategy is named in the UI
+export const AGGREGATION_LABELS: Record<AggregationStrategy, string> = {
+  count: "post count",
+  "log-engagement": "engagement-weighted",
+  subreddit: "subreddit-weighted",
+  recency: "recency-weighted"
+};
+
+export function isAggregationStrategy(value: unknown): value is AggregationStrategy {
+  return AGGREGATION_STRATEGIES.includes(value as AggregationStrategy);
+}
+
+// Strategy behind the headline percentages unless a caller picks one
+export const DEFAULT_AGGREGATION: AggregationStrategy = isAggregationStrategy(process.env.SENTIMENT_AGGREGATION)
+  ? process.env.SENTIMENT_AGGREGATION
+  : "log-engagement";
+
+/**
+ * Parses an aggregation strategy, falling back to the default for missing or unknown values
+ */
+export function parseAggregation(value: string | null | undefined): AggregationStrategy {
+  return isAggregationStrategy(value) ? value : DEFAULT_AGGREGATION;
+}
+
+// Weight of a post by subreddit (lowercase); unlisted subreddits count 1
+export const SUBREDDIT_WEIGHTS: Record<string, number> = {
+  securityanalysis: 1.5,
+  valueinvesting: 1.3,
+  investing: 1.2,
+  dividends: 1.1,
+  stocks: 1,
+  stockmarket: 1,
+  options: 0.9,
+  thetagang: 0.9,
+  algotrading: 0.9,
+  wallstreetbets: 0.7,
+  stockstobuy: 0.7,
+  daytrading: 0.7,
+  asx_bets: 0.6,
+  smallstreetbets: 0.5,
+  pennystocks: 0.5
+};
+
+export const RECENCY_HALF_LIFE_DAYS = 7;
+
+// z for a 95% interval
+const Z = 1.96;
+
+export type SentimentLabel = "bullish" | "bearish" | "neutral";
+
+// The post fields the strategies read
+export interface WeighablePost {
+  score: number;
+  num_comments: number;
+  subreddit: string;
+  created_utc: number;
+}
+
+// Share of one label, in whole percent
+export interface ShareInterval {
+  low: number;
+  high: number;
+}
+
+export interface SentimentBreakdown {
+  strategy: AggregationStrategy;
+  bullish: number;
+  bearish: number;
+  neutral: number;
+  intervals: Record<SentimentLabel, ShareInterval>;  // 95% confidence interval per label
+  posts: number;
+  effectiveSize: number;  // Posts the weights are worth; equals `posts` for count
+}
+
+const LABELS: SentimentLabel[] = ["bullish", "bearish", "neutral"];
+
+function weigher(strategy: AggregationStrategy, posts: WeighablePost[]): (post: WeighablePost) => number {
+  switch (strategy) {
+    case "count":
+      return () => 1;
+    case "log-engagement":
+      // +1 inside and out so a post nobody engaged with still counts
+      return post => 1 + Math.log1p(Math.max(0, post.score) + Math.max(0, post.num_comments));
+    case "subreddit":
+      return post => SUBREDDIT_WEIGHTS[post.subreddit.toLowerCase()] ?? 1;
+    case "recency": {
+      // Relative to the newest post, so the same collection always aggregates the same way
+      const newest = Math.max(...posts.map(post => post.created_utc));
+      return post => Math.pow(0.5, (newest - post.created_utc) / 86400 / RECENCY_HALF_LIFE_DAYS);
+    }
+  }
+}
+
+function wilson(share: number, size: number): ShareInterval {
+  if (size <= 0) return { low: 0, high: 100 };
+  const denominator = 1 + (Z * Z) / size;
+  const center = (share + (Z * Z) / (2 * size)) / denominator;
+  const margin = (Z * Math.sqrt((share * (1 - share)) / size + (Z * Z) / (4 * size * size))) / denominator;
+  return {
+    low: Math.max(0, Math.round((center - margin) * 100)),
+    high: Math.min(100, Math.round((center + margin) * 100))
+  };
+}
+
+/**
+ * Whole percentages that always total 100 (largest remainder): each share is
+ * rounded down, then the points left go to the largest fractions, ties in
+ * LABELS order
+ */
+function roundShares(shares: Record<SentimentLabel, number>): Record<SentimentLabel, number> {
+  const exact = LABELS.map(label => shares[label] * 100);
+  const rounded = exact.map(Math.floor);
+  const left = 100 - rounded.reduce((sum, value) => sum + value, 0);
+
+  LABELS.map((_, i) => i)
+    .sort((a, b) => (exact[b] - rounded[b]) - (exact[a] - rounded[a]) || a - b)
+    .slice(0, left)
+    .forEach(i => rounded[i]++);
+
+  return Object.fromEntries(LABELS.map((label, i) => [label, rounded[i]])) as Record<SentimentLabel, number>;
+}
+
+/**
+ * Bullish, bearish and neutral percentages of labeled posts under a strategy.
+ * The percentages total 100 whenever there are posts.
+ *
+ * @param groups Posts by label
+ * @param strategy How much each post counts (default DEFAULT_AGGREGATION)
+ * @returns Percentages with their 95% intervals; all zero with 0-100 intervals when there are no posts
+ */
+export function aggregateSentiment(
+  groups: Record<SentimentLabel, WeighablePost[]>,
+  strategy: AggregationStrategy = DEFAULT_AGGREGATION
+): SentimentBreakdown {
+  const all = LABELS.flatMap(label => groups[label]);
+  const weight = all.length > 0 ? weigher(strategy, all) : () => 1;
+
+  const totals = Object.fromEntries(
+    LABELS.map(label => [label, groups[label].reduce((sum, post) => sum + weight(post), 0)])
+  ) as Record<SentimentLabel, number>;
+  const total = totals.bullish + totals.bearish + totals.neutral;
+  const squares = all.reduce((sum, post) => sum + weight(post) ** 2, 0);
+  const effectiveSize = squares > 0 ? (total * total) / squares : 0;
+
+  const share = (label: SentimentLabel) => (total > 0 ? totals[label] / total : 0);
+  const percents = total > 0
+    ? roundShares({ bullish: share("bullish"), bearish: share("bearish"), neutral: share("neutral") })
+    : { bullish: 0, bearish: 0, neutral: 0 };
+
+  // Widened to take in a percentage that rounding moved past an interval bound
+  const interval = (label: SentimentLabel): ShareInterval => {
+    const { low, high } = wilson(share(label), effectiveSize);
+    return { low: Math.min(low, percents[label]), high: Math.max(high, percents[label]) };
+  };
+
+  return {
+    strategy,
+    ...percents,
+    intervals: Object.fromEntries(
+      LABELS.map(label => [label, interval(label)])
+    ) as Record<SentimentLabel, ShareInterval>,
+    posts: all.length,
+    effectiveSize: Math.round(effectiveSize * 10) / 10
+  };
+}
+
+/**
+ * One-line summary of a breakdown, e.g. "52% bullish (44-60%), 30% bearish (23-38%), 18% neutral (12-25%)"
+ */
+export function describeBreakdown(breakdown: SentimentBreakdown): string {
+  return LABELS.map(label => {
+    const { low, high } = breakdown.intervals[label];
+    return `${breakdown[label]}% ${label} (${low}-${high}%)`;
+  }).join(", ");
+}
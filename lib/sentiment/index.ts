@@ -0,0 +1,235 @@
+// lib/sentiment/index.ts
+/**
+ * Offline lexicon sentiment scorer for Reddit posts, narrative bullets and
+ * filing items.
+ *
+ * Text is split into word, emoji and punctuation tokens and matched against
+ * the lexicon (lexicon.ts), longest phrase first. Each matched term is then
+ * adjusted by the words just before it in the same clause: a negator within
+ * NEGATION_WINDOW tokens flips and dampens it ("not bullish", "no decline")
+ * unless a comparative sits between them ("never been more bullish").
+ * A negator before a verb like "think" reaches the next term in the clause
+ * however far it is ("don't think this is a bad buy"),
+ * and intensifiers scale it ("huge beat", "slight dip"). Terms shouted in
+ * capitals count a little more. Every match is returned with what changed
+ * its weight, so a score can always be explained.
+ */
+import {
+  LEXICON,
+  MAX_PHRASE_TOKENS,
+  NEGATORS,
+  NON_NEGATING,
+  NEGATION_RAISING,
+  COMPARATIVES,
+  INTENSIFIERS,
+  CLAUSE_BREAKS
+} from "./lexicon";
+
+export { LEXICON } from "./lexicon";
+export {
+  aggregateSentiment,
+  describeBreakdown,
+  isAggregationStrategy,
+  parseAggregation,
+  AGGREGATION_LABELS,
+  AGGREGATION_STRATEGIES,
+  DEFAULT_AGGREGATION,
+  RECENCY_HALF_LIFE_DAYS,
+  SUBREDDIT_WEIGHTS,
+  type AggregationStrategy,
+  type SentimentBreakdown,
+  type SentimentLabel,
+  type ShareInterval,
+  type WeighablePost
+} from "./aggregate";
+
+// How many tokens back a negator or intensifier reaches
+export const NEGATION_WINDOW = 3;
+export const INTENSIFIER_WINDOW = 2;
+
+// A negated term keeps part of its weight, reversed: "not bad" is mildly good
+export const NEGATION_SCALAR = -0.75;
+const CAPS_BOOST = 1.25;
+
+// Normalization constant for `compound`, as in VADER
+const COMPOUND_ALPHA = 15;
+
+// One matched term and how its weight was reached
+export interface TokenExplanation {
+  term: string;          // Lexicon entry that matched
+  text: string;          // The term as written
+  start: number;         // Character offsets of the term in the input
+  end: number;
+  valence: number;       // Lexicon valence
+  negated: boolean;
+  modifiers: string[];   // Negators and intensifiers that applied, in text order
+  multiplier: number;    // Product of the intensifiers and the capitals boost
+  weight: number;        // Contribution to the score
+}
+
+export interface SentimentScore {
+  score: number;      // Sum of the weights
+  positive: number;   // Sum of the positive weights
+  negative: number;   // Sum of the negative weights, as a positive number
+  compound: number;   // Score squashed to -1..1
+  tokens: TokenExplanation[];
+}
+
+interface Token {
+  raw: string;
+  norm: string;
+  start: number;
+  end: number;
+  break: boolean;     // Punctuation or a word that ends the clause
+}
+
+const TOKEN_PATTERN = /\p{Extended_Pictographic}|[\p{L}\p{N}$]+(?:['’][\p{L}]+)*|[.!?;:,()]/gu;
+
+function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(TOKEN_PATTERN), match => {
+    const raw = match[0];
+    const norm = raw.toLowerCase().replace(/['’]/g, "");
+    const start = match.index ?? 0;
+    return {
+      raw,
+      norm,
+      start,
+      end: start + raw.length,
+      break: /^[.!?;:,()]$/.test(raw) || CLAUSE_BREAKS.has(norm)
+    };
+  });
+}
+
+/**
+ * Longest lexicon phrase starting at a token, without crossing a clause break
+ */
+function matchAt(tokens: Token[], index: number): { term: string; length: number } | null {
+  for (let length = Math.min(MAX_PHRASE_TOKENS, tokens.length - index); length >= 1; length--) {
+    const span = tokens.slice(index, index + length);
+    if (span.some(token => token.break)) continue;
+    const term = span.map(token => token.norm).join(" ");
+    if (LEXICON.has(term)) return { term, length };
+  }
+  return null;
+}
+
+// A word in capitals in text that is not itself all capitals, e.g. "BULLISH"
+const shouted = (raw: string, text: string) =>
+  raw.length > 2 && /\p{L}/u.test(raw) && raw === raw.toUpperCase() && text !== text.toUpperCase();
+
+/**
+ * Scores the sentiment of a text
+ *
+ * @param text Any text; casing is kept to detect emphasis
+ * @returns The score and every term that contributed to it
+ */
+export function scoreSentiment(text: string): SentimentScore {
+  const tokens = tokenize(text);
+  const explanations: TokenExplanation[] = [];
+  // Tokens inside a matched term can't modify a later one ("no brainer")
+  const consumed = new Set<number>();
+  // A raised negator ("don't think") waiting for the next term in the clause
+  let raised: number | null = null;
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i].break) {
+      raised = null;
+      continue;
+    }
+    if (NEGATORS.has(tokens[i].norm) && NEGATION_RAISING.has(tokens[i + 1]?.norm)) raised = i;
+    const match = matchAt(tokens, i);
+    if (!match) continue;
+
+    const span = tokens.slice(i, i + match.length);
+    for (let j = i; j < i + match.length; j++) consumed.add(j);
+    const valence = LEXICON.get(match.term)!;
+    const startIndex = i;
+    i += match.length - 1;
+    if (valence === 0) continue;
+
+    let negated = false;
+    let multiplier = 1;
+    const modifiers: { index: number; word: string }[] = [];
+    let compared = false;
+
+    for (let back = 1; back <= NEGATION_WINDOW && startIndex - back >= 0; back++) {
+      const index = startIndex - back;
+      const token = tokens[index];
+      if (token.break || consumed.has(index)) break;
+
+      const next = tokens[index + 1]?.norm;
+      if (COMPARATIVES.has(token.norm)) {
+        compared = true;
+      } else if (
+        NEGATORS.has(token.norm) &&
+        // "no more losses" still negates; "never been more bullish" does not
+        (!compared || COMPARATIVES.has(next)) &&
+        !NON_NEGATING.has(`${token.norm} ${next}`)
+      ) {
+        negated = !negated;
+        modifiers.push({ index, word: token.raw });
+      } else if (back <= INTENSIFIER_WINDOW && INTENSIFIERS.has(token.norm)) {
+        multiplier *= INTENSIFIERS.get(token.norm)!;
+        modifiers.push({ index, word: token.raw });
+      }
+    }
+
+    // Unless the window already counted it, a raised negator applies to this term only
+    if (raised !== null) {
+      if (!modifiers.some(modifier => modifier.index === raised)) {
+        negated = !negated;
+        modifiers.push({ index: raised, word: tokens[raised].raw });
+      }
+      raised = null;
+    }
+
+    if (span.some(token => shouted(token.raw, text))) multiplier *= CAPS_BOOST;
+
+    const weight = valence * multiplier * (negated ? NEGATION_SCALAR : 1);
+    explanations.push({
+      term: match.term,
+      text: text.slice(span[0].start, span[span.length - 1].end),
+      start: span[0].start,
+      end: span[span.length - 1].end,
+      valence,
+      negated,
+      modifiers: modifiers.sort((a, b) => a.index - b.index).map(modifier => modifier.word),
+      multiplier: Math.round(multiplier * 1000) / 1000,
+      weight: Math.round(weight * 1000) / 1000
+    });
+  }
+
+  const positive = explanations.reduce((sum, token) => sum + Math.max(token.weight, 0), 0);
+  const negative = explanations.reduce((sum, token) => sum + Math.max(-token.weight, 0), 0);
+  const score = positive - negative;
+
+  return {
+    score: Math.round(score * 1000) / 1000,
+    positive: Math.round(positive * 1000) / 1000,
+    negative: Math.round(negative * 1000) / 1000,
+    compound: Math.round((score / Math.sqrt(score * score + COMPOUND_ALPHA)) * 1000) / 1000,
+    tokens: explanations
+  };
+}
+
+/**
+ * Balance of positive and negative weight across texts, from -1 to 1
+ */
+export function sentimentBalance(texts: string[]): number {
+  let positive = 0;
+  let negative = 0;
+  for (const text of texts) {
+    const result = scoreSentiment(text);
+    positive += result.positive;
+    negative += result.negative;
+  }
+  return positive + negative > 0 ? (positive - negative) / (positive + negative) : 0;
+}
+
+/**
+ * One-line explanation of a matched term, e.g. "not bullish (-1.5)"
+ */
+export function describeToken(token: TokenExplanation): string {
+  const phrase = [...token.modifiers, token.text].join(" ");
+  return `${phrase} (${token.weight > 0 ? "+" : ""}${token.weight})`;
+}
@@ -0,0 +1,109 @@
+// lib/sentiment/lexicon.ts
+/**
+ * Word lists behind the sentiment scorer. Valences run from -3 (strongly
+ * bearish) to 3 (strongly bullish). Phrases are matched as token sequences,
+ * longest first, so "short squeeze" wins over "short"; a phrase with valence
+ * 0 only stops its words from matching on their own ("short interest",
+ * "diluted eps").
+ */
+
+/**
+ * Entries for every form of a term, all with the same valence
+ */
+function forms(valence: number, ...terms: string[]): [string, number][] {
+  return terms.map(term => [term, valence]);
+}
+
+export const LEXICON: ReadonlyMap<string, number> = new Map([
+  // General tone
+  ...forms(1, "growth", "grow", "grows", "growing", "grew", "increase", "increases", "increased", "increasing"),
+  ...forms(1, "profit", "profits", "profitable", "profitability", "success", "successful", "positive"),
+  ...forms(1, "strong", "stronger", "strength", "innovation", "innovative", "momentum", "improve", "improved", "improving", "improvement"),
+  ...forms(1, "rise", "rises", "rising", "rose", "gain", "gains", "gained", "expand", "expanded", "expanding", "expansion"),
+  ...forms(1.5, "exceed", "exceeds", "exceeded", "outperform", "outperforms", "outperformed", "outperforming", "record", "tailwind", "tailwinds"),
+  ...forms(-1, "weak", "weaker", "weakness", "weakening", "problem", "problems", "negative", "slowdown", "slowing", "headwind", "headwinds"),
+  ...forms(-1.5, "decline", "declines", "declined", "declining", "decrease", "decreases", "decreased", "decreasing"),
+  ...forms(-1.5, "loss", "losses", "failure", "fail", "fails", "failed", "drop", "drops", "dropped", "dropping", "fell", "fall", "falls", "falling"),
+  ...forms(-1.5, "underperform", "underperforms", "underperformed", "underperforming", "shrink", "shrinking", "shrank", "compression"),
+  ...forms(-0.5, "below"),
+  ...forms(1, "good", "nice", "solid", "healthy", "happy", "love"),
+  ...forms(1.5, "great", "excellent", "impressive", "amazing", "fantastic", "best"),
+  ...forms(-1, "bad", "poor", "worse", "disappointing", "disappointed", "worried", "worry", "concern", "concerns", "concerning"),
+  ...forms(-1.5, "terrible", "awful", "horrible", "worst", "disaster", "ugly"),
+
+  // Size of the move: "slight dip" is not "collapse"
+  ...forms(-1, "dip", "dips", "dipped", "pullback", "softness", "soft"),
+  ...forms(-2, "slump", "slumped", "tumble", "tumbled", "sank", "sinking", "tank", "tanks", "tanked", "tanking"),
+  ...forms(-2.5, "plunge", "plunged", "plunging", "nosedive", "nosedived"),
+  ...forms(-3, "collapse", "collapsed", "collapsing", "crash", "crashed", "crashing", "plummet", "plummeted", "plummeting", "implode", "imploded"),
+  ...forms(1.5, "rally", "rallied", "rallying", "jump", "jumped", "jumps", "climb", "climbed"),
+  ...forms(2.5, "surge", "surged", "surging", "soar", "soared", "soaring"),
+  ...forms(3, "skyrocket", "skyrocketed", "skyrocketing"),
+
+  // Results and guidance
+  ...forms(2, "beat", "beats", "topped"),
+  ...forms(-2, "miss", "misses", "missed"),
+  ...forms(2, "above expectations", "above estimates", "record high", "blowout quarter", "blowout"),
+  ...forms(-2, "below expectations", "below estimates", "record low", "shortfall"),
+  ...forms(2.5, "guide up", "guides up", "guided up", "guidance up", "raised guidance", "raises guidance", "raise guidance", "guidance raised", "guidance hike"),
+  ...forms(3, "beat and raise"),
+  ...forms(-2.5, "guide down", "guides down", "guided down", "guidance down", "lowered guidance", "lowers guidance", "lower guidance", "guidance lowered", "guidance cut", "cut guidance", "cuts guidance"),
+  ...forms(1.5, "upgrade", "upgraded", "upgrades", "buyback", "buybacks", "share repurchase", "share repurchases", "dividend hike", "dividend increase"),
+  ...forms(-1.5, "downgrade", "downgraded", "downgrades", "impairment", "write down", "writedown", "layoffs", "share offering"),
+  ...forms(-2, "dilution", "dilutive", "diluting", "secondary offering", "atm offering", "reverse split", "dividend cut"),
+  ...forms(-3, "bankruptcy", "bankrupt", "chapter 11", "going concern", "delisted", "delisting"),
+  ...forms(0, "diluted eps", "fully diluted", "diluted shares"),
+
+  // Positioning and valuation
+  ...forms(1, "buy", "buying", "long", "upside", "bull"),
+  ...forms(-1, "sell", "selling", "short", "shorting", "downside", "bear", "bear case"),
+  ...forms(2, "bullish", "undervalued", "loading up", "buy the dip", "btfd", "no brainer"),
+  ...forms(-2, "bearish", "overvalued", "bubble", "stay away", "avoid"),
+  ...forms(3, "strong buy"),
+  ...forms(-3, "strong sell"),
+  ...forms(1.5, "calls", "going long", "short squeeze", "squeeze"),
+  ...forms(-1.5, "puts", "bull trap"),
+  ...forms(0, "short interest", "short term", "long term", "long time", "sell side", "buy side"),
+
+  // WSB slang
+  ...forms(2, "tendies", "moon", "mooning", "diamond hands", "rocket"),
+  ...forms(2.5, "to the moon"),
+  ...forms(1, "stonks", "yolo", "lfg", "printing"),
+  ...forms(-1, "paper hands"),
+  ...forms(-2, "bagholder", "bagholders", "bagholding", "bag holder", "bag holders", "holding bags", "guh", "drilling", "dead cat bounce", "rugged"),
+  ...forms(-3, "rug pull", "rugpull"),
+
+  // Emoji
+  ...forms(2, "🚀", "🌕", "🌙"),
+  ...forms(1.5, "💎", "📈", "🐂", "🔥", "🤑"),
+  ...forms(-1.5, "📉", "🐻", "💀", "🤡", "🗑"),
+  ...forms(-2, "🩸", "😭")
+]);
+
+// Longest phrase in the lexicon, in tokens
+export const MAX_PHRASE_TOKENS = 3;
+
+// Words that flip the sentiment of the terms shortly after them
+export const NEGATORS = new Set([
+  "not", "no", "never", "none", "nothing", "nobody", "neither", "nor", "without", "hardly",
+  "cannot", "cant", "dont", "doesnt", "didnt", "isnt", "wasnt", "arent", "werent", "wont", "wouldnt", "shouldnt", "aint"
+]);
+
+// Negators that only compare, as in "not only" or "not just"
+export const NON_NEGATING = new Set(["not only", "not just", "no doubt"]);
+
+// Verbs that carry a negator before them to the next term in the clause: "don't think this is a bad buy"
+export const NEGATION_RAISING = new Set(["think", "believe", "expect", "feel", "suppose"]);
+
+// Comparatives that turn an earlier negator into a superlative: "never been more bullish"
+export const COMPARATIVES = new Set(["more", "better"]);
+
+// Multipliers for the words just before a term
+export const INTENSIFIERS: ReadonlyMap<string, number> = new Map([
+  ...forms(1.3, "very", "really", "so", "super", "big", "bigger", "sharp", "sharply", "significant", "significantly", "strongly"),
+  ...forms(1.5, "extremely", "hugely", "huge", "massive", "massively", "insane", "insanely", "absolutely", "incredibly", "enormous", "totally", "complete", "completely"),
+  ...forms(0.5, "slight", "slightly", "small", "minor", "modest", "modestly", "somewhat", "marginal", "marginally", "mild", "mildly", "bit", "little", "less", "barely", "partially")
+]);
+
+// Words that end a negation or intensifier's scope
+export const CLAUSE_BREAKS = new Set(["but", "however", "although", "though", "whereas", "while"]);
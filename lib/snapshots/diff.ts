@@ -0,0 +1,299 @@
+// lib/snapshots/diff.ts
+/**
+ * Diffs two snapshots of the same ticker: which narrative themes and which
+ * fundamentals, risks and trends are new, gone, or changed in emphasis, how
+ * the Reddit sentiment split moved, and how the divergence score moved
+ * (only when both scores come from the same algorithm version).
+ *
+ * Bullets are aligned by similarity of their wording (TF-IDF weighted cosine
+ * over stemmed words, so "growing deliveries" matches "delivery growth").
+ * Aligned pairs are classified by evidence: a bullet is strengthened when its
+ * newer version carries more figures, sentiment terms and intensifiers, or
+ * the same amount with larger percentages; weakened in the opposite case.
+ */
+import { extractFigures } from "../figureVerifier";
+import { stripMarkers } from "../citations";
+import { countSentimentTerms } from "../divergence";
+import { summarizeSnapshot, scoreVersion } from "./summary";
+import type { AnalysisSnapshot, SnapshotNarrative, SnapshotSummary } from "./types";
+
+export type BulletChange = "added" | "removed" | "strengthened" | "weakened" | "unchanged";
+
+export type DiffSectionName = "narrative" | "fundamentals" | "risks" | "trends";
+
+export interface BulletDiff {
+  change: BulletChange;
+  before: string | null;       // null for added bullets
+  after: string | null;        // null for removed bullets
+  similarity: number | null;   // 0-1 for aligned pairs
+}
+
+export interface SectionDiff {
+  name: DiffSectionName;
+  bullets: BulletDiff[];       // Aligned pairs in the newer order, then removed bullets
+  counts: Record<BulletChange, number>;
+}
+
+// Overall Reddit sentiment split, in percent
+export interface SentimentSplit {
+  bullish: number;
+  bearish: number;
+  neutral: number;
+}
+
+export interface SnapshotDiff {
+  ticker: string;
+  before: SnapshotSummary;     // The older snapshot
+  after: SnapshotSummary;
+  sections: SectionDiff[];     // Only sections present in both snapshots
+  sentiment: {
+    before: SentimentSplit;
+    after: SentimentSplit;
+    delta: SentimentSplit;     // after - before, in percentage points
+  } | null;
+  divergence: {
+    before: number | null;
+    after: number | null;
+    delta: number | null;      // Positive when narrative and reality moved apart; null across versions
+    versions: {
+      before: string | null;   // Algorithm behind each score
+      after: string | null;
+    };
+  };
+}
+
+// Minimum similarity for two bullets to count as the same theme
+export const ALIGNMENT_THRESHOLD = 0.25;
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "with", "from", "that", "this", "are", "was", "were", "has",
+  "have", "had", "its", "their", "they", "them", "into", "over", "about", "more",
+  "most", "than", "which", "while", "also", "been", "being", "will", "would",
+  "could", "should", "such", "other", "some", "many", "much", "very", "per",
+  "based", "including", "across", "between", "after", "before", "amid", "both",
+  "posts", "post", "reddit", "users", "discussion", "discussions", "highlight",
+  "highlights", "focus", "focuses"
+]);
+
+// Words that make a claim more emphatic
+const INTENSIFIERS = [
+  "significant", "significantly", "sharp", "sharply", "major", "record", "massive",
+  "strongly", "substantial", "dramatic", "dramatically", "severe", "critical", "key"
+];
+
+const SENTIMENT_SPLIT =
+  /(\d+(?:\.\d+)?)\s*%\s*bullish[^\d]*(\d+(?:\.\d+)?)\s*%\s*bearish(?:[^\d]*(\d+(?:\.\d+)?)\s*%\s*neutral)?/i;
+
+/**
+ * Crude suffix stripping so inflections of a word compare equal
+ */
+function stem(word: string): string {
+  if (word.length <= 4) return word;
+  return word
+    .replace(/ies$/, "y")
+    .replace(/(ing|ed|ly|es|s)$/, "")
+    .replace(/(.)\1$/, "$1");
+}
+
+/**
+ * Content words of a bullet, stemmed; numbers are left out since they change between runs
+ */
+function terms(text: string): string[] {
+  return stripMarkers(text)
+    .toLowerCase()
+    .replace(/\[[^\]]*\]\([^)]*\)/g, " ")
+    .split(/[^a-z]+/)
+    .filter(word => word.length >= 3 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * TF-IDF vectors for a set of texts, with document frequencies taken across all of them
+ */
+function vectorize(texts: string[]): Map<string, number>[] {
+  const termLists = texts.map(terms);
+  const documentFrequency = new Map<string, number>();
+  for (const list of termLists) {
+    for (const term of new Set(list)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  return termLists.map(list => {
+    const vector = new Map<string, number>();
+    for (const term of list) vector.set(term, (vector.get(term) ?? 0) + 1);
+    for (const [term, count] of vector) {
+      const idf = Math.log((texts.length + 1) / ((documentFrequency.get(term) ?? 0) + 1)) + 1;
+      vector.set(term, count * idf);
+    }
+    return vector;
+  });
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  for (const [term, weight] of a) dot += weight * (b.get(term) ?? 0);
+  const norm = (v: Map<string, number>) => Math.sqrt(Array.from(v.values()).reduce((sum, w) => sum + w * w, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator > 0 ? dot / denominator : 0;
+}
+
+/**
+ * How much evidence and emphasis a bullet carries
+ */
+function strength(text: string): { evidence: number; magnitude: number } {
+  const lower = text.toLowerCase();
+  const figures = extractFigures(stripMarkers(text));
+  const { positive, negative } = countSentimentTerms(lower);
+  const intensifiers = INTENSIFIERS.filter(word => new RegExp(`\\b${word}\\b`).test(lower)).length;
+  const percents = figures.filter(figure => figure.kind === "percent").map(figure => Math.abs(figure.value));
+
+  return {
+    evidence: figures.length + positive + negative + intensifiers,
+    magnitude: percents.length > 0 ? Math.max(...percents) : 0
+  };
+}
+
+function classify(before: string, after: string): BulletChange {
+  if (before.trim() === after.trim()) return "unchanged";
+
+  const old = strength(before);
+  const now = strength(after);
+  if (now.evidence !== old.evidence) return now.evidence > old.evidence ? "strengthened" : "weakened";
+  if (now.magnitude !== old.magnitude) return now.magnitude > old.magnitude ? "strengthened" : "weakened";
+  return "unchanged";
+}
+
+/**
+ * Aligns two bullet lists and classifies every bullet
+ *
+ * @param name Section the bullets belong to
+ * @param before Bullets of the older run
+ * @param after Bullets of the newer run
+ */
+export function diffBullets(name: DiffSectionName, before: string[], after: string[]): SectionDiff {
+  const vectors = vectorize([...before, ...after]);
+  const beforeVectors = vectors.slice(0, before.length);
+  const afterVectors = vectors.slice(before.length);
+
+  // Greedy matching: the most similar remaining pair is aligned first
+  const pairs: { i: number; j: number; similarity: number }[] = [];
+  beforeVectors.forEach((a, i) =>
+    afterVectors.forEach((b, j) => pairs.push({ i, j, similarity: cosine(a, b) }))
+  );
+  pairs.sort((x, y) => y.similarity - x.similarity);
+
+  const matchForAfter = new Map<number, { i: number; similarity: number }>();
+  const matchedBefore = new Set<number>();
+  for (const { i, j, similarity } of pairs) {
+    if (similarity < ALIGNMENT_THRESHOLD) break;
+    if (matchedBefore.has(i) || matchForAfter.has(j)) continue;
+    matchedBefore.add(i);
+    matchForAfter.set(j, { i, similarity });
+  }
+
+  const bullets: BulletDiff[] = after.map((text, j) => {
+    const match = matchForAfter.get(j);
+    if (!match) return { change: "added", before: null, after: text, similarity: null };
+    const similarity = Math.round(match.similarity * 100) / 100;
+    return { change: classify(before[match.i], text), before: before[match.i], after: text, similarity };
+  });
+  before.forEach((text, i) => {
+    if (!matchedBefore.has(i)) bullets.push({ change: "removed", before: text, after: null, similarity: null });
+  });
+
+  const counts: Record<BulletChange, number> = { added: 0, removed: 0, strengthened: 0, weakened: 0, unchanged: 0 };
+  for (const bullet of bullets) counts[bullet.change]++;
+
+  return { name, bullets, counts };
+}
+
+/**
+ * Reads the "X% bullish, Y% bearish, Z% neutral" split from narrative bullets,
+ * for runs stored without a computed breakdown
+ */
+export function parseSentimentSplit(bullets: string[]): SentimentSplit | null {
+  for (const bullet of bullets) {
+    const match = bullet.match(SENTIMENT_SPLIT);
+    if (!match) continue;
+    const bullish = Number(match[1]);
+    const bearish = Number(match[2]);
+    const neutral = match[3] !== undefined ? Number(match[3]) : Math.max(0, 100 - bullish - bearish);
+    return { bullish, bearish, neutral };
+  }
+  return null;
+}
+
+/**
+ * Sentiment split of a stored narrative: the computed breakdown when the run
+ * kept one, read from the bullets for runs stored before it was
+ */
+function sentimentSplitOf(narrative: SnapshotNarrative): SentimentSplit | null {
+  if (narrative.sentiment) {
+    const { bullish, bearish, neutral } = narrative.sentiment;
+    return { bullish, bearish, neutral };
+  }
+  return parseSentimentSplit(narrative.bullets);
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Diffs two snapshots of the same ticker, oldest first whatever the argument order
+ *
+ * @throws Error when the snapshots are of different tickers
+ */
+export function diffSnapshots(first: AnalysisSnapshot, second: AnalysisSnapshot): SnapshotDiff {
+  if (first.ticker !== second.ticker) {
+    throw new Error(`Cannot diff snapshots of ${first.ticker} and ${second.ticker}`);
+  }
+  const [before, after] = first.createdAt <= second.createdAt ? [first, second] : [second, first];
+
+  const sections: SectionDiff[] = [];
+  if (before.narrative && after.narrative) {
+    sections.push(diffBullets("narrative", before.narrative.bullets, after.narrative.bullets));
+  }
+  if (before.financial && after.financial) {
+    for (const name of ["fundamentals", "risks", "trends"] as const) {
+      sections.push(diffBullets(
+        name,
+        before.financial[name].map(item => item.text),
+        after.financial[name].map(item => item.text)
+      ));
+    }
+  }
+
+  const sentimentBefore = before.narrative ? sentimentSplitOf(before.narrative) : null;
+  const sentimentAfter = after.narrative ? sentimentSplitOf(after.narrative) : null;
+
+  const scoreBefore = before.divergence?.score ?? null;
+  const scoreAfter = after.divergence?.score ?? null;
+  const versionBefore = before.divergence ? scoreVersion(before.divergence) : null;
+  const versionAfter = after.divergence ? scoreVersion(after.divergence) : null;
+
+  return {
+    ticker: after.ticker,
+    before: summarizeSnapshot(before),
+    after: summarizeSnapshot(after),
+    sections,
+    sentiment: sentimentBefore && sentimentAfter
+      ? {
+          before: sentimentBefore,
+          after: sentimentAfter,
+          delta: {
+            bullish: round(sentimentAfter.bullish - sentimentBefore.bullish),
+            bearish: round(sentimentAfter.bearish - sentimentBefore.bearish),
+            neutral: round(sentimentAfter.neutral - sentimentBefore.neutral)
+          }
+        }
+      : null,
+    divergence: {
+      before: scoreBefore,
+      after: scoreAfter,
+      delta: scoreBefore !== null && scoreAfter !== null && versionBefore === versionAfter
+        ? scoreAfter - scoreBefore
+        : null,
+      versions: { before: versionBefore, after: versionAfter }
+    }
+  };
+}
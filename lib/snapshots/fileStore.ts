@@ -0,0 +1,95 @@
+// lib/snapshots/fileStore.ts
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { AnalysisSnapshot } from "./types";
+
+// IDs are "<ticker>_<base36 time><random>", so a ticker's files sort by time
+const SNAPSHOT_ID = /^[A-Z0-9.]+_[a-z0-9]+$/;
+
+/**
+ * Ticker as used in snapshot IDs and file names
+ */
+function fileTicker(ticker: string): string {
+  return ticker.toUpperCase().replace(/[^A-Z0-9.]/g, "") || "UNKNOWN";
+}
+
+/**
+ * Creates the ID of a new snapshot
+ */
+export function createSnapshotId(ticker: string, createdAt = Date.now()): string {
+  const time = createdAt.toString(36).padStart(9, "0");
+  const random = Math.random().toString(36).slice(2, 6).padEnd(4, "0");
+  return `${fileTicker(ticker)}_${time}${random}`;
+}
+
+/**
+ * Whether a string is a well-formed snapshot ID, checked before it is used as a file name
+ */
+export function isSnapshotId(id: string): boolean {
+  return SNAPSHOT_ID.test(id);
+}
+
+/**
+ * Stores each snapshot as a JSON file. Snapshots are written once and never
+ * change, so there is no locking beyond an atomic rename.
+ */
+export class SnapshotStore {
+  constructor(private readonly dir: string) {}
+
+  private fileFor(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  async save(snapshot: AnalysisSnapshot): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+
+    // Write then rename so readers never see a partial file
+    const file = this.fileFor(snapshot.id);
+    const temp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(snapshot), "utf-8");
+    await fs.rename(temp, file);
+  }
+
+  async get(id: string): Promise<AnalysisSnapshot | undefined> {
+    if (!isSnapshotId(id)) return undefined;
+    try {
+      return JSON.parse(await fs.readFile(this.fileFor(id), "utf-8")) as AnalysisSnapshot;
+    } catch (error: any) {
+      if (error.code === "ENOENT") return undefined;
+      console.warn(`Unreadable snapshot ${id}:`, error.message);
+      return undefined;
+    }
+  }
+
+  /**
+   * Snapshots of a ticker, newest first
+   *
+   * @param ticker Canonical ticker
+   * @param limit Maximum number of snapshots
+   */
+  async list(ticker: string, limit = 50): Promise<AnalysisSnapshot[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch (error: any) {
+      if (error.code === "ENOENT") return [];
+      throw error;
+    }
+
+    const prefix = `${fileTicker(ticker)}_`;
+    const ids = files
+      .filter(file => file.startsWith(prefix) && file.endsWith(".json"))
+      .map(file => file.slice(0, -".json".length))
+      .sort()
+      .reverse();
+
+    const snapshots: AnalysisSnapshot[] = [];
+    for (const id of ids) {
+      if (snapshots.length >= limit) break;
+      const snapshot = await this.get(id);
+      // Different tickers can share a file prefix once punctuation is dropped
+      if (snapshot?.ticker === ticker) snapshots.push(snapshot);
+    }
+    return snapshots;
+  }
+}
@@ -0,0 +1,41 @@
+// lib/snapshots/index.ts
+/**
+ * Stored analysis runs, so a past analysis can be reopened exactly as it was.
+ *
+ * A snapshot holds both sides of a run as streamed (narrative and financial
+ * completions, with the model and prompts that produced them), what was
+ * displayed from them (bullets, fundamentals/risks/trends, citations) and the
+ * divergence result. Snapshots are JSON files under SNAPSHOT_DIR.
+ */
+import { SnapshotStore } from "./fileStore";
+
+export type {
+  AnalysisSnapshot,
+  SnapshotNarrative,
+  SnapshotFinancial,
+  SnapshotSummary
+} from "./types";
+export { SnapshotStore, createSnapshotId, isSnapshotId } from "./fileStore";
+export { summarizeSnapshot, scoreVersion } from "./summary";
+export {
+  diffSnapshots,
+  diffBullets,
+  parseSentimentSplit,
+  type BulletChange,
+  type BulletDiff,
+  type DiffSectionName,
+  type SectionDiff,
+  type SentimentSplit,
+  type SnapshotDiff
+} from "./diff";
+export {
+  divergenceSeries,
+  type DivergencePoint,
+  type DivergenceSeries,
+  type EarningsMarker
+} from "./series";
+
+export const SNAPSHOT_DIR = process.env.SNAPSHOT_DIR || ".data/snapshots";
+
+// Shared instance used by the snapshot routes and the analysis page
+export const snapshotStore = new SnapshotStore(SNAPSHOT_DIR);
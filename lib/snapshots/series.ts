@@ -0,0 +1,118 @@
+// lib/snapshots/series.ts
+/**
+ * Divergence over time for one ticker, built from its stored runs: the
+ * score and the sentiment of each side per run, plus markers for filing or
+ * earnings dates reported by the financial results and for runs where
+ * Reddit volume spiked. Each point records the algorithm version behind its
+ * score, since scores from different versions are not on the same scale.
+ */
+import { windowDays, type AnalysisWindow } from "../analysisOptions";
+import type { DivergenceLevel } from "../divergence";
+import { scoreVersion } from "./summary";
+import type { AnalysisSnapshot } from "./types";
+
+export interface DivergencePoint {
+  id: string;                                 // Snapshot the point comes from
+  createdAt: string;
+  window: AnalysisWindow;
+  score: number;
+  divergence: DivergenceLevel;
+  version: string;                            // Divergence algorithm behind the score
+  narrativeSentiment: number | null;          // -1 to 1; null for runs stored before components were kept
+  financialSentiment: number | null;
+  postsPerDay: number;                        // Reddit posts collected per day of the window
+  volumeSpike: boolean;
+}
+
+export interface EarningsMarker {
+  date: string;                               // ISO date (YYYY-MM-DD)
+  source: string;                             // Filing or report, e.g. "10-Q Q2 2025"
+}
+
+export interface DivergenceSeries {
+  ticker: string;
+  points: DivergencePoint[];                  // Oldest first
+  versions: string[];                         // Algorithm versions in the order they first appear
+  earnings: EarningsMarker[];                 // Oldest first, within the series range
+}
+
+// A run is a volume spike when its posts per day reach this multiple of the median
+export const VOLUME_SPIKE_RATIO = 2;
+// Runs needed before the median volume means anything
+const MIN_RUNS_FOR_SPIKES = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Filing date of a financial result as an ISO date, or null when the model
+ * returned something that is not a date
+ */
+function filingDate(date: string): string | null {
+  const iso = date.match(/^\d{4}-\d{2}-\d{2}/);
+  if (iso) return iso[0];
+
+  // Dates like "March 15, 2025" parse as local midnight
+  const parsed = new Date(date);
+  if (Number.isNaN(parsed.getTime())) return null;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`;
+}
+
+/**
+ * Builds the divergence series of a ticker from its snapshots
+ *
+ * @param ticker Ticker the snapshots belong to
+ * @param snapshots Snapshots in any order; runs without a divergence result are skipped
+ */
+export function divergenceSeries(ticker: string, snapshots: AnalysisSnapshot[]): DivergenceSeries {
+  const scored = snapshots
+    .filter(snapshot => snapshot.divergence !== null)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  const volumes = scored.map(snapshot =>
+    snapshot.narrative ? snapshot.narrative.totalPosts / windowDays(snapshot.window) : 0
+  );
+  const baseline = scored.length >= MIN_RUNS_FOR_SPIKES ? median(volumes) : 0;
+
+  const points: DivergencePoint[] = scored.map((snapshot, i) => ({
+    id: snapshot.id,
+    createdAt: snapshot.createdAt,
+    window: snapshot.window,
+    score: snapshot.divergence!.score,
+    divergence: snapshot.divergence!.divergence,
+    version: scoreVersion(snapshot.divergence!),
+    narrativeSentiment: snapshot.divergence!.components?.narrativeSentiment ?? null,
+    financialSentiment: snapshot.divergence!.components?.financialSentiment ?? null,
+    postsPerDay: Math.round(volumes[i] * 100) / 100,
+    volumeSpike: baseline > 0 && volumes[i] >= baseline * VOLUME_SPIKE_RATIO
+  }));
+
+  // Filings reported by any run, from a year before the first run to the last one
+  const earnings = new Map<string, EarningsMarker>();
+  if (points.length > 0) {
+    const from = Date.parse(points[0].createdAt) - windowDays("365d") * DAY_MS;
+    const to = Date.parse(points[points.length - 1].createdAt);
+    for (const snapshot of snapshots) {
+      if (!snapshot.financial) continue;
+      const date = filingDate(snapshot.financial.date);
+      if (!date || earnings.has(date)) continue;
+      const time = Date.parse(date);
+      if (time >= from && time <= to) {
+        earnings.set(date, { date, source: snapshot.financial.source || "Filing" });
+      }
+    }
+  }
+
+  return {
+    ticker,
+    points,
+    versions: Array.from(new Set(points.map(point => point.version))),
+    earnings: Array.from(earnings.values()).sort((a, b) => a.date.localeCompare(b.date))
+  };
+}
@@ -0,0 +1,36 @@
+// lib/snapshots/summary.ts
+import type { ComparisonResult } from "../divergence";
+import type { AnalysisSnapshot, SnapshotSummary } from "./types";
+
+// Algorithm behind scores stored before results recorded their version
+const LEGACY_DIVERGENCE_VERSION = "keyword-1";
+
+/**
+ * Algorithm version of a stored divergence result. Scores from different
+ * versions are not on the same scale, so they are never compared directly.
+ */
+export function scoreVersion(divergence: ComparisonResult): string {
+  return divergence.version ?? LEGACY_DIVERGENCE_VERSION;
+}
+
+/**
+ * The timeline entry for a snapshot
+ */
+export function summarizeSnapshot(snapshot: AnalysisSnapshot): SnapshotSummary {
+  return {
+    id: snapshot.id,
+    ticker: snapshot.ticker,
+    window: snapshot.window,
+    sources: snapshot.sources,
+    createdAt: snapshot.createdAt,
+    divergence: snapshot.divergence
+      ? {
+          score: snapshot.divergence.score,
+          divergence: snapshot.divergence.divergence,
+          version: scoreVersion(snapshot.divergence)
+        }
+      : null,
+    totalPosts: snapshot.narrative?.totalPosts ?? null,
+    financialSource: snapshot.financial?.source || null
+  };
+}
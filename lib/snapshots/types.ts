@@ -0,0 +1,62 @@
+// lib/snapshots/types.ts
+import type { CachedCompletion } from "../cache";
+import type { ResolvedEntity } from "../entities";
+import type { AnalysisSource, AnalysisWindow } from "../analysisOptions";
+import type { ComparisonResult } from "../divergence";
+import type { VerificationReport } from "../figureVerifier";
+import type { CollectionProgress } from "../redditClient";
+import type { AggregationStrategy, SentimentBreakdown } from "../sentiment";
+import type { FinancialItem } from "../sonarFinancial";
+import type { Citation, Message } from "@/types/perplexity";
+
+// How one side of the analysis was produced
+interface SnapshotRun {
+  completion: CachedCompletion;  // Exactly as streamed, replayed to reopen the run
+  citations: Citation[];
+  model: string;
+  prompts: Message[];
+  completedAt: string;           // ISO time the completion finished
+}
+
+export interface SnapshotNarrative extends SnapshotRun {
+  bullets: string[];             // Bullet texts as displayed
+  verification: VerificationReport;
+  collection: CollectionProgress;
+  totalPosts: number;
+  subredditCount: number;
+  sentiment?: SentimentBreakdown;  // Absent in snapshots stored before it was recorded
+}
+
+export interface SnapshotFinancial extends SnapshotRun {
+  fundamentals: FinancialItem[];
+  risks: FinancialItem[];
+  trends: FinancialItem[];
+  source: string;
+  date: string;
+}
+
+// One completed analysis run
+export interface AnalysisSnapshot {
+  id: string;
+  ticker: string;
+  entity: ResolvedEntity;
+  window: AnalysisWindow;
+  sources: AnalysisSource[];
+  aggregation?: AggregationStrategy;     // Set when the run picked a sentiment aggregation
+  createdAt: string;
+  narrative: SnapshotNarrative | null;   // null when Reddit was not a source
+  financial: SnapshotFinancial | null;   // null when filings were not a source
+  divergence: ComparisonResult | null;   // Needs both sides
+}
+
+// What the history timeline lists for a snapshot
+export interface SnapshotSummary {
+  id: string;
+  ticker: string;
+  window: AnalysisWindow;
+  sources: AnalysisSource[];
+  createdAt: string;
+  divergence: Pick<ComparisonResult, "score" | "divergence" | "version"> | null;
+  totalPosts: number | null;
+  financialSource: string | null;
+}
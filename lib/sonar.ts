@@ -1,15 +1,16 @@
 // lib/sonar.ts
-import { PERPLEXITY_URL } from "./sonarConfig";
+import { sonarClient, getContent } from "./sonarClient";
+import { toCitations, mapCitations } from "./citations";
+import { resolveEntity, entityLabel } from "./entities";
 import type {
   SonarRequest,
   NarrativeAnalysis,
-  SonarResponse,
   Message
 } from "@/types/perplexity";
 
 /**
  * Gets the media narrative for a company using Perplexity's Sonar API
- * @param company The ticker symbol or company name
+ * @param company The ticker symbol or company name, resolved to a canonical entity
  * @param points Number of narrative points to request (3-5 recommended)
  * @returns Narrative analysis with bullet points
  */
@@ -17,9 +18,7 @@ export async function fetchNarrative(
   company: string,
   points = 5
 ): Promise<NarrativeAnalysis> {
-  if (!process.env.PERPLEXITY_API_KEY) {
-    throw new Error("Missing PERPLEXITY_API_KEY environment variable");
-  }
+  const entity = resolveEntity(company);
 
   // Configure messages for narrative generation
   const messages: Message[] = [
@@ -30,7 +29,7 @@ export async function fetchNarrative(
     },
     {
       role: "user",
-      content: `Company: ${company}\nReturn ${points} bullet points about recent media coverage.`
+      content: `Company: ${entityLabel(entity)}\nReturn ${points} bullet points about recent media coverage.`
     }
   ];
 
@@ -70,51 +69,38 @@ export async function fetchNarrative(
 
   try {
     // Make request to Perplexity API
-    const response = await fetch(PERPLEXITY_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${process.env.PERPLEXITY_API_KEY}`
-      },
-      body: JSON.stringify(requestBody)
-    });
-
-    // Handle error responses
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("Sonar API error:", errorText);
-      throw new Error(`Narrative fetch failed (${response.status})`);
-    }
-
-    // Parse the response
-    const result = await response.json() as SonarResponse;
-
-    // Ensure we have a valid response
-    if (!result.choices?.length || !result.choices[0]?.message?.content) {
-      throw new Error("Invalid or empty response from Perplexity API");
-    }
+    const result = await sonarClient.complete(requestBody);
+    const content = getContent(result);
+    const citations = toCitations(result);
 
     // Parse and extract the narratives from the JSON response
     try {
-      const parsedContent = JSON.parse(result.choices[0].message.content) as {
+      const parsedContent = JSON.parse(content) as {
         narratives: string[];
       };
 
+      const narratives = parsedContent.narratives.filter(Boolean);
       return {
-        company,
-        narratives: parsedContent.narratives.filter(Boolean)
+        company: entity.ticker,
+        narratives,
+        citations,
+        bulletCitations: mapCitations(narratives, citations)
       };
     } catch (parseError) {
       console.error("Failed to parse JSON response:", parseError);
 
       // Fallback: If JSON parsing fails, try to extract content directly
-      const content = result.choices[0].message.content;
       const lines = content
         .split(/\r?\n/)
         .map(line => line.replace(/^[-•*]\s*/, "").trim())
         .filter(line => line.length > 0);
 
-      return { company, narratives: lines };
+      return {
+        company: entity.ticker,
+        narratives: lines,
+        citations,
+        bulletCitations: mapCitations(lines, citations)
+      };
     }
   } catch (error: any) {
     console.error("Error fetching narrative:", error);
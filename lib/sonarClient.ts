@@ -0,0 +1,268 @@
+// lib/sonarClient.ts
+import { PERPLEXITY_URL, SONAR_TIMEOUT_MS } from "./sonarConfig";
+import { createCassetteFetch } from "./cassette";
+import type {
+  SonarRequest,
+  SonarResponse,
+  StreamChunk
+} from "@/types/perplexity";
+
+/**
+ * Function used to reach the Sonar API. Matches the `fetch` signature so a
+ * recorded or fake backend can be injected in tests and local development.
+ */
+export type SonarTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface SonarClientOptions {
+  apiKey?: string;       // Defaults to PERPLEXITY_API_KEY at request time
+  url?: string;          // Defaults to PERPLEXITY_URL
+  timeoutMs?: number;    // Defaults to SONAR_TIMEOUT_MS
+  transport?: SonarTransport;
+}
+
+export interface SonarCallOptions {
+  signal?: AbortSignal;
+}
+
+// A single typed content delta from a streamed completion
+export interface SonarDelta {
+  content: string;
+  finishReason: string | null;
+  chunk: StreamChunk;
+}
+
+// How much of an unparseable response body an error keeps
+const BODY_SNIPPET_LENGTH = 500;
+
+/**
+ * Error raised for any non-2xx, timed out or unreadable Sonar API call
+ */
+export class SonarApiError extends Error {
+  readonly status: number;
+  readonly details: string;
+  readonly endpoint: string;
+
+  constructor(message: string, status: number, details: string, endpoint: string) {
+    super(message);
+    this.name = "SonarApiError";
+    this.status = status;
+    this.details = details;
+    this.endpoint = endpoint;
+  }
+}
+
+/**
+ * Returns the assistant message content of a non-streamed response
+ */
+export function getContent(response: SonarResponse): string {
+  return response.choices?.[0]?.message?.content ?? "";
+}
+
+/**
+ * Typed client for Perplexity's Sonar chat completions API.
+ * All routes and helpers go through this class so auth, timeouts and
+ * error handling behave the same everywhere.
+ */
+export class SonarClient {
+  readonly url: string;
+  private readonly apiKey?: string;
+  private readonly timeoutMs: number;
+  private readonly transport: SonarTransport;
+
+  constructor(options: SonarClientOptions = {}) {
+    this.url = options.url ?? PERPLEXITY_URL;
+    this.apiKey = options.apiKey;
+    this.timeoutMs = options.timeoutMs ?? SONAR_TIMEOUT_MS;
+    this.transport = options.transport ?? ((url, init) => fetch(url, init));
+  }
+
+  /**
+   * Runs a non-streamed completion
+   * @param request Sonar request body (`stream` is forced off)
+   * @returns The parsed Sonar response
+   */
+  async complete(
+    request: SonarRequest,
+    options: SonarCallOptions = {}
+  ): Promise<SonarResponse> {
+    const response = await this.send({ ...request, stream: false }, options.signal);
+    const text = await response.text();
+
+    let result: SonarResponse;
+    try {
+      result = JSON.parse(text) as SonarResponse;
+    } catch {
+      throw new SonarApiError(
+        `Perplexity API returned a response that is not JSON (${response.status})`,
+        502,
+        text.slice(0, BODY_SNIPPET_LENGTH),
+        this.url
+      );
+    }
+
+    if (!result.choices?.length || !result.choices[0]?.message?.content) {
+      throw new SonarApiError(
+        "Invalid or empty response from Perplexity API",
+        502,
+        JSON.stringify(result),
+        this.url
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Opens a streamed completion and returns the raw SSE byte stream,
+   * for routes that proxy the stream straight to the browser
+   * @param request Sonar request body (`stream` is forced on)
+   */
+  async openStream(
+    request: SonarRequest,
+    options: SonarCallOptions = {}
+  ): Promise<ReadableStream<Uint8Array>> {
+    const response = await this.send({ ...request, stream: true }, options.signal);
+
+    if (!response.body) {
+      throw new SonarApiError(
+        "No response stream received from Perplexity",
+        502,
+        "",
+        this.url
+      );
+    }
+
+    return response.body;
+  }
+
+  /**
+   * Runs a streamed completion and yields typed content deltas
+   * @param request Sonar request body (`stream` is forced on)
+   */
+  async *stream(
+    request: SonarRequest,
+    options: SonarCallOptions = {}
+  ): AsyncGenerator<SonarDelta> {
+    const body = await this.openStream(request, options);
+    yield* this.deltas(body, options.signal);
+  }
+
+  /**
+   * Parses a stream opened with openStream into typed content deltas,
+   * for routes that need to handle API errors before the response starts
+   * @param body Raw SSE byte stream from openStream
+   * @param signal Stops reading when the caller aborts mid-stream
+   */
+  async *deltas(body: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<SonarDelta> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder("utf-8");
+    let buffer = "";
+    let drained = false;
+
+    const onAbort = () => reader.cancel().catch(() => {});
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          drained = true;
+          break;
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          if (!line.startsWith("data:")) continue;
+
+          const data = line.slice(5).trim();
+          if (data === "[DONE]") return;
+
+          let chunk: StreamChunk;
+          try {
+            chunk = JSON.parse(data) as StreamChunk;
+          } catch {
+            console.warn("Failed to parse Sonar stream chunk:", data);
+            continue;
+          }
+
+          const choice = chunk.choices?.[0];
+          yield {
+            content: choice?.delta?.content ?? "",
+            finishReason: choice?.finish_reason ?? null,
+            chunk
+          };
+        }
+      }
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+      // [DONE] or a consumer that stopped iterating leaves the response open
+      if (!drained) await reader.cancel().catch(() => {});
+      reader.releaseLock();
+    }
+  }
+
+  /**
+   * Sends the request with auth headers and a timeout, throwing
+   * SonarApiError for any non-2xx response
+   */
+  private async send(request: SonarRequest, signal?: AbortSignal): Promise<Response> {
+    const apiKey = this.apiKey ?? process.env.PERPLEXITY_API_KEY;
+    if (!apiKey) {
+      throw new Error("Missing PERPLEXITY_API_KEY environment variable");
+    }
+
+    // Abort on timeout or when the caller's signal fires before the response arrives;
+    // deltas() takes over the signal for a streamed body
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    let response: Response;
+    try {
+      response = await this.transport(this.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${apiKey}`
+        },
+        body: JSON.stringify(request),
+        signal: controller.signal
+      });
+    } catch (error: any) {
+      if (controller.signal.aborted && !signal?.aborted) {
+        throw new SonarApiError(
+          `Perplexity API timed out after ${this.timeoutMs}ms`,
+          504,
+          "",
+          this.url
+        );
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`Perplexity API error (${response.status}):`, errorText);
+      throw new SonarApiError(
+        `Perplexity API error (${response.status})`,
+        response.status,
+        errorText,
+        this.url
+      );
+    }
+
+    return response;
+  }
+}
+
+// Shared client used by routes and helpers (records/replays when CASSETTE_MODE is set)
+export const sonarClient = new SonarClient({
+  transport: createCassetteFetch("sonar")
+});
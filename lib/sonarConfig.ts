@@ -10,6 +10,12 @@
  */
 export const PERPLEXITY_URL = process.env.PERPLEXITY_API_URL || "https://api.perplexity.ai/chat/completions";
 
+/**
+ * How long to wait for the Sonar API to start responding before giving up.
+ * For streamed requests this only covers the time until headers arrive.
+ */
+export const SONAR_TIMEOUT_MS = Number(process.env.PERPLEXITY_TIMEOUT_MS) || 60_000;
+
 /**
  * Default model to use for company narrative analysis
  * 'sonar-pro' is recommended for best information retrieval
@@ -1,34 +1,76 @@
 // lib/sonarFinancial.ts
-import { PERPLEXITY_URL } from "./sonarConfig";
+import { sonarClient, getContent } from "./sonarClient";
+import { toCitations } from "./citations";
+import { entityLabel, entityDomains, type ResolvedEntity } from "./entities";
 import type {
+  Citation,
   SonarRequest,
-  SonarResponse,
+  ResponseSchema,
   Message
 } from "@/types/perplexity";
 
 export interface FinancialReality {
-  company: string;
+  company: string;  // Canonical ticker
   fundamentals: string[];
   risks: string[];
   trends: string[];
   source: string;  // Source of the financial data (10-K, 10-Q, earnings call, etc.)
   date: string;    // Date of the most recent financial filing/data
+  citations?: Citation[];  // Sources Sonar grounded the answer on
 }
 
+// A single fundamental, risk or trend from the structured financial stream
+export interface FinancialItem {
+  text: string;              // Concise explanation of the metric/risk/trend
+  significance: string;      // Why it matters to investors
+  sourceUrl: string | null;  // URL of the supporting document
+  filing: string | null;     // Filing reference, e.g. "10-Q Q1 2025"
+  citations?: number[];      // Footnote numbers, resolved client-side from markers or sourceUrl
+}
+
+const FINANCIAL_ITEM_SCHEMA = {
+  type: "object",
+  properties: {
+    text: { type: "string" },
+    significance: { type: "string" },
+    sourceUrl: { type: ["string", "null"] },
+    filing: { type: ["string", "null"] }
+  },
+  required: ["text", "significance", "sourceUrl", "filing"]
+};
+
+const financialItemList = {
+  type: "array",
+  items: FINANCIAL_ITEM_SCHEMA,
+  minItems: 5,
+  maxItems: 5
+};
+
+/**
+ * JSON schema requested from Sonar by the financial stream route
+ */
+export const FINANCIAL_STREAM_SCHEMA: ResponseSchema = {
+  type: "object",
+  properties: {
+    fundamentals: financialItemList,
+    risks: financialItemList,
+    trends: financialItemList,
+    source: { type: "string" },
+    date: { type: "string" }
+  },
+  required: ["fundamentals", "risks", "trends", "source", "date"]
+};
+
 /**
  * Fetches financial reality (fundamentals, risks, trends) for a company
  * using Perplexity Sonar API with filters to focus on official financial sources
  *
- * @param company Company name or ticker symbol to analyze
+ * @param entity Resolved company to analyze
  * @returns FinancialReality object with financial information
  */
 export async function fetchFinancialReality(
-  company: string
+  entity: ResolvedEntity
 ): Promise<FinancialReality> {
-  if (!process.env.PERPLEXITY_API_KEY) {
-    throw new Error("Missing PERPLEXITY_API_KEY environment variable");
-  }
-
   // Configure messages for financial data extraction
   const messages: Message[] = [
     {
@@ -54,7 +96,7 @@ Return the data in JSON format with the following structure:
     },
     {
       role: "user",
-      content: `Company: ${company}
+      content: `Company: ${entityLabel(entity)}
 
 Extract the financial reality (fundamentals, risks, trends) from the most recent official financial filings or earnings reports.`
     }
@@ -71,7 +113,7 @@ Extract the financial reality (fundamentals, risks, trends) from the most recent
         allow: [
           "sec.gov",       // SEC filings
           "investor.gov",  // Investor information
-          `${company.toLowerCase()}.com`, // Company website (approximate)
+          ...entityDomains(entity), // Company and investor relations websites
           "bloomberg.com", // Financial news
           "wsj.com",       // Financial news
           "reuters.com",   // Financial news
@@ -94,37 +136,15 @@ Extract the financial reality (fundamentals, risks, trends) from the most recent
 
   try {
     // Make request to Perplexity API
-    const response = await fetch(PERPLEXITY_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${process.env.PERPLEXITY_API_KEY}`
-      },
-      body: JSON.stringify(requestBody)
-    });
-
-    // Handle error responses
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("Sonar API error:", errorText);
-      throw new Error(`Financial data fetch failed (${response.status})`);
-    }
-
-    // Parse the response
-    const result = await response.json() as SonarResponse;
-
-    // Ensure we have a valid response
-    if (!result.choices?.length || !result.choices[0]?.message?.content) {
-      throw new Error("Invalid or empty response from Perplexity API");
-    }
+    const result = await sonarClient.complete(requestBody);
+    const content = getContent(result);
+    const citations = toCitations(result);
 
     // Parse and extract the financial data from the JSON response
     try {
-      const contentStr = result.choices[0].message.content;
-
       // Try to extract JSON if it's wrapped in backticks
-      let jsonStr = contentStr;
-      const jsonMatch = contentStr.match(/```json\s*([\s\S]*?)\s*```/);
+      let jsonStr = content;
+      const jsonMatch = content.match(/```json\s*([\s\S]*?)\s*```/);
       if (jsonMatch && jsonMatch[1]) {
         jsonStr = jsonMatch[1];
       }
@@ -133,21 +153,19 @@ Extract the financial reality (fundamentals, risks, trends) from the most recent
 
       // Create a default structure if any fields are missing
       const defaultData: FinancialReality = {
-        company,
+        company: entity.ticker,
         fundamentals: financialData.fundamentals || ["No fundamental data available"],
         risks: financialData.risks || ["No risk data available"],
         trends: financialData.trends || ["No trend data available"],
         source: financialData.source || "Recent financial data",
-        date: financialData.date || new Date().toISOString().split('T')[0]
+        date: financialData.date || new Date().toISOString().split('T')[0],
+        citations
       };
 
       return defaultData;
     } catch (parseError) {
       console.error("Failed to parse JSON response:", parseError);
 
-      // Extract content as plain text if JSON parsing fails
-      const content = result.choices[0].message.content;
-
       // Try to extract sections using regex
       const fundamentalsMatch = content.match(/Fundamentals:?([\s\S]*?)(?=Risks:|Trends:|$)/i);
       const risksMatch = content.match(/Risks:?([\s\S]*?)(?=Fundamentals:|Trends:|$)/i);
@@ -164,12 +182,13 @@ Extract the financial reality (fundamentals, risks, trends) from the most recent
 
       // Build fallback financial data
       const fallbackData: FinancialReality = {
-        company,
+        company: entity.ticker,
         fundamentals: extractBullets(fundamentalsMatch?.[1]),
         risks: extractBullets(risksMatch?.[1]),
         trends: extractBullets(trendsMatch?.[1]),
         source: "Data extracted from recent financial reports",
-        date: new Date().toISOString().split('T')[0]
+        date: new Date().toISOString().split('T')[0],
+        citations
       };
 
       return fallbackData;
@@ -0,0 +1,352 @@
+// lib/streamParser.ts
+/**
+ * Incremental parsers for streamed model output.
+ *
+ * Each parser consumes content deltas exactly once and emits structural
+ * events, so hooks can update state without re-parsing the whole response
+ * on every token. Two modes are supported:
+ * - markdown bullets (one bullet per line, optional section headings)
+ * - partial JSON (top-level keys are sections, array items are bullets)
+ */
+
+export interface CitationRef {
+  marker?: number; // Footnote number for "[1]"-style markers
+  url?: string;
+  title?: string;
+}
+
+export type StreamParserEvent<TBullet> =
+  | { type: "sectionChanged"; section: string }
+  | { type: "bulletStarted"; section: string | null; index: number; bullet: TBullet }
+  | { type: "bulletUpdated"; section: string | null; index: number; bullet: TBullet }
+  | { type: "bulletCompleted"; section: string | null; index: number; bullet: TBullet }
+  | { type: "fieldCompleted"; key: string; value: unknown }
+  | { type: "citationFound"; section: string | null; index: number; citation: CitationRef };
+
+export interface StreamParser<TBullet> {
+  /** Consumes a content delta and returns the events it produced */
+  push(delta: string): StreamParserEvent<TBullet>[];
+  /** Flushes any trailing partial line or value */
+  end(): StreamParserEvent<TBullet>[];
+}
+
+// ---------------------------------------------------------------------------
+// Markdown bullets
+// ---------------------------------------------------------------------------
+
+export interface MarkdownBullet {
+  text: string;  // Bullet text without markers or the trailing source link
+  source?: {
+    url: string;
+    title: string;
+  };
+  raw: string;   // The bullet text with markdown
+}
+
+export interface MarkdownParserOptions {
+  /** Headings (e.g. "Fundamentals") that switch sections instead of starting bullets */
+  headings?: string[];
+}
+
+const BULLET_MARKER = /^[-•*\d.\s)]+\s*/;
+const MARKDOWN_LINK = /\[([^\]]+)\]\(([^)]+)\)/g;
+const FOOTNOTE_MARKER = /\[(\d{1,2})\](?!\()/g;
+
+function toMarkdownBullet(cleanLine: string): MarkdownBullet {
+  // Look for Markdown-style links: [Title](URL)
+  const linkMatch = cleanLine.match(/\[([^\]]+)\]\(([^)]+)\)/);
+  if (!linkMatch) return { text: cleanLine, raw: cleanLine };
+
+  const textBeforeLink = cleanLine.substring(0, linkMatch.index).trim();
+  return {
+    text: textBeforeLink || cleanLine,
+    source: { title: linkMatch[1], url: linkMatch[2] },
+    raw: cleanLine
+  };
+}
+
+/**
+ * Creates a parser that turns streamed markdown into bullets, one per line
+ */
+export function createMarkdownBulletParser(
+  options: MarkdownParserOptions = {}
+): StreamParser<MarkdownBullet> {
+  const headings = (options.headings ?? []).map(h => h.toLowerCase());
+  let line = "";
+  let section: string | null = null;
+  const indexBySection = new Map<string | null, number>();
+  // State of the line currently being streamed
+  let lineIndex: number | null = null;
+
+  const headingOf = (text: string): string | null => {
+    const name = text.replace(/^[#*\s]+/, "").replace(/[*:\s]+$/, "").toLowerCase();
+    return headings.includes(name) ? name : null;
+  };
+
+  const couldBeHeading = (text: string): boolean => {
+    const name = text.replace(/^[#*\s]+/, "").toLowerCase();
+    return headings.some(h => h.startsWith(name.replace(/[*:\s]+$/, "")) && /^[a-z\s]*[*:\s]*$/.test(name));
+  };
+
+  const processLine = (complete: boolean): StreamParserEvent<MarkdownBullet>[] => {
+    const events: StreamParserEvent<MarkdownBullet>[] = [];
+    const trimmed = line.trim();
+    if (!trimmed) return events;
+
+    if (headings.length > 0) {
+      const heading = complete ? headingOf(trimmed) : null;
+      if (heading) {
+        section = heading;
+        events.push({ type: "sectionChanged", section: heading });
+        return events;
+      }
+      // Hold back lines that may still turn into a heading
+      if (!complete && lineIndex === null && couldBeHeading(trimmed)) return events;
+    }
+
+    const cleanLine = trimmed.replace(BULLET_MARKER, "").trim();
+    if (!cleanLine) return events;
+
+    const bullet = toMarkdownBullet(cleanLine);
+
+    if (lineIndex === null) {
+      lineIndex = indexBySection.get(section) ?? 0;
+      indexBySection.set(section, lineIndex + 1);
+      events.push({ type: "bulletStarted", section, index: lineIndex, bullet });
+    } else {
+      events.push({ type: "bulletUpdated", section, index: lineIndex, bullet });
+    }
+
+    if (complete) {
+      events.push({ type: "bulletCompleted", section, index: lineIndex, bullet });
+
+      // Report citations once the line is final so partial links are skipped
+      for (const match of cleanLine.matchAll(MARKDOWN_LINK)) {
+        events.push({
+          type: "citationFound",
+          section,
+          index: lineIndex,
+          citation: { title: match[1], url: match[2] }
+        });
+      }
+      for (const match of cleanLine.matchAll(FOOTNOTE_MARKER)) {
+        events.push({
+          type: "citationFound",
+          section,
+          index: lineIndex,
+          citation: { marker: Number(match[1]) }
+        });
+      }
+    }
+
+    return events;
+  };
+
+  return {
+    push(delta) {
+      const events: StreamParserEvent<MarkdownBullet>[] = [];
+      const parts = delta.split(/\r?\n/);
+
+      for (let i = 0; i < parts.length; i++) {
+        line += parts[i];
+        const complete = i < parts.length - 1;
+        if (!complete) break;
+
+        events.push(...processLine(true));
+        line = "";
+        lineIndex = null;
+      }
+
+      // Update the bullet for the line still streaming
+      if (line.trim()) events.push(...processLine(false));
+      return events;
+    },
+
+    end() {
+      const events = processLine(true);
+      line = "";
+      lineIndex = null;
+      return events;
+    }
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Partial JSON
+// ---------------------------------------------------------------------------
+
+type JsonBullet = Record<string, unknown>;
+
+/**
+ * Creates a parser for streamed JSON shaped like
+ * `{ "<section>": [ { ...item }, ... ], "<field>": <scalar> }`.
+ * Top-level arrays are sections, their elements are bullets and
+ * top-level scalars are reported with fieldCompleted.
+ */
+export function createJsonStreamParser(): StreamParser<JsonBullet> {
+  const stack: Array<"object" | "array"> = [];
+  let started = false;
+  let finished = false;
+
+  // Tokenizer state
+  let inString = false;
+  let escape = false;
+  let unicode: string | null = null;
+  let stringIsKey = false;
+  let text = "";
+  let literal = "";
+  let expectKey = false;
+
+  // Structure state
+  let rootKey: string | null = null;
+  let section: string | null = null;
+  let index = -1;
+  let item: JsonBullet | null = null;
+  let itemKey: string | null = null;
+
+  let events: StreamParserEvent<JsonBullet>[] = [];
+
+  const onKey = (key: string) => {
+    if (stack.length === 1) rootKey = key;
+    else if (stack.length === 3 && item) itemKey = key;
+  };
+
+  const onValue = (value: unknown) => {
+    const depth = stack.length;
+
+    if (depth === 1 && rootKey) {
+      events.push({ type: "fieldCompleted", key: rootKey, value });
+    } else if (depth === 2 && section !== null) {
+      // Array of plain values: each one is a complete bullet
+      index++;
+      const bullet = { text: value };
+      events.push({ type: "bulletStarted", section, index, bullet });
+      events.push({ type: "bulletCompleted", section, index, bullet });
+    } else if (depth === 3 && item && itemKey) {
+      item = { ...item, [itemKey]: value };
+      events.push({ type: "bulletUpdated", section, index, bullet: item });
+
+      if (typeof value === "string" && /url$/i.test(itemKey) && value) {
+        events.push({
+          type: "citationFound",
+          section,
+          index,
+          citation: { url: value, title: typeof item.filing === "string" ? item.filing : undefined }
+        });
+      }
+    }
+  };
+
+  const flushLiteral = () => {
+    if (!literal) return;
+    const value = literal === "true" ? true
+      : literal === "false" ? false
+      : literal === "null" ? null
+      : Number(literal);
+    literal = "";
+    expectKey = false;
+    onValue(value);
+  };
+
+  const consume = (char: string) => {
+    if (inString) {
+      if (unicode !== null) {
+        unicode += char;
+        if (unicode.length === 4) {
+          text += String.fromCharCode(parseInt(unicode, 16));
+          unicode = null;
+        }
+      } else if (escape) {
+        escape = false;
+        if (char === "u") unicode = "";
+        else text += ({ n: "\n", t: "\t", r: "\r", b: "\b", f: "\f" } as Record<string, string>)[char] ?? char;
+      } else if (char === "\\") {
+        escape = true;
+      } else if (char === '"') {
+        inString = false;
+        expectKey = false;
+        if (stringIsKey) onKey(text);
+        else onValue(text);
+      } else {
+        text += char;
+      }
+      return;
+    }
+
+    if (/[\w.+-]/.test(char)) {
+      literal += char;
+      return;
+    }
+    flushLiteral();
+
+    const top = stack[stack.length - 1];
+    switch (char) {
+      case "{":
+        stack.push("object");
+        expectKey = true;
+        if (stack.length === 3 && section !== null) {
+          index++;
+          item = {};
+          itemKey = null;
+          events.push({ type: "bulletStarted", section, index, bullet: item });
+        }
+        break;
+      case "}":
+        if (stack.length === 3 && item) {
+          events.push({ type: "bulletCompleted", section, index, bullet: item });
+          item = null;
+        }
+        stack.pop();
+        expectKey = false;
+        if (stack.length === 0) finished = true;
+        break;
+      case "[":
+        stack.push("array");
+        expectKey = false;
+        if (stack.length === 2 && rootKey) {
+          section = rootKey;
+          index = -1;
+          events.push({ type: "sectionChanged", section });
+        }
+        break;
+      case "]":
+        stack.pop();
+        expectKey = false;
+        if (stack.length === 1) section = null;
+        if (stack.length === 0) finished = true;
+        break;
+      case ",":
+        expectKey = top === "object";
+        break;
+      case '"':
+        inString = true;
+        stringIsKey = top === "object" && expectKey;
+        text = "";
+        break;
+      default:
+        // Whitespace and ':' carry no structure
+        break;
+    }
+  };
+
+  return {
+    push(delta) {
+      events = [];
+      for (const char of delta) {
+        if (finished) break;
+        if (!started) {
+          if (char !== "{" && char !== "[") continue;
+          started = true;
+        }
+        consume(char);
+      }
+      return events;
+    },
+
+    end() {
+      events = [];
+      flushLiteral();
+      return events;
+    }
+  };
+}
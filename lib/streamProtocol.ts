@@ -0,0 +1,142 @@
+// lib/streamProtocol.ts
+/**
+ * Event protocol spoken by the app's own streaming routes.
+ *
+ * Every frame is a named SSE event carrying JSON data:
+ *
+ *   event: delta
+ *   data: {"content":"• Overall sentiment: "}
+ *
+ * - meta: what the stream is about; may be sent again as more is known, and merges
+ * - progress: Reddit collection progress, before any content
+ * - delta: the next piece of generated content
+ * - citation: numbered sources for the content, replacing any earlier list
+ * - section: content moved into a named section (e.g. "risks")
+ * - warning: something degraded but the stream continues
+ * - error: the stream failed; nothing follows
+ * - done: the stream finished, with results that need the full content
+ *
+ * Routes encode with `encodeEvent`; hooks decode with `decodeEvent`, usually by
+ * spreading PROTOCOL_STREAM_OPTIONS into their useSseStream options.
+ */
+import type { Citation } from "@/types/perplexity";
+import type { CollectionProgress } from "./redditClient";
+import type { VerificationReport } from "./figureVerifier";
+import type { CacheStatus } from "./cache";
+import type { ResolvedEntity } from "./entities";
+import type { SentimentBreakdown } from "./sentiment";
+
+export type StreamDataSource =
+  | "reddit-perplexity-synthesis"  // Reddit posts collected by us, analyzed by Sonar
+  | "perplexity-search-fallback"   // Sonar searched Reddit itself
+  | "sonar";                       // Plain Sonar completion
+
+export interface StreamMeta {
+  company?: string;         // Canonical ticker the stream is about
+  entity?: ResolvedEntity;  // What the requested company resolved to
+  dataSource?: StreamDataSource;
+  cache?: CacheStatus;
+  window?: string;          // Date window the content covers, e.g. "90d"
+  totalPosts?: number;      // Reddit posts sent to the model
+  subredditCount?: number;
+  sentiment?: SentimentBreakdown;  // Computed breakdown behind the headline percentages
+}
+
+export interface StreamDelta {
+  content: string;
+}
+
+export interface StreamCitations {
+  citations: Citation[];
+}
+
+export interface StreamSection {
+  name: string;
+}
+
+export interface StreamWarning {
+  code: string;     // Stable identifier, e.g. "reddit_unavailable"
+  message: string;  // Human readable explanation
+}
+
+export interface StreamFailure {
+  code: string;
+  message: string;
+}
+
+export interface StreamDone {
+  finishReason: string | null;      // Upstream finish reason, null if the model stopped without one
+  verification?: VerificationReport; // Figure checks for narrative content
+}
+
+// Payload of each event type
+export interface StreamEventMap {
+  meta: StreamMeta;
+  progress: CollectionProgress;
+  delta: StreamDelta;
+  citation: StreamCitations;
+  section: StreamSection;
+  warning: StreamWarning;
+  error: StreamFailure;
+  done: StreamDone;
+}
+
+export type StreamEventType = keyof StreamEventMap;
+
+export type StreamEvent = {
+  [K in StreamEventType]: { type: K; data: StreamEventMap[K] };
+}[StreamEventType];
+
+// Sends one event; implemented by the route's response stream
+export type EventSender = <K extends StreamEventType>(type: K, data: StreamEventMap[K]) => void;
+
+export const STREAM_EVENT_TYPES: readonly StreamEventType[] = [
+  "meta",
+  "progress",
+  "delta",
+  "citation",
+  "section",
+  "warning",
+  "error",
+  "done"
+];
+
+const isEventType = (event: string): event is StreamEventType =>
+  (STREAM_EVENT_TYPES as readonly string[]).includes(event);
+
+/**
+ * Encodes an event as an SSE frame
+ *
+ * @param id SSE event id, which a reconnecting client sends back as its cursor
+ */
+export function encodeEvent<K extends StreamEventType>(type: K, data: StreamEventMap[K], id?: string): string {
+  const idLine = id === undefined ? "" : `id: ${id}\n`;
+  return `${idLine}event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Decodes an SSE frame into a typed event
+ *
+ * @param data The frame's data
+ * @param event The frame's event name
+ * @throws Error for events outside the protocol or data that is not an object
+ */
+export function decodeEvent(data: string, event: string): StreamEvent {
+  if (!isEventType(event)) {
+    throw new Error(`Unknown stream event "${event}"`);
+  }
+
+  const payload = JSON.parse(data);
+  if (typeof payload !== "object" || payload === null) {
+    throw new Error(`Invalid data for stream event "${event}"`);
+  }
+
+  return { type: event, data: payload } as StreamEvent;
+}
+
+// useSseStream options for consuming a protocol stream
+export const PROTOCOL_STREAM_OPTIONS = {
+  parse: decodeEvent,
+  isTerminal: (message: StreamEvent) => message.type === "done",
+  getError: (message: StreamEvent) => (message.type === "error" ? message.data.message : null)
+};
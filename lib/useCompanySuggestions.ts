@@ -0,0 +1,50 @@
+// lib/useCompanySuggestions.ts
+import { useEffect, useState } from "react";
+import useSWR from "swr";
+import type { CompanySuggestion } from "./entities";
+
+// Wait for a pause in typing before querying
+const DEBOUNCE_MS = 150;
+
+/**
+ * Fetches autocomplete suggestions from /api/companies
+ *
+ * @param query Partial ticker or company name
+ * @param limit Maximum number of suggestions
+ */
+export async function fetchCompanySuggestions(query: string, limit = 8): Promise<CompanySuggestion[]> {
+  const res = await fetch(`/api/companies?q=${encodeURIComponent(query)}&limit=${limit}`);
+  if (!res.ok) {
+    throw new Error(`HTTP error ${res.status}`);
+  }
+  const data = await res.json();
+  return data.results;
+}
+
+/**
+ * Custom hook for company autocomplete as the user types
+ * Debounces the query and uses SWR so repeated prefixes are served from cache
+ *
+ * @param query What the user has typed so far
+ * @param enabled Set false to stop fetching, e.g. while the input is not focused
+ * @returns Suggestions for the latest settled query, and whether they are loading
+ */
+export function useCompanySuggestions(query: string, enabled = true) {
+  const [debounced, setDebounced] = useState(query.trim());
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(query.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const { data, isLoading } = useSWR(
+    enabled && debounced ? ["companies", debounced] : null,
+    ([, q]: [string, string]) => fetchCompanySuggestions(q),
+    { keepPreviousData: true, revalidateOnFocus: false }
+  );
+
+  return {
+    suggestions: enabled && query.trim() ? data ?? [] : [],
+    isLoading
+  };
+}
@@ -0,0 +1,48 @@
+// lib/useDivergence.ts
+import useSWR from "swr";
+import type { ComparisonResult, DivergenceInput, DivergenceMode } from "./divergence";
+
+/**
+ * Scores narrative bullets against financial sections with /api/divergence
+ *
+ * @param input Narrative bullets and financial sections
+ * @param version Algorithm version, or the server default
+ * @param mode "heuristic" scores with an algorithm; "model" asks Sonar for a judgment
+ */
+export async function fetchDivergence(
+  input: DivergenceInput,
+  version?: string,
+  mode: DivergenceMode = "heuristic"
+): Promise<ComparisonResult> {
+  const res = await fetch("/api/divergence", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...input, version, mode })
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => null);
+    throw new Error(data?.error || `HTTP error ${res.status}`);
+  }
+  return res.json();
+}
+
+/**
+ * Custom hook for the divergence between a narrative and the financial reality
+ * Results are cached by input and mode, so re-renders or toggling back don't refetch
+ *
+ * @param input What to compare, or null to stay idle
+ * @returns The result, loading state and error
+ */
+export function useDivergence(input: DivergenceInput | null, version?: string, mode: DivergenceMode = "heuristic") {
+  const { data, error, isLoading } = useSWR(
+    input ? ["divergence", JSON.stringify(input), version ?? "", mode] : null,
+    ([, body, v, m]: [string, string, string, DivergenceMode]) => fetchDivergence(JSON.parse(body), v || undefined, m),
+    { revalidateOnFocus: false }
+  );
+
+  return {
+    comparison: data ?? null,
+    isLoading,
+    error: error ? (error as Error).message : null
+  };
+}
@@ -0,0 +1,88 @@
+// lib/useSnapshots.ts
+import useSWR from "swr";
+import type { DivergenceSeries, SnapshotSummary } from "./snapshots";
+import type { AnalysisOptions } from "./analysisOptions";
+
+/**
+ * Fetches the stored analyses of a company from /api/snapshots, newest first
+ */
+export async function fetchSnapshots(company: string): Promise<SnapshotSummary[]> {
+  const res = await fetch(`/api/snapshots?company=${encodeURIComponent(company)}`);
+  if (!res.ok) {
+    throw new Error(`HTTP error ${res.status}`);
+  }
+  const data = await res.json();
+  return data.snapshots;
+}
+
+/**
+ * Stores the finished analysis of a company as a snapshot
+ *
+ * @returns The snapshot, which is the existing one if this run was already stored
+ */
+export async function saveSnapshot(company: string, options: AnalysisOptions): Promise<SnapshotSummary> {
+  const res = await fetch("/api/snapshots", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ company, ...options })
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => null);
+    throw new Error(data?.error || `HTTP error ${res.status}`);
+  }
+  const data = await res.json();
+  return data.snapshot;
+}
+
+/**
+ * Custom hook for the analysis history of a company
+ *
+ * @param company Canonical ticker, or null to stay idle
+ * @returns Snapshot summaries, loading state, and `refresh` to reload after a save
+ */
+export function useSnapshotHistory(company: string | null) {
+  const { data, error, isLoading, mutate } = useSWR(
+    company ? ["snapshots", company] : null,
+    ([, ticker]: [string, string]) => fetchSnapshots(ticker),
+    { revalidateOnFocus: false }
+  );
+
+  return {
+    snapshots: data ?? [],
+    isLoading,
+    error: error ? (error as Error).message : null,
+    refresh: () => mutate()
+  };
+}
+
+/**
+ * Fetches the divergence series of a company from /api/divergence/history
+ */
+export async function fetchDivergenceHistory(company: string): Promise<DivergenceSeries> {
+  const res = await fetch(`/api/divergence/history?company=${encodeURIComponent(company)}`);
+  if (!res.ok) {
+    throw new Error(`HTTP error ${res.status}`);
+  }
+  return res.json();
+}
+
+/**
+ * Custom hook for the divergence score of a company over its stored runs
+ *
+ * @param company Canonical ticker, or null to stay idle
+ * @returns The series (null until loaded), loading state, and `refresh` to reload after a save
+ */
+export function useDivergenceHistory(company: string | null) {
+  const { data, error, isLoading, mutate } = useSWR(
+    company ? ["divergenceHistory", company] : null,
+    ([, ticker]: [string, string]) => fetchDivergenceHistory(ticker),
+    { revalidateOnFocus: false }
+  );
+
+  return {
+    series: data ?? null,
+    isLoading,
+    error: error ? (error as Error).message : null,
+    refresh: () => mutate()
+  };
+}
@@ -0,0 +1,378 @@
+// lib/useSseStream.ts
+import { useEffect, useRef, useState } from "react";
+
+// Why a stream failed, so callers can decide how to present it
+export type SseErrorCategory =
+  | "http"     // Server answered with a non-2xx status
+  | "network"  // Connection failed or closed before the stream finished
+  | "stall"    // No data arrived within the stall timeout
+  | "protocol" // Response was not a readable event stream
+  | "server";   // The stream itself reported an error
+
+export class SseStreamError extends Error {
+  constructor(
+    message: string,
+    public readonly category: SseErrorCategory,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = "SseStreamError";
+  }
+
+  /** Whether reconnecting could plausibly succeed */
+  get retryable(): boolean {
+    if (this.category === "http") return this.status === 429 || (this.status ?? 0) >= 500;
+    return this.category !== "protocol" && this.category !== "server";
+  }
+}
+
+export interface SseStreamOptions<T> {
+  /** Called for every parsed `data:` frame with its SSE event name ("message" by default) */
+  onMessage: (message: T, event: string) => void;
+  /**
+   * Called before a fresh stream starts: on the first connection and after a
+   * reconnect the server could not resume. Adapters reset their state here.
+   */
+  onReset?: () => void;
+  /** Called once when the stream has finished */
+  onDone?: () => void;
+  /** Parses a frame's data; defaults to JSON.parse */
+  parse?: (data: string, event: string) => T;
+  /** Whether a parsed frame ends the stream, in addition to [DONE] and finish_reason */
+  isTerminal?: (message: T, event: string) => boolean;
+  /** Error message carried by a parsed frame, which ends the stream as failed */
+  getError?: (message: T, event: string) => string | null;
+  /** Milliseconds without data before the connection is treated as stalled */
+  stallTimeoutMs?: number;
+  /** Reconnect attempts after a retryable failure */
+  maxRetries?: number;
+  /** Base delay for exponential backoff between reconnects */
+  retryDelayMs?: number;
+  /**
+   * Messages already available, e.g. prefetched by the server. When given they
+   * are replayed as a complete stream in place of fetching the URL.
+   */
+  initialMessages?: T[];
+}
+
+// Query param a reconnect uses to ask the server to resume after a cursor
+export const SSE_CURSOR_PARAM = "cursor";
+// Header the server echoes with the cursor when it resumed the stream
+export const SSE_RESUME_HEADER = "X-Stream-Cursor";
+
+const DEFAULT_STALL_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 1_000;
+
+/**
+ * Detects an OpenAI-style `finish_reason` on a parsed chunk
+ */
+function hasFinishReason(message: unknown): boolean {
+  const choices = (message as { choices?: Array<{ finish_reason?: string | null }> } | null)?.choices;
+  return Boolean(Array.isArray(choices) && choices[0]?.finish_reason);
+}
+
+/**
+ * Builds an error from a failed HTTP response, preferring the JSON error body
+ */
+async function toHttpError(response: Response): Promise<SseStreamError> {
+  let errorMessage = `HTTP error ${response.status}`;
+
+  try {
+    const errorText = await response.text();
+    try {
+      const errorData = JSON.parse(errorText);
+      errorMessage = errorData.error || errorData.details || errorMessage;
+      console.error("API Error:", errorData);
+    } catch {
+      // Fallback to text if not JSON
+      errorMessage = errorText || errorMessage;
+    }
+  } catch {
+    // Body could not be read; keep the status message
+  }
+
+  return new SseStreamError(errorMessage, "http", response.status);
+}
+
+function withCursor(url: string, cursor: string): string {
+  const [path, query = ""] = url.split("?");
+  const params = new URLSearchParams(query);
+  params.set(SSE_CURSOR_PARAM, cursor);
+  return `${path}?${params.toString()}`;
+}
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+/**
+ * Generic hook for consuming a server-sent event stream
+ * Handles buffering, [DONE] and finish_reason (or a custom terminal frame),
+ * error frames, stall detection and exponential-backoff reconnects that
+ * resume from the last SSE event id. A failure after frames arrived is only
+ * retried when the stream sent ids; if the server does not confirm the
+ * resume, the stream starts over from onReset
+ *
+ * @param url Stream URL, or null to stay idle
+ * @param options Frame handlers and tuning
+ * @returns Object with streaming state
+ */
+export function useSseStream<T = unknown>(url: string | null, options: SseStreamOptions<T>) {
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [isDone, setIsDone] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [errorCategory, setErrorCategory] = useState<SseErrorCategory | null>(null);
+  const [retries, setRetries] = useState<number>(0);
+
+  // Keep the latest handlers without restarting the stream when they change
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  useEffect(() => {
+    if (!url) return;
+
+    setIsLoading(true);
+    setIsDone(false);
+    setError(null);
+    setErrorCategory(null);
+    setRetries(0);
+
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    // Resume position: the last SSE event id the server sent
+    let lastEventId: string | null = null;
+    // Frames delivered to onMessage; without an id to resume from, a reconnect would duplicate them
+    let framesReceived = 0;
+    let finished = false;
+
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      optionsRef.current.onDone?.();
+      setIsDone(true);
+      setIsLoading(false);
+    };
+
+    // Reads one connection until it closes; resolves true if the stream completed
+    const readStream = async (body: ReadableStream<Uint8Array>, attempt: AbortController) => {
+      const { stallTimeoutMs = DEFAULT_STALL_TIMEOUT_MS } = optionsRef.current;
+      const reader = body.getReader();
+      const decoder = new TextDecoder("utf-8");
+      let buffer = "";
+      let eventName = "message";
+      let dataLines: string[] = [];
+      let eventId: string | null = null;
+      let completed = false;
+      let stalled = false;
+
+      let stallTimer = setTimeout(() => {
+        stalled = true;
+        attempt.abort();
+      }, stallTimeoutMs);
+      const resetStallTimer = () => {
+        clearTimeout(stallTimer);
+        stallTimer = setTimeout(() => {
+          stalled = true;
+          attempt.abort();
+        }, stallTimeoutMs);
+      };
+
+      let failure: SseStreamError | null = null;
+
+      const dispatch = () => {
+        const data = dataLines.join("\n").trim();
+        const event = eventName;
+        dataLines = [];
+        eventName = "message";
+        if (!data || failure) return;
+
+        // An id only counts once its event has been delivered
+        if (eventId !== null) lastEventId = eventId;
+        eventId = null;
+
+        if (data === "[DONE]") {
+          completed = true;
+          finish();
+          return;
+        }
+
+        framesReceived++;
+
+        try {
+          const { parse, onMessage, isTerminal, getError } = optionsRef.current;
+          const message = parse ? parse(data, event) : (JSON.parse(data) as T);
+
+          const errorMessage = getError?.(message, event);
+          if (errorMessage) {
+            failure = new SseStreamError(errorMessage, "server");
+            return;
+          }
+
+          onMessage(message, event);
+
+          if (isTerminal?.(message, event)) {
+            completed = true;
+            finish();
+            return;
+          }
+
+          // Trailing frames may still follow finish_reason, so keep reading
+          if (hasFinishReason(message)) completed = true;
+        } catch (e) {
+          console.warn("Failed to parse stream chunk:", data, e);
+        }
+      };
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          resetStallTimer();
+
+          // Decode chunk and add to buffer
+          buffer += decoder.decode(value, { stream: true });
+
+          // Process all complete SSE lines, keeping the last (potentially incomplete) one
+          const lines = buffer.split("\n");
+          buffer = lines.pop() || "";
+
+          for (const rawLine of lines) {
+            const line = rawLine.replace(/\r$/, "");
+
+            // A blank line ends the current event
+            if (!line) {
+              dispatch();
+              continue;
+            }
+            if (line.startsWith(":")) continue; // Comment / heartbeat
+
+            const separator = line.indexOf(":");
+            const field = separator === -1 ? line : line.slice(0, separator);
+            const fieldValue = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+
+            if (field === "data") dataLines.push(fieldValue);
+            else if (field === "event") eventName = fieldValue || "message";
+            else if (field === "id") eventId = fieldValue;
+          }
+
+          if (failure) break;
+        }
+        dispatch();
+
+        if (failure) {
+          reader.cancel().catch(() => {});
+          throw failure;
+        }
+      } catch (err) {
+        if (stalled) {
+          throw new SseStreamError(`No data received for ${stallTimeoutMs / 1000}s`, "stall");
+        }
+        throw err;
+      } finally {
+        clearTimeout(stallTimer);
+      }
+
+      return completed;
+    };
+
+    const processStream = async () => {
+      const {
+        maxRetries = DEFAULT_MAX_RETRIES,
+        retryDelayMs = DEFAULT_RETRY_DELAY_MS
+      } = optionsRef.current;
+      optionsRef.current.onReset?.();
+
+      for (let attempt = 0; ; attempt++) {
+        const attemptController = new AbortController();
+        const abortAttempt = () => attemptController.abort();
+        signal.addEventListener("abort", abortAttempt, { once: true });
+
+        try {
+          const cursor = lastEventId;
+          const target = cursor ? withCursor(url, cursor) : url;
+          const response = await fetch(target, {
+            signal: attemptController.signal,
+            headers: { Accept: "text/event-stream" }
+          });
+
+          if (!response.ok) throw await toHttpError(response);
+
+          // Ensure we have a readable stream
+          if (!response.body) {
+            throw new SseStreamError("Response has no body stream", "protocol");
+          }
+
+          // Start over if the server did not confirm it resumed from our cursor
+          if (cursor && response.headers.get(SSE_RESUME_HEADER) !== cursor) {
+            lastEventId = null;
+            framesReceived = 0;
+            optionsRef.current.onReset?.();
+          }
+
+          const completed = await readStream(response.body, attemptController);
+          if (!completed && !finished) {
+            throw new SseStreamError("Stream ended before completion", "network");
+          }
+
+          finish();
+          return;
+        } catch (err: any) {
+          if (signal.aborted || finished) return;
+
+          const streamError = err instanceof SseStreamError
+            ? err
+            : new SseStreamError(err?.message || "Network error", "network");
+
+          if (streamError.retryable && (framesReceived === 0 || lastEventId !== null) && attempt < maxRetries) {
+            const delay = retryDelayMs * 2 ** attempt;
+            console.warn(`Stream ${streamError.category} error, reconnecting in ${delay}ms:`, streamError.message);
+            setRetries(attempt + 1);
+            await sleep(delay, signal);
+            if (signal.aborted) return;
+            continue;
+          }
+
+          console.error("Stream error:", streamError);
+          setError(streamError.message);
+          setErrorCategory(streamError.category);
+          finish();
+          return;
+        } finally {
+          signal.removeEventListener("abort", abortAttempt);
+        }
+      }
+    };
+
+    // Replay prefetched messages as if they had just streamed in
+    const { initialMessages } = optionsRef.current;
+    if (initialMessages) {
+      optionsRef.current.onReset?.();
+      initialMessages.forEach(message => optionsRef.current.onMessage(message, "message"));
+      finish();
+      return;
+    }
+
+    // Start processing the stream
+    processStream();
+
+    // Cleanup: abort fetch on component unmount or URL change
+    return () => {
+      controller.abort();
+    };
+  }, [url]);
+
+  return {
+    isLoading,
+    isDone,
+    error,
+    errorCategory,
+    retries
+  };
+}
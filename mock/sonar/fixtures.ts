@@ -0,0 +1,148 @@
+// mock/sonar/fixtures.ts
+/**
+ * Canned Sonar completions for the mock server, keyed by company and prompt type
+ */
+import type { SearchResult } from "../../types/perplexity";
+
+// Which of the app's prompts a request came from
+export type PromptType =
+  | "narrative"        // Reddit post analysis (narrative routes)
+  | "redditSearch"     // Reddit search fallback (narrative routes)
+  | "financial"        // Financial reality stream (structured JSON schema)
+  | "financialJson"    // fetchFinancialReality (JSON format)
+  | "mediaNarrative"   // fetchNarrative (JSON format)
+  | "divergenceJudge"; // judgeDivergence (structured JSON schema)
+
+type FixtureSet = Partial<Record<PromptType, string>>;
+
+const FIXTURES: Record<string, FixtureSet> = {
+  TSLA: {
+    narrative: `• Overall sentiment: 46% bullish, 38% bearish, 16% neutral based on 112 posts analyzed
+• Robotaxi launch: The June Austin pilot dominates discussion, with the top DD (4,210 upvotes, 892 comments) arguing a 10-city rollout could add $150B in market cap
+• Margins: Automotive gross margin of 16.3% ex-credits is the most cited number, down from 18.9% a year ago, with several posts tracking the impact of price cuts
+• Bulls focus on: Energy storage deployments of 10.4 GWh and a $36.6B cash position, quoting a 2,300-upvote post calling storage "the real growth story"
+• Bears highlight: Q1 deliveries falling 13% YoY to 336,681 units and a forward P/E above 150, with r/stocks threads questioning brand damage in Europe`,
+    financial: JSON.stringify({
+      fundamentals: [
+        { text: "Total revenue of $19.3B in Q1 2025.", significance: "Down 9% YoY, reflecting lower vehicle ASPs and deliveries.", sourceUrl: "https://www.sec.gov/tsla-10q-q1-2025", filing: "10-Q Q1 2025" },
+        { text: "Automotive gross margin of 16.3% excluding regulatory credits.", significance: "Compressed by pricing actions.", sourceUrl: "https://ir.tesla.com/q1-2025", filing: "Q1 2025 update" },
+        { text: "Operating cash flow of $2.2B and free cash flow of $0.7B for the quarter.", significance: "Shows the business still self-funds despite heavy capex.", sourceUrl: "https://www.sec.gov/tsla-10q-q1-2025", filing: "10-Q Q1 2025" },
+        { text: "Cash and investments of $37.0B.", significance: "Providing a large buffer for capex.", sourceUrl: "https://ir.tesla.com/q1-2025", filing: "Q1 2025 update" },
+        { text: "Energy generation and storage revenue grew 67% YoY to $2.7B.", significance: "The fastest-growing segment, partly offsetting automotive weakness.", sourceUrl: "https://ir.tesla.com/q1-2025", filing: "Q1 2025 update" }
+      ],
+      risks: [
+        { text: "Demand softness in key markets amid aging model lineup.", significance: "Lower volumes pressure both revenue and fixed-cost absorption.", sourceUrl: "https://www.sec.gov/tsla-10q-q1-2025", filing: "10-Q Q1 2025" },
+        { text: "Exposure to tariffs and supply chain disruption on battery materials.", significance: "Could raise unit costs and delay production ramps.", sourceUrl: "https://www.sec.gov/tsla-10q-q1-2025", filing: "10-Q Q1 2025" },
+        { text: "Regulatory scrutiny of Autopilot and FSD features.", significance: "Adverse rulings could slow the autonomy roadmap.", sourceUrl: "https://www.sec.gov/tsla-10k-2024", filing: "10-K 2024" },
+        { text: "Key-person dependence on the CEO.", significance: "Leadership distraction or departure is flagged as a material risk.", sourceUrl: "https://www.sec.gov/tsla-10k-2024", filing: "10-K 2024" },
+        { text: "Intensifying competition from Chinese EV makers.", significance: "Erodes pricing power and share in China and Europe.", sourceUrl: "https://www.reuters.com/tsla-china-competition", filing: null }
+      ],
+      trends: [
+        { text: "Shift toward autonomy and robotaxi services as a growth driver.", significance: "Management frames software revenue as the next leg of growth.", sourceUrl: "https://ir.tesla.com/q1-2025", filing: "Q1 2025 update" },
+        { text: "Rapid growth in energy storage deployments.", significance: "Diversifies revenue away from vehicle sales.", sourceUrl: "https://ir.tesla.com/q1-2025", filing: "Q1 2025 update" },
+        { text: "Lower-cost vehicle platform planned for 2025.", significance: "Aimed at reopening volume growth in price-sensitive segments.", sourceUrl: "https://ir.tesla.com/q1-2025", filing: "Q1 2025 update" },
+        { text: "Continued price reductions to defend volume.", significance: "Supports deliveries at the expense of margins.", sourceUrl: "https://www.cnbc.com/tsla-pricing", filing: null },
+        { text: "Rising capex on AI training compute.", significance: "Weighs on near-term free cash flow.", sourceUrl: "https://www.sec.gov/tsla-10q-q1-2025", filing: "10-Q Q1 2025" }
+      ],
+      source: "Form 10-Q Q1 2025",
+      date: "April 23, 2025"
+    })
+  }
+};
+
+/**
+ * Returns the canned completion for a company and prompt type,
+ * falling back to a generic template for unknown companies
+ */
+export function getFixture(company: string, promptType: PromptType): string {
+  const canned = FIXTURES[company.toUpperCase()]?.[promptType];
+  return canned ?? defaultFixture(company.toUpperCase(), promptType);
+}
+
+function defaultFixture(company: string, promptType: PromptType): string {
+  switch (promptType) {
+    case "narrative":
+    case "redditSearch":
+      return `• Overall sentiment: 50% bullish, 30% bearish, 20% neutral based on 40 posts analyzed
+• Earnings: Discussion centers on ${company}'s latest quarter, with revenue up 12% YoY to $4.1B in a 1,200-upvote thread
+• Valuation: Posts debate a forward P/E of 28 versus a 5-year average of 22
+• Bulls focus on: 35% operating margins and a $2B buyback authorization (850 upvotes, 140 comments)
+• Bears highlight: Customer churn rising from 4% to 6% and a competitor gaining 3 points of market share`;
+
+    case "financial":
+      return JSON.stringify({
+        fundamentals: structuredItems(`${company} key metric`, "https://www.sec.gov/mock-10q", "10-Q (mock)"),
+        risks: structuredItems(`${company} key risk`, "https://www.sec.gov/mock-10k", "10-K (mock)"),
+        trends: structuredItems(`${company} key trend`, "https://www.reuters.com/mock", null),
+        source: "Form 10-Q (mock)",
+        date: new Date().toISOString().split("T")[0]
+      });
+
+    case "financialJson":
+      return JSON.stringify({
+        fundamentals: [`${company} revenue grew 12% YoY`, `${company} operating margin of 35%`, `${company} holds $5B in cash`],
+        risks: [`${company} faces rising competition`, `${company} has customer concentration risk`, `${company} is exposed to FX swings`],
+        trends: [`${company} is expanding internationally`, `${company} is investing in AI`, `${company} is shifting to subscriptions`],
+        source: "Form 10-Q (mock)",
+        date: new Date().toISOString().split("T")[0]
+      });
+
+    case "mediaNarrative":
+      return JSON.stringify({
+        narratives: [
+          `${company} is covered as a beneficiary of AI spending`,
+          `Coverage highlights ${company}'s margin expansion`,
+          `Reporters question ${company}'s valuation after a strong run`
+        ]
+      });
+
+    case "divergenceJudge":
+      return JSON.stringify({
+        score: 42,
+        summary: `The narrative around ${company} runs ahead of its filings on growth but matches them on profitability.`,
+        narrativeTone: 0.45,
+        financialTone: 0.1,
+        dimensions: {
+          growth: { rating: "overstated", score: 60, reason: "Posts cite faster growth than the filings report." },
+          profitability: { rating: "aligned", score: 15, reason: "Margin claims match the reported margins." },
+          risk: { rating: "understated", score: 55, reason: "Competition and concentration risks are barely discussed." },
+          valuation: { rating: "not discussed", score: 0, reason: "The filings say nothing about valuation." }
+        },
+        reasons: [
+          { text: "Growth claims in the narrative exceed the growth in the filings.", cites: ["N2", "F1"] },
+          { text: "Risks the filings flag are missing from the narrative.", cites: ["F4", "F5"] }
+        ]
+      });
+  }
+}
+
+/**
+ * Returns the search results the mock reports alongside a completion
+ */
+export function getSearchResults(company: string, promptType: PromptType): SearchResult[] {
+  const ticker = company.toUpperCase();
+  const date = new Date().toISOString().split("T")[0];
+
+  if (promptType === "financial" || promptType === "financialJson") {
+    return [
+      { title: `${ticker} Form 10-Q`, url: `https://www.sec.gov/cgi-bin/browse-edgar?action=getcompany&CIK=${ticker}`, date },
+      { title: `${ticker} quarterly update`, url: `https://www.reuters.com/markets/companies/${ticker}`, date },
+      { title: `${ticker} earnings call recap`, url: `https://www.cnbc.com/quotes/${ticker}`, date }
+    ];
+  }
+
+  return [1, 2, 3, 4, 5].map(n => ({
+    title: `${ticker} discussion thread ${n}`,
+    url: `https://www.reddit.com/r/stocks/comments/mock${n}/${ticker.toLowerCase()}_thread_${n}/`,
+    date
+  }));
+}
+
+function structuredItems(label: string, sourceUrl: string, filing: string | null) {
+  return [1, 2, 3, 4, 5].map(n => ({
+    text: `${label} ${n}.`,
+    significance: `Why ${label} ${n} matters to investors.`,
+    sourceUrl,
+    filing
+  }));
+}
@@ -0,0 +1,203 @@
+// mock/sonar/server.ts
+/**
+ * Local mock of the Perplexity Sonar `/chat/completions` endpoint for offline
+ * development and deterministic tests.
+ *
+ * Start it with `npm run mock:sonar` and point the app at it:
+ *   PERPLEXITY_API_URL=http://localhost:4010/chat/completions
+ *
+ * Faults can be injected with environment variables when starting the server,
+ * or per request with query params on PERPLEXITY_API_URL (query wins):
+ *   latency / MOCK_SONAR_LATENCY_MS        delay before responding (ms)
+ *   chunkDelay / MOCK_SONAR_CHUNK_DELAY_MS delay between SSE chunks (ms)
+ *   malformed / MOCK_SONAR_MALFORMED_RATE  chance (0-1) each chunk is malformed
+ *   error / MOCK_SONAR_ERROR_STATUS        HTTP status to fail with
+ *   errorRate / MOCK_SONAR_ERROR_RATE      chance (0-1) of failing (default 1)
+ */
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { getFixture, getSearchResults, type PromptType } from "./fixtures";
+import type {
+  SonarRequest,
+  SonarResponse,
+  StreamChunk
+} from "../../types/perplexity";
+
+const PORT = Number(process.env.MOCK_SONAR_PORT) || 4010;
+
+interface FaultOptions {
+  latencyMs: number;
+  chunkDelayMs: number;
+  malformedRate: number;
+  errorStatus: number | null;
+  errorRate: number;
+}
+
+/**
+ * Reads fault options from query params, falling back to env defaults
+ */
+function readFaults(params: URLSearchParams): FaultOptions {
+  const read = (param: string, envKey: string): number | null => {
+    const value = params.get(param) ?? process.env[envKey];
+    if (value === undefined || value === null || value === "") return null;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  };
+
+  return {
+    latencyMs: read("latency", "MOCK_SONAR_LATENCY_MS") ?? 0,
+    chunkDelayMs: read("chunkDelay", "MOCK_SONAR_CHUNK_DELAY_MS") ?? 20,
+    malformedRate: read("malformed", "MOCK_SONAR_MALFORMED_RATE") ?? 0,
+    errorStatus: read("error", "MOCK_SONAR_ERROR_STATUS"),
+    errorRate: read("errorRate", "MOCK_SONAR_ERROR_RATE") ?? 1
+  };
+}
+
+/**
+ * Works out which of the app's prompts sent this request
+ */
+function detectPromptType(request: SonarRequest): PromptType {
+  const system = request.messages.find(m => m.role === "system")?.content ?? "";
+
+  if (system.includes("FinancialReality-GPT")) {
+    return request.response_format?.type === "json_schema" ? "financial" : "financialJson";
+  }
+  if (system.includes("NarrativeCheck-GPT")) return "mediaNarrative";
+  if (system.includes("DivergenceJudge-GPT")) return "divergenceJudge";
+  if (system.startsWith("Search Reddit")) return "redditSearch";
+  return "narrative";
+}
+
+/**
+ * Pulls the company out of the user or system prompt
+ */
+function detectCompany(request: SonarRequest): string {
+  const text = request.messages.map(m => m.content).join("\n");
+  const match =
+    text.match(/Company:\s*([^\n]+)/) ??
+    text.match(/raw Reddit data for ([^.\s]+)/) ??
+    text.match(/sentiment for ([^\s]+)/);
+  return match?.[1]?.trim() ?? "UNKNOWN";
+}
+
+/**
+ * Splits content into word-sized tokens so streams look like model output
+ */
+function tokenize(content: string): string[] {
+  return content.match(/\S+\s*|\s+/g) ?? [];
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function handleCompletion(req: IncomingMessage, res: ServerResponse, faults: FaultOptions) {
+  if (!req.headers.authorization?.startsWith("Bearer ")) {
+    sendJson(res, 401, { error: { message: "Missing bearer token", type: "invalid_request_error" } });
+    return;
+  }
+
+  let request: SonarRequest;
+  try {
+    request = JSON.parse(await readBody(req)) as SonarRequest;
+  } catch {
+    sendJson(res, 400, { error: { message: "Request body is not valid JSON", type: "invalid_request_error" } });
+    return;
+  }
+
+  if (faults.latencyMs > 0) await sleep(faults.latencyMs);
+
+  if (faults.errorStatus && Math.random() < faults.errorRate) {
+    sendJson(res, faults.errorStatus, {
+      error: { message: `Injected mock error (${faults.errorStatus})`, type: "mock_error" }
+    });
+    return;
+  }
+
+  const promptType = detectPromptType(request);
+  const company = detectCompany(request);
+  const content = getFixture(company, promptType);
+  const searchResults = getSearchResults(company, promptType);
+  const citations = searchResults.map(result => result.url);
+  const id = `mock-${Date.now()}`;
+  const created = Math.floor(Date.now() / 1000);
+
+  console.log(`[mock-sonar] ${request.stream ? "stream" : "complete"} ${promptType} for ${company}`);
+
+  if (!request.stream) {
+    const response: SonarResponse = {
+      id,
+      object: "chat.completion",
+      created,
+      model: request.model,
+      choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+      usage: { prompt_tokens: 0, completion_tokens: tokenize(content).length, total_tokens: tokenize(content).length },
+      citations,
+      search_results: searchResults
+    };
+    sendJson(res, 200, response);
+    return;
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    "Connection": "keep-alive"
+  });
+
+  const tokens = tokenize(content);
+  for (let i = 0; i < tokens.length; i++) {
+    if (res.destroyed) return;
+
+    const chunk: StreamChunk = {
+      id,
+      object: "chat.completion.chunk",
+      created,
+      model: request.model,
+      choices: [{
+        index: 0,
+        delta: { content: tokens[i] },
+        finish_reason: i === tokens.length - 1 ? "stop" : null
+      }],
+      // Like Sonar, attach sources to the final chunk
+      ...(i === tokens.length - 1 ? { citations, search_results: searchResults } : {})
+    };
+
+    const data = Math.random() < faults.malformedRate
+      ? JSON.stringify(chunk).slice(0, -7) // Truncated JSON
+      : JSON.stringify(chunk);
+    res.write(`data: ${data}\n\n`);
+
+    if (faults.chunkDelayMs > 0) await sleep(faults.chunkDelayMs);
+  }
+
+  res.write("data: [DONE]\n\n");
+  res.end();
+}
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url ?? "/", `http://localhost:${PORT}`);
+
+  if (req.method === "POST" && url.pathname.replace(/\/$/, "").endsWith("/chat/completions")) {
+    handleCompletion(req, res, readFaults(url.searchParams)).catch(error => {
+      console.error("[mock-sonar] handler error:", error);
+      if (!res.headersSent) sendJson(res, 500, { error: { message: String(error) } });
+      else res.end();
+    });
+    return;
+  }
+
+  sendJson(res, 404, { error: { message: `No mock route for ${req.method} ${url.pathname}` } });
+});
+
+server.listen(PORT, () => {
+  console.log(`[mock-sonar] listening on http://localhost:${PORT}/chat/completions`);
+});
@@ -0,0 +1,174 @@
+// tests/cache.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  ResultCache,
+  MemoryLruBackend,
+  FileSystemBackend,
+  cacheKey,
+  wantsFresh,
+  type CacheBackend,
+  type CacheEntry
+} from "@/lib/cache";
+
+const TIMING = { ttlMs: 60_000, staleMs: 60_000 };
+
+// An entry whose fresh window has passed but whose stale window has not
+const staleEntry = <T>(value: T): CacheEntry<T> => {
+  const now = Date.now();
+  return { value, storedAt: now - 2_000, freshUntil: now - 1_000, staleUntil: now + 60_000 };
+};
+
+/**
+ * Compute function that counts its calls and returns "v1", "v2", ...
+ */
+function counter() {
+  let calls = 0;
+  return {
+    compute: async () => `v${++calls}`,
+    get calls() {
+      return calls;
+    }
+  };
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe("cacheKey", () => {
+  it("normalizes the company and appends the variant", () => {
+    const key = (company: string, variant?: string) =>
+      cacheKey({ route: "narrative-stream", company, promptVersion: 5, window: "90d", variant });
+
+    assert.equal(key("$tsla "), "narrative-stream:v5:TSLA:90d");
+    assert.equal(key("TSLA"), key("tsla"));
+    assert.equal(key("TSLA", "count"), "narrative-stream:v5:TSLA:90d:count");
+  });
+
+  it("reads ?fresh=1 and ?fresh=true", () => {
+    assert.equal(wantsFresh(new URLSearchParams("fresh=1")), true);
+    assert.equal(wantsFresh(new URLSearchParams("fresh=true")), true);
+    assert.equal(wantsFresh(new URLSearchParams("fresh=0")), false);
+  });
+});
+
+describe("ResultCache", () => {
+  it("computes on a miss and serves a hit afterwards", async () => {
+    const cache = new ResultCache(new MemoryLruBackend());
+    const source = counter();
+
+    assert.deepEqual(await cache.getOrCompute("k", source.compute, TIMING), { value: "v1", status: "MISS" });
+    assert.deepEqual(await cache.getOrCompute("k", source.compute, TIMING), { value: "v1", status: "HIT" });
+    assert.equal(source.calls, 1);
+  });
+
+  it("serves a stale value at once and revalidates it in the background", async () => {
+    const backend = new MemoryLruBackend();
+    await backend.set("k", staleEntry("old"));
+    const cache = new ResultCache(backend);
+    const source = counter();
+
+    assert.deepEqual(await cache.getOrCompute("k", source.compute, TIMING), { value: "old", status: "STALE" });
+    await tick();
+
+    assert.equal(source.calls, 1);
+    assert.deepEqual(await cache.lookup("k"), { value: "v1", status: "HIT" });
+  });
+
+  it("keeps a stale value when revalidation fails", async () => {
+    const backend = new MemoryLruBackend();
+    await backend.set("k", staleEntry("old"));
+    const cache = new ResultCache(backend);
+
+    cache.revalidate("k", async () => {
+      throw new Error("upstream down");
+    }, TIMING);
+    await tick();
+
+    assert.deepEqual(await cache.lookup("k"), { value: "old", status: "STALE" });
+  });
+
+  it("drops entries past their stale window", async () => {
+    const backend = new MemoryLruBackend();
+    const now = Date.now();
+    await backend.set("k", { value: "old", storedAt: now - 3_000, freshUntil: now - 2_000, staleUntil: now - 1_000 });
+    const cache = new ResultCache(backend);
+
+    assert.equal(await cache.lookup("k"), undefined);
+    assert.equal(await backend.get("k"), undefined);
+  });
+
+  it("skips the lookup but still stores the result when fresh", async () => {
+    const cache = new ResultCache(new MemoryLruBackend());
+    await cache.set("k", "cached", TIMING);
+    const source = counter();
+
+    assert.deepEqual(await cache.getOrCompute("k", source.compute, TIMING, { fresh: true }), { value: "v1", status: "BYPASS" });
+    assert.deepEqual(await cache.lookup("k"), { value: "v1", status: "HIT" });
+  });
+
+  it("shares one computation between concurrent refreshes", async () => {
+    const cache = new ResultCache(new MemoryLruBackend());
+    const source = counter();
+
+    const values = await Promise.all([
+      cache.refresh("k", source.compute, TIMING),
+      cache.refresh("k", source.compute, TIMING)
+    ]);
+
+    assert.deepEqual(values, ["v1", "v1"]);
+    assert.equal(source.calls, 1);
+  });
+
+  it("treats backend failures as misses", async () => {
+    const broken: CacheBackend = {
+      get: async () => {
+        throw new Error("disk gone");
+      },
+      set: async () => {
+        throw new Error("disk gone");
+      },
+      delete: async () => {}
+    };
+    const cache = new ResultCache(broken);
+
+    await cache.set("k", "value", TIMING);
+    assert.deepEqual(await cache.getOrCompute("k", counter().compute, TIMING), { value: "v1", status: "MISS" });
+  });
+});
+
+describe("MemoryLruBackend", () => {
+  it("evicts the least recently used entry", async () => {
+    const backend = new MemoryLruBackend(2);
+    const entry = staleEntry("x");
+    await backend.set("a", entry);
+    await backend.set("b", entry);
+    await backend.get("a");
+    await backend.set("c", entry);
+
+    assert.equal(await backend.get("b"), undefined);
+    assert.ok(await backend.get("a"));
+    assert.ok(await backend.get("c"));
+  });
+});
+
+describe("FileSystemBackend", () => {
+  it("round-trips entries and survives concurrent writes of one key", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "result-cache-"));
+    try {
+      const backend = new FileSystemBackend(dir);
+      await Promise.all(Array.from({ length: 10 }, (_, i) => backend.set("k", staleEntry(i))));
+
+      const stored = await backend.get<number>("k");
+      assert.equal(typeof stored?.value, "number");
+      assert.deepEqual((await fs.readdir(dir)).filter(name => name.endsWith(".tmp")), []);
+
+      await backend.delete("k");
+      assert.equal(await backend.get("k"), undefined);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
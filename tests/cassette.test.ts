@@ -0,0 +1,72 @@
+// tests/cassette.test.ts
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { FetchLike } from "@/lib/cassette";
+
+// Cassette settings are read when the module loads, so it is imported after setting them
+let dir: string;
+let createCassetteFetch: typeof import("@/lib/cassette").createCassetteFetch;
+
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "cassettes-"));
+  process.env.CASSETTE_MODE = "record";
+  process.env.CASSETTE_DIR = dir;
+  process.env.CASSETTE_NAME = "test";
+  ({ createCassetteFetch } = await import("@/lib/cassette"));
+});
+
+after(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+/**
+ * Base fetch whose response body arrives in the given chunks
+ */
+const chunkedFetch = (chunks: string[]): FetchLike => async () =>
+  new Response(new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(new TextEncoder().encode(chunk)));
+      controller.close();
+    }
+  }), { status: 200, headers: { "Content-Type": "application/json" } });
+
+/**
+ * Recorded response chunks of a scope, decoded, once the cassette has been written
+ */
+async function recordedChunks(scope: string): Promise<string[]> {
+  const file = path.join(dir, `test-${scope}.json`);
+  for (let attempt = 0; attempt < 100; attempt++) {
+    try {
+      const cassette = JSON.parse(await fs.readFile(file, "utf-8"));
+      return cassette.entries[0].response.chunks.map((chunk: { base64: string }) =>
+        Buffer.from(chunk.base64, "base64").toString("utf-8")
+      );
+    } catch {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  }
+  throw new Error(`Cassette ${file} was not written`);
+}
+
+describe("cassette recording", () => {
+  it("redacts a secret split across chunks, but not for the caller", async () => {
+    const record = createCassetteFetch("token", chunkedFetch(['{"access_tok', 'en": "abc', '123", "expires_in": 3600}']));
+
+    const body = await (await record("https://www.reddit.com/api/v1/access_token", { method: "POST" })).text();
+
+    assert.equal(body, '{"access_token": "abc123", "expires_in": 3600}');
+    assert.deepEqual(await recordedChunks("token"), ['{"access_token": "REDACTED", "expires_in": 3600}']);
+  });
+
+  it("keeps chunks without secrets exactly as they arrived", async () => {
+    const chunks = ['data: {"content":"Hel', 'lo"}\n\n', "data: [DONE]\n\n"];
+    const record = createCassetteFetch("stream", chunkedFetch(chunks));
+
+    await (await record("https://api.perplexity.ai/chat/completions", { method: "POST", body: "{}" })).text();
+
+    assert.deepEqual(await recordedChunks("stream"), chunks);
+  });
+});
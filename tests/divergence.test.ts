@@ -0,0 +1,111 @@
+// tests/divergence.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  alignClaims,
+  extractClaims,
+  ORIGINAL_CLAIM_RULES,
+  scoreDivergence,
+  isDivergenceVersion,
+  DIVERGENCE_VERSION,
+  DIVERGENCE_VERSIONS
+} from "@/lib/divergence";
+import { divergenceLevel } from "@/lib/divergence/levels";
+
+const financial = {
+  fundamentals: ["Revenue increased 10% year over year"],
+  risks: ["Gross margins declined to 17%"],
+  trends: []
+};
+
+describe("extractClaims", () => {
+  it("reads metric, direction, magnitude and period", () => {
+    const [claim] = extractClaims("Revenue grew 25% year over year in Q2", "narrative");
+    assert.equal(claim.metric, "revenue");
+    assert.equal(claim.direction, "up");
+    assert.equal(claim.magnitude, 25);
+    assert.equal(claim.period, "year over year");
+  });
+
+  it("skips a previous level after \"from\"", () => {
+    const [claim] = extractClaims("Gross margin was 18%, down from 25%", "fundamentals");
+    assert.equal(claim.direction, "down");
+    assert.equal(claim.magnitude, null);
+    assert.equal(extractClaims("Gross margin was 18%, down from 25%", "fundamentals", ORIGINAL_CLAIM_RULES)[0].magnitude, -25);
+  });
+
+  it("flips negated moves", () => {
+    assert.equal(extractClaims("Revenue is not growing", "narrative")[0].direction, "down");
+    assert.equal(extractClaims("Not only did revenue grow", "narrative")[0].direction, "up");
+  });
+
+  it("skips clauses without a metric", () => {
+    assert.deepEqual(extractClaims("Everyone on the forum is excited", "narrative"), []);
+  });
+});
+
+describe("alignClaims", () => {
+  it("labels exaggerated and contradicted claims", () => {
+    const pairs = alignClaims({
+      company: "TSLA",
+      narratives: ["Revenue grew 25% this year", "Margins are expanding fast"],
+      financial
+    });
+    assert.deepEqual(
+      pairs.map(pair => [pair.narrative?.metric, pair.label]),
+      [["revenue", "exaggerated"], ["margins", "contradicted"]]
+    );
+  });
+
+  it("pairs with the reported fundamental over a hypothetical risk", () => {
+    const [pair] = alignClaims({
+      company: "TSLA",
+      narratives: ["Revenue grew strongly this year"],
+      financial: {
+        fundamentals: ["Revenue increased year-over-year"],
+        risks: ["Slowing demand could cause revenue to decline 5%"],
+        trends: []
+      }
+    });
+    assert.equal(pair.label, "supported");
+    assert.equal(pair.financial?.section, "fundamentals");
+  });
+
+  it("contradicts a negated claim", () => {
+    const [pair] = alignClaims({
+      company: "TSLA",
+      narratives: ["Revenue is not growing"],
+      financial: { fundamentals: ["Revenue increased 10%"], risks: [], trends: [] }
+    });
+    assert.equal(pair.label, "contradicted");
+  });
+});
+
+describe("scoreDivergence", () => {
+  const input = { company: "TSLA", narratives: ["Revenue grew 25% this year", "Margins are expanding fast"], financial };
+
+  it("records the version that produced each result", () => {
+    for (const version of DIVERGENCE_VERSIONS) {
+      assert.equal(scoreDivergence(input, version).version, version);
+    }
+    assert.equal(scoreDivergence(input).version, DIVERGENCE_VERSION);
+  });
+
+  it("scores contradicted narratives above aligned ones", () => {
+    const aligned = scoreDivergence({ ...input, narratives: ["Revenue increased 10% year over year"] });
+    const contradicted = scoreDivergence(input);
+    assert.equal(contradicted.score > aligned.score, true);
+    assert.equal(contradicted.divergence, "high");
+  });
+
+  it("rejects unknown versions", () => {
+    assert.equal(isDivergenceVersion("claims-99"), false);
+    assert.throws(() => scoreDivergence(input, "claims-99"), /Unknown divergence algorithm version/);
+  });
+});
+
+describe("divergenceLevel", () => {
+  it("splits scores at 30 and 60", () => {
+    assert.deepEqual([29, 30, 59, 60].map(divergenceLevel), ["low", "medium", "medium", "high"]);
+  });
+});
@@ -0,0 +1,70 @@
+// tests/divergenceSeries.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  divergenceSeries,
+  type AnalysisSnapshot,
+  type SnapshotFinancial,
+  type SnapshotNarrative
+} from "@/lib/snapshots";
+import type { ComparisonResult } from "@/lib/divergence";
+import { resolveEntity } from "@/lib/entities";
+
+const run = (
+  createdAt: string,
+  { posts = 90, score = 40, version = "claims-3", filed }: { posts?: number; score?: number | null; version?: string; filed?: string } = {}
+): AnalysisSnapshot => ({
+  id: `AAPL-${createdAt}`,
+  ticker: "AAPL",
+  entity: resolveEntity("AAPL"),
+  window: "90d",
+  sources: ["reddit", "filings"],
+  createdAt,
+  narrative: { bullets: [], totalPosts: posts } as unknown as SnapshotNarrative,
+  financial: filed ? ({ date: filed, source: "10-Q" } as SnapshotFinancial) : null,
+  divergence: score === null
+    ? null
+    : ({
+        score,
+        divergence: "medium",
+        version,
+        components: { narrativeSentiment: 0.4, financialSentiment: -0.2 }
+      } as unknown as ComparisonResult)
+});
+
+describe("divergenceSeries", () => {
+  it("orders scored runs oldest first and skips unscored ones", () => {
+    const series = divergenceSeries("AAPL", [
+      run("2026-03-01T00:00:00.000Z", { score: 60 }),
+      run("2026-01-01T00:00:00.000Z", { score: 30, version: "claims-2" }),
+      run("2026-02-01T00:00:00.000Z", { score: null })
+    ]);
+
+    assert.deepEqual(series.points.map(point => point.score), [30, 60]);
+    assert.deepEqual(series.versions, ["claims-2", "claims-3"]);
+    assert.equal(series.points[0].narrativeSentiment, 0.4);
+    assert.equal(series.points[0].postsPerDay, 1);
+  });
+
+  it("flags runs whose Reddit volume reaches twice the median", () => {
+    const series = divergenceSeries("AAPL", [
+      run("2026-01-01T00:00:00.000Z", { posts: 90 }),
+      run("2026-01-08T00:00:00.000Z", { posts: 90 }),
+      run("2026-01-15T00:00:00.000Z", { posts: 180 })
+    ]);
+
+    assert.deepEqual(series.points.map(point => point.volumeSpike), [false, false, true]);
+    assert.equal(divergenceSeries("AAPL", [run("2026-01-01T00:00:00.000Z", { posts: 900 })]).points[0].volumeSpike, false);
+  });
+
+  it("marks filing dates within the series range once each", () => {
+    const series = divergenceSeries("AAPL", [
+      run("2026-02-01T00:00:00.000Z", { filed: "2026-01-30" }),
+      run("2026-03-01T00:00:00.000Z", { filed: "January 30, 2026" }),
+      run("2026-03-02T00:00:00.000Z", { filed: "2027-01-01" }),
+      run("2026-03-03T00:00:00.000Z", { filed: "not a date" })
+    ]);
+
+    assert.deepEqual(series.earnings, [{ date: "2026-01-30", source: "10-Q" }]);
+  });
+});
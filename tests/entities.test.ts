@@ -0,0 +1,44 @@
+// tests/entities.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { resolveEntity, normalizeTicker, isTickerSymbol } from "@/lib/entities";
+import { createRelevanceScorer, isAmbiguousTicker, RELEVANCE_THRESHOLD } from "@/lib/entities/relevance";
+
+describe("resolveEntity", () => {
+  it("resolves names, aliases and cashtags to the same ticker", () => {
+    for (const query of ["Tesla", "Tesla Motors", "$tsla", "TSLA"]) {
+      assert.equal(resolveEntity(query).ticker, "TSLA");
+    }
+    assert.equal(resolveEntity("Tesla").known, true);
+  });
+
+  it("keeps unknown symbols as their ticker", () => {
+    const entity = resolveEntity("zzzz");
+    assert.equal(entity.ticker, "ZZZZ");
+    assert.equal(entity.known, false);
+    assert.equal(entity.cashtag, "$ZZZZ");
+  });
+});
+
+describe("ticker symbols", () => {
+  it("normalizes and recognizes share-class tickers", () => {
+    assert.equal(normalizeTicker(" $brk.b "), "BRK.B");
+    assert.equal(isTickerSymbol("BRK.B"), true);
+    assert.equal(isTickerSymbol("hello world"), false);
+  });
+});
+
+describe("relevance", () => {
+  const score = createRelevanceScorer(resolveEntity("F"));
+
+  it("treats short tickers as ambiguous", () => {
+    assert.equal(isAmbiguousTicker("F"), true);
+    assert.equal(isAmbiguousTicker("TSLA"), false);
+  });
+
+  it("needs more than a bare ambiguous ticker", () => {
+    assert.equal(score("F is going to the moon").score < RELEVANCE_THRESHOLD, true);
+    assert.equal(score("$F calls printing").score >= RELEVANCE_THRESHOLD, true);
+    assert.equal(score("Ford earnings beat").score >= RELEVANCE_THRESHOLD, true);
+  });
+});
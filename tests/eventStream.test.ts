@@ -0,0 +1,43 @@
+// tests/eventStream.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createEventStream, resumePosition, resumeHeaders } from "@/app/api/eventStream";
+import type { EventSender } from "@/lib/streamProtocol";
+
+const replay = async (send: EventSender) => {
+  send("meta", { company: "AAPL" });
+  send("delta", { content: "one" });
+  send("delta", { content: "two" });
+  send("done", { finishReason: "stop" });
+};
+
+const read = (stream: ReadableStream<Uint8Array>) => new Response(stream).text();
+
+describe("createEventStream", () => {
+  it("gives every event a sequential id with the replay's prefix", async () => {
+    const text = await read(createEventStream(replay, { idPrefix: "t1" }));
+
+    assert.deepEqual(text.match(/^id: .*$/gm), ["id: t1-1", "id: t1-2", "id: t1-3", "id: t1-4"]);
+  });
+
+  it("skips the events a resuming client already received", async () => {
+    const text = await read(createEventStream(replay, { idPrefix: "t1", resumeAfter: 2 }));
+
+    assert.deepEqual(text.match(/^id: .*$/gm), ["id: t1-3", "id: t1-4"]);
+    assert.ok(text.includes(`data: {"content":"two"}`));
+    assert.ok(!text.includes(`data: {"content":"one"}`));
+  });
+});
+
+describe("resumePosition", () => {
+  it("resumes only from a cursor into the same replay", () => {
+    const position = resumePosition(new URLSearchParams("cursor=t1-2"), "t1");
+
+    assert.deepEqual(position, { cursor: "t1-2", after: 2 });
+    assert.deepEqual(resumeHeaders(position), { "X-Stream-Cursor": "t1-2" });
+    assert.equal(resumePosition(new URLSearchParams("cursor=t0-2"), "t1"), null);
+    assert.equal(resumePosition(new URLSearchParams("cursor=2"), "t1"), null);
+    assert.equal(resumePosition(new URLSearchParams(""), "t1"), null);
+    assert.deepEqual(resumeHeaders(null), {});
+  });
+});
@@ -0,0 +1,68 @@
+// tests/figureVerifier.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { extractFigures, splitBullets, verifyFigures, type VerificationSource } from "@/lib/figureVerifier";
+
+const source = (title: string, selftext = "", score = 10, num_comments = 2): VerificationSource =>
+  ({ title, selftext, score, num_comments, subreddit: "stocks" });
+
+describe("extractFigures", () => {
+  it("normalizes percentages, currency and suffixes", () => {
+    assert.deepEqual(
+      extractFigures("Revenue of $36.6B, up 16.3% on 1,200 deliveries").map(({ value, kind }) => ({ value, kind })),
+      [
+        { value: 36.6e9, kind: "currency" },
+        { value: 16.3, kind: "percent" },
+        { value: 1200, kind: "number" }
+      ]
+    );
+  });
+
+  it("reads both bounds of a percentage range as percentages", () => {
+    assert.deepEqual(
+      extractFigures("52% bullish (44-60%)").map(figure => figure.kind),
+      ["percent", "percent", "percent"]
+    );
+    assert.deepEqual(extractFigures("12-15 posts").map(figure => figure.kind), ["number", "number"]);
+  });
+});
+
+describe("splitBullets", () => {
+  it("strips markers, links and footnotes", () => {
+    assert.deepEqual(
+      splitBullets("• First [1]\n\n- Second [post](https://reddit.com/r/x/1)"),
+      ["First ", "Second "]
+    );
+  });
+});
+
+describe("verifyFigures", () => {
+  it("verifies figures found in posts and engagement counts", () => {
+    const report = verifyFigures(
+      ["Margins hit 17.9% with 1,204 upvotes", "Deliveries of 500k"],
+      [source("Gross margin 17.9% this quarter", "", 1204), source("Deliveries", "about 480k units")]
+    );
+    assert.deepEqual(report.figures.map(figure => figure.status), ["verified", "verified", "approximate"]);
+    assert.deepEqual(report.counts, { verified: 2, approximate: 1, unsupported: 0 });
+  });
+
+  it("never matches a percentage against a plain number", () => {
+    const report = verifyFigures(["Up 25%"], [source("25 people said so")]);
+    assert.equal(report.figures[0].status, "unsupported");
+  });
+
+  it("checks counts and percentages against known facts", () => {
+    const report = verifyFigures(
+      ["52% bullish (44-60%) across 112 posts"],
+      [],
+      {
+        "posts analyzed": 112,
+        "bullish share": { value: 52, kind: "percent" },
+        "bullish interval low": { value: 44, kind: "percent" },
+        "bullish interval high": { value: 60, kind: "percent" }
+      }
+    );
+    assert.equal(report.counts.verified, 4);
+    assert.equal(report.figures[0].evidence, "Computed bullish share");
+  });
+});
@@ -0,0 +1,141 @@
+// tests/judge.test.ts
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { ComparisonResult, DivergenceInput } from "@/lib/divergence";
+import type { CalibrationRecord } from "@/lib/divergence/calibration";
+
+// Sonar answers are replayed from a cassette, whose settings are read when the client loads
+let dir: string;
+let divergence: typeof import("@/lib/divergence");
+let calibration: typeof import("@/lib/divergence/calibration");
+
+const input: DivergenceInput = {
+  company: "AAPL",
+  narratives: ["Services growth is accelerating", "iPhone demand is collapsing"],
+  financial: {
+    fundamentals: ["Services revenue grew 14%"],
+    risks: ["China sales declined 8%"],
+    trends: []
+  }
+};
+
+/**
+ * Cassette entry answering a Sonar completion with `content`
+ */
+const sonarAnswer = (url: string, content: string) => ({
+  request: { method: "POST", url, body: null },
+  response: {
+    status: 200,
+    statusText: "OK",
+    headers: { "content-type": "application/json" },
+    latencyMs: 0,
+    chunks: [{
+      offsetMs: 0,
+      base64: Buffer.from(JSON.stringify({ choices: [{ message: { content } }] })).toString("base64")
+    }]
+  },
+  recordedAt: new Date(0).toISOString()
+});
+
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "judge-"));
+  Object.assign(process.env, {
+    CASSETTE_MODE: "replay",
+    CASSETTE_DIR: dir,
+    CASSETTE_NAME: "test",
+    CASSETTE_SPEED: "0",
+    PERPLEXITY_API_KEY: "test"
+  });
+  const { PERPLEXITY_URL } = await import("@/lib/sonarConfig");
+
+  const judgment = {
+    score: 140,
+    summary: "Reddit overstates iPhone weakness",
+    narrativeTone: 0.2,
+    financialTone: 0.456,
+    dimensions: {
+      growth: { rating: "aligned", score: 10, reason: "Services growth matches" },
+      risk: { rating: "catastrophic", score: 80, reason: "Overstated" }
+    },
+    reasons: [
+      { text: "Services growth is confirmed", cites: ["n1", "F1", "F9"] },
+      { text: "No filing supports a collapse", cites: ["N2", "F2"] },
+      { cites: ["N1"] }
+    ]
+  };
+  await fs.writeFile(path.join(dir, "test-sonar.json"), JSON.stringify({
+    version: 1,
+    entries: [
+      sonarAnswer(PERPLEXITY_URL, "```json\n" + JSON.stringify(judgment) + "\n```"),
+      sonarAnswer(PERPLEXITY_URL, "I think the divergence is moderate.")
+    ]
+  }));
+
+  divergence = await import("@/lib/divergence");
+  calibration = await import("@/lib/divergence/calibration");
+});
+
+after(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("judgeDivergence", () => {
+  it("reads a fenced judgment, clamping values and dropping unknown ratings and cites", async () => {
+    const result = await divergence.judgeDivergence(input);
+
+    assert.equal(result.score, 100);
+    assert.equal(result.divergence, "high");
+    assert.equal(result.version, divergence.JUDGE_VERSION);
+    assert.deepEqual(result.components, { narrativeSentiment: 0.2, financialSentiment: 0.46 });
+    assert.deepEqual(result.judgment?.dimensions.risk, { rating: "not discussed", score: 80, reason: "Overstated" });
+    assert.deepEqual(result.judgment?.dimensions.valuation, { rating: "not discussed", score: 0, reason: "" });
+    assert.deepEqual(result.keyPoints, ["Services growth is confirmed", "No filing supports a collapse"]);
+    assert.deepEqual(
+      result.judgment?.reasons[0].cites.map(cite => cite.id),
+      ["N1", "F1"]
+    );
+  });
+
+  it("fails when the judgment is not JSON", async () => {
+    await assert.rejects(divergence.judgeDivergence(input), /not valid JSON/);
+  });
+});
+
+describe("calibration", () => {
+  const record = (heuristic: number, model: number): CalibrationRecord => ({
+    ticker: "AAPL",
+    createdAt: new Date(0).toISOString(),
+    input,
+    heuristic: { score: heuristic, divergence: heuristic >= 60 ? "high" : "medium" } as ComparisonResult,
+    model: { score: model, divergence: model >= 60 ? "high" : "medium" } as ComparisonResult
+  });
+
+  it("measures how far the heuristic is from the model", () => {
+    assert.deepEqual(calibration.calibrationStats([record(50, 40), record(70, 80)]), {
+      count: 2,
+      meanAbsoluteError: 10,
+      meanBias: 0,
+      levelAgreement: 1
+    });
+    assert.deepEqual(calibration.calibrationStats([]), {
+      count: 0,
+      meanAbsoluteError: null,
+      meanBias: null,
+      levelAgreement: null
+    });
+  });
+
+  it("lists logged records newest first, skipping a partial line", async () => {
+    const log = new calibration.CalibrationLog(path.join(dir, "calibration"));
+    await log.record(record(50, 40));
+    await log.record(record(70, 80));
+    await fs.appendFile(path.join(dir, "calibration", "AAPL.jsonl"), '{"ticker":"AA');
+
+    const records = await log.list("aapl");
+    assert.deepEqual(records.map(stored => stored.heuristic.score), [70, 50]);
+    assert.deepEqual(await log.list("MSFT"), []);
+  });
+});
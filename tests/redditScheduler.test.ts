@@ -0,0 +1,119 @@
+// tests/redditScheduler.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { RedditRequestScheduler, type SchedulerEvent } from "@/lib/redditScheduler";
+import type { FetchLike } from "@/lib/cassette";
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Fake fetch answering from a list of responses in order, the last one repeating
+ */
+function fakeFetch(responses: Array<() => Response>, latencyMs = 0) {
+  const calls: string[] = [];
+  const fetchImpl: FetchLike = async url => {
+    calls.push(url);
+    await delay(latencyMs);
+    return responses[Math.min(calls.length - 1, responses.length - 1)]();
+  };
+  return { fetchImpl, calls };
+}
+
+const ok = (headers: Record<string, string> = {}) => () => new Response("{}", { status: 200, headers });
+
+describe("RedditRequestScheduler", () => {
+  it("keeps at most `concurrency` requests in flight", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const fetchImpl: FetchLike = async () => {
+      peak = Math.max(peak, ++inFlight);
+      await delay(10);
+      inFlight--;
+      return ok()();
+    };
+    const scheduler = new RedditRequestScheduler(fetchImpl, { concurrency: 2 });
+
+    const responses = await Promise.all([1, 2, 3, 4, 5].map(n => scheduler.fetch(`https://reddit.test/${n}`)));
+
+    assert.equal(peak, 2);
+    assert.deepEqual(responses.map(response => response.status), [200, 200, 200, 200, 200]);
+  });
+
+  it("waits for the rate limit window to reset once the budget is spent", async () => {
+    const { fetchImpl, calls } = fakeFetch([
+      ok({ "X-Ratelimit-Remaining": "1", "X-Ratelimit-Used": "99", "X-Ratelimit-Reset": "0.05" }),
+      ok()
+    ]);
+    const scheduler = new RedditRequestScheduler(fetchImpl, { concurrency: 1, reserve: 2 });
+    const events: SchedulerEvent[] = [];
+    scheduler.on(event => events.push(event));
+
+    await scheduler.fetch("https://reddit.test/a");
+    assert.equal(scheduler.getRateLimit().remaining, 1);
+
+    const started = Date.now();
+    await scheduler.fetch("https://reddit.test/b");
+
+    const throttled = events.find(event => event.type === "throttled");
+    assert.ok(throttled && throttled.type === "throttled" && throttled.remaining === 1);
+    assert.ok(Date.now() - started >= 40);
+    assert.equal(calls.length, 2);
+  });
+
+  it("retries a 429 after its Retry-After delay", async () => {
+    const { fetchImpl, calls } = fakeFetch([
+      () => new Response("", { status: 429, headers: { "Retry-After": "0.05" } }),
+      ok()
+    ]);
+    const scheduler = new RedditRequestScheduler(fetchImpl, { retryDelayMs: 10_000 });
+    const events: SchedulerEvent[] = [];
+    scheduler.on(event => events.push(event));
+
+    const response = await scheduler.fetch("https://reddit.test/a", {}, "search");
+
+    assert.equal(response.status, 200);
+    assert.equal(calls.length, 2);
+    assert.deepEqual(
+      events.find(event => event.type === "retry"),
+      { type: "retry", label: "search", attempt: 1, delayMs: 50, reason: "HTTP 429" }
+    );
+  });
+
+  it("returns the last response once retries run out", async () => {
+    const { fetchImpl, calls } = fakeFetch([() => new Response("", { status: 503 })]);
+    const scheduler = new RedditRequestScheduler(fetchImpl, { maxRetries: 2, retryDelayMs: 1 });
+
+    const response = await scheduler.fetch("https://reddit.test/a");
+
+    assert.equal(response.status, 503);
+    assert.equal(calls.length, 3);
+  });
+
+  it("stops waiting to retry as soon as the request is aborted", async () => {
+    const { fetchImpl, calls } = fakeFetch([() => new Response("", { status: 500 })]);
+    const scheduler = new RedditRequestScheduler(fetchImpl, { retryDelayMs: 10_000 });
+    const controller = new AbortController();
+
+    const started = Date.now();
+    const pending = scheduler.fetch("https://reddit.test/a", { signal: controller.signal });
+    setTimeout(() => controller.abort(new Error("cancelled")), 20);
+
+    await assert.rejects(pending, /cancelled/);
+    assert.ok(Date.now() - started < 1_000);
+    assert.equal(calls.length, 1);
+  });
+
+  it("never sends a request aborted while it was queued", async () => {
+    const { fetchImpl, calls } = fakeFetch([ok()], 20);
+    const scheduler = new RedditRequestScheduler(fetchImpl, { concurrency: 1 });
+    const controller = new AbortController();
+
+    const first = scheduler.fetch("https://reddit.test/a");
+    const queued = scheduler.fetch("https://reddit.test/b", { signal: controller.signal });
+    controller.abort(new Error("cancelled"));
+
+    await assert.rejects(queued, /cancelled/);
+    assert.equal((await first).status, 200);
+    assert.deepEqual(calls, ["https://reddit.test/a"]);
+  });
+});
@@ -0,0 +1,131 @@
+// tests/sentiment.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { scoreSentiment, sentimentBalance, aggregateSentiment, parseAggregation, DEFAULT_AGGREGATION } from "@/lib/sentiment";
+
+const post = (score: number, num_comments = 0, subreddit = "stocks", created_utc = 1_700_000_000) =>
+  ({ score, num_comments, subreddit, created_utc });
+
+describe("scoreSentiment", () => {
+  it("scores lexicon terms by valence", () => {
+    assert.equal(scoreSentiment("very bullish").score > scoreSentiment("bullish").score, true);
+    assert.equal(scoreSentiment("bearish").score, -2);
+    assert.equal(scoreSentiment("the company filed a report").score, 0);
+  });
+
+  it("flips and dampens negated terms", () => {
+    assert.equal(scoreSentiment("not bullish").score, -1.5);
+    assert.equal(scoreSentiment("no decline").score, 1.125);
+    assert.equal(scoreSentiment("never bullish").score, -1.5);
+    assert.deepEqual(scoreSentiment("not bullish").tokens[0].modifiers, ["not"]);
+  });
+
+  it("scores general valence words and their negation", () => {
+    assert.equal(scoreSentiment("great quarter").score > 0, true);
+    assert.equal(scoreSentiment("terrible quarter").score < 0, true);
+    assert.equal(scoreSentiment("not bad").score > 0, true);
+    assert.equal(scoreSentiment("not bad at all").score > 0, true);
+    assert.equal(scoreSentiment("not good").score < 0, true);
+  });
+
+  it("carries a negator before a verb like think to the next term", () => {
+    const { score, tokens } = scoreSentiment("I don't think this is a bad buy");
+    assert.equal(tokens.find(token => token.term === "bad")?.negated, true);
+    assert.equal(score > scoreSentiment("buy").score, true);
+
+    // Only the first term after it, and not past a clause break
+    const later = scoreSentiment("I don't think earnings will be good, but the buyback is great");
+    assert.deepEqual(later.tokens.map(token => token.negated), [true, false, false]);
+  });
+
+  it("does not negate comparisons", () => {
+    assert.equal(scoreSentiment("not only bullish").score, 2);
+    assert.equal(scoreSentiment("I have never been more bullish").score, 2);
+    assert.equal(scoreSentiment("couldn't be more bullish on this").score, 2);
+    assert.equal(scoreSentiment("no more losses").score > 0, true);
+  });
+
+  it("ends negation at a clause break", () => {
+    const { score, tokens } = scoreSentiment("Not sure about the CEO, but bullish");
+    assert.equal(score, 2);
+    assert.equal(tokens[0].negated, false);
+  });
+
+  it("scales terms by intensifiers and capitals", () => {
+    assert.equal(scoreSentiment("slight dip").score, -0.5);
+    assert.equal(scoreSentiment("this is BULLISH").score, 2.5);
+  });
+
+  it("matches the longest phrase first", () => {
+    const { tokens } = scoreSentiment("short squeeze incoming");
+    assert.deepEqual(tokens.map(token => token.term), ["short squeeze"]);
+    assert.equal(scoreSentiment("short interest is 20%").score, 0);
+  });
+});
+
+describe("sentimentBalance", () => {
+  it("is the share of positive weight minus negative weight", () => {
+    assert.equal(sentimentBalance(["bullish", "bearish"]), 0);
+    assert.equal(sentimentBalance(["bullish"]), 1);
+    assert.equal(sentimentBalance([]), 0);
+  });
+});
+
+describe("aggregateSentiment", () => {
+  it("counts every post once under count", () => {
+    const breakdown = aggregateSentiment(
+      { bullish: [post(1), post(1)], bearish: [post(1)], neutral: [post(1)] },
+      "count"
+    );
+    assert.deepEqual([breakdown.bullish, breakdown.bearish, breakdown.neutral], [50, 25, 25]);
+    assert.equal(breakdown.effectiveSize, 4);
+  });
+
+  it("lets engaged posts count more under log-engagement", () => {
+    const breakdown = aggregateSentiment(
+      { bullish: [post(20_000, 500)], bearish: [post(3), post(2)], neutral: [] },
+      "log-engagement"
+    );
+    assert.equal(breakdown.bullish > 50, true);
+    assert.equal(breakdown.effectiveSize < breakdown.posts, true);
+  });
+
+  it("widens the interval for fewer posts", () => {
+    const few = aggregateSentiment({ bullish: [post(1)], bearish: [post(1)], neutral: [] }, "count");
+    const many = aggregateSentiment(
+      { bullish: Array.from({ length: 50 }, () => post(1)), bearish: Array.from({ length: 50 }, () => post(1)), neutral: [] },
+      "count"
+    );
+    const width = (b: typeof few) => b.intervals.bullish.high - b.intervals.bullish.low;
+    assert.equal(width(few) > width(many), true);
+  });
+
+  it("rounds the shares so they always total 100", () => {
+    const thirds = aggregateSentiment({ bullish: [post(1)], bearish: [post(1)], neutral: [post(1)] }, "count");
+    assert.deepEqual([thirds.bullish, thirds.bearish, thirds.neutral], [34, 33, 33]);
+
+    // Rounding each share on its own would report 2 + 2 + 97 = 101 for 1.5% / 1.5% / 97%
+    const breakdown = aggregateSentiment(
+      {
+        bullish: Array.from({ length: 3 }, () => post(1)),
+        bearish: Array.from({ length: 3 }, () => post(1)),
+        neutral: Array.from({ length: 194 }, () => post(1))
+      },
+      "count"
+    );
+    assert.deepEqual([breakdown.bullish, breakdown.bearish, breakdown.neutral], [2, 1, 97]);
+    assert.equal(breakdown.intervals.bullish.high >= breakdown.bullish, true);
+  });
+
+  it("reports zeros with full intervals when there are no posts", () => {
+    const breakdown = aggregateSentiment({ bullish: [], bearish: [], neutral: [] }, "recency");
+    assert.equal(breakdown.bullish, 0);
+    assert.deepEqual(breakdown.intervals.neutral, { low: 0, high: 100 });
+  });
+
+  it("falls back to the default for unknown strategies", () => {
+    assert.equal(parseAggregation("subreddit"), "subreddit");
+    assert.equal(parseAggregation("median"), DEFAULT_AGGREGATION);
+    assert.equal(parseAggregation(null), DEFAULT_AGGREGATION);
+  });
+});
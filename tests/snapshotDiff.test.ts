@@ -0,0 +1,102 @@
+// tests/snapshotDiff.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  diffBullets,
+  diffSnapshots,
+  parseSentimentSplit,
+  type AnalysisSnapshot,
+  type SnapshotNarrative
+} from "@/lib/snapshots";
+import type { ComparisonResult } from "@/lib/divergence";
+import { resolveEntity } from "@/lib/entities";
+
+const snapshot = (createdAt: string, overrides: Partial<AnalysisSnapshot> = {}): AnalysisSnapshot => ({
+  id: `AAPL-${createdAt}`,
+  ticker: "AAPL",
+  entity: resolveEntity("AAPL"),
+  window: "90d",
+  sources: ["reddit"],
+  createdAt,
+  narrative: null,
+  financial: null,
+  divergence: null,
+  ...overrides
+});
+
+const narrative = (bullets: string[], sentiment?: SnapshotNarrative["sentiment"]) =>
+  ({ bullets, totalPosts: 90, sentiment }) as SnapshotNarrative;
+
+const divergence = (score: number, version: string) =>
+  ({ score, divergence: "medium", version }) as ComparisonResult;
+
+describe("diffBullets", () => {
+  it("aligns bullets by theme and classifies the changes", () => {
+    const diff = diffBullets(
+      "narrative",
+      ["Services revenue growth is steady", "iPhone demand in China is weak"],
+      ["Services revenue growth accelerated 14% with record margins", "Vision Pro launch excites developers"]
+    );
+
+    assert.deepEqual(diff.bullets.map(bullet => bullet.change), ["strengthened", "added", "removed"]);
+    assert.equal(diff.bullets[0].before, "Services revenue growth is steady");
+    assert.deepEqual(diff.counts, { added: 1, removed: 1, strengthened: 1, weakened: 0, unchanged: 0 });
+  });
+
+  it("marks identical bullets unchanged", () => {
+    const diff = diffBullets("risks", ["Regulatory pressure in the EU"], ["Regulatory pressure in the EU"]);
+    assert.deepEqual(diff.bullets, [
+      { change: "unchanged", before: "Regulatory pressure in the EU", after: "Regulatory pressure in the EU", similarity: 1 }
+    ]);
+  });
+});
+
+describe("parseSentimentSplit", () => {
+  it("reads the split from the sentiment bullet", () => {
+    assert.deepEqual(
+      parseSentimentSplit(["• Overall sentiment: 60% bullish, 25% bearish, 15% neutral based on 90 posts"]),
+      { bullish: 60, bearish: 25, neutral: 15 }
+    );
+    assert.equal(parseSentimentSplit(["• No percentages here"]), null);
+  });
+});
+
+describe("diffSnapshots", () => {
+  it("orders the snapshots oldest first and prefers the stored sentiment", () => {
+    const older = snapshot("2026-01-01T00:00:00.000Z", {
+      narrative: narrative(["• Overall sentiment: 50% bullish, 30% bearish, 20% neutral"]),
+      divergence: divergence(40, "claims-3")
+    });
+    const newer = snapshot("2026-02-01T00:00:00.000Z", {
+      narrative: narrative(
+        ["• Overall sentiment: 99% bullish, 1% bearish, 0% neutral"],
+        { bullish: 62, bearish: 28, neutral: 10 } as SnapshotNarrative["sentiment"]
+      ),
+      divergence: divergence(55, "claims-3")
+    });
+
+    const diff = diffSnapshots(newer, older);
+
+    assert.equal(diff.before.id, older.id);
+    assert.deepEqual(diff.sentiment?.after, { bullish: 62, bearish: 28, neutral: 10 });
+    assert.deepEqual(diff.sentiment?.delta, { bullish: 12, bearish: -2, neutral: -10 });
+    assert.equal(diff.divergence.delta, 15);
+  });
+
+  it("does not compare scores across algorithm versions", () => {
+    const diff = diffSnapshots(
+      snapshot("2026-01-01T00:00:00.000Z", { divergence: divergence(40, "keyword-1") }),
+      snapshot("2026-02-01T00:00:00.000Z", { divergence: divergence(55, "claims-3") })
+    );
+
+    assert.equal(diff.divergence.delta, null);
+    assert.deepEqual(diff.divergence.versions, { before: "keyword-1", after: "claims-3" });
+  });
+
+  it("refuses snapshots of different tickers", () => {
+    assert.throws(
+      () => diffSnapshots(snapshot("2026-01-01T00:00:00.000Z"), snapshot("2026-02-01T00:00:00.000Z", { ticker: "MSFT" })),
+      /Cannot diff snapshots of AAPL and MSFT/
+    );
+  });
+});
@@ -0,0 +1,39 @@
+// tests/sonarClient.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { SonarClient, SonarApiError, getContent, type SonarTransport } from "@/lib/sonarClient";
+
+const request = { model: "sonar-pro", messages: [{ role: "user" as const, content: "Hi" }] };
+
+const clientAnswering = (body: string, status = 200) => {
+  const transport: SonarTransport = async () => new Response(body, { status });
+  return new SonarClient({ apiKey: "test", url: "https://sonar.test/chat/completions", transport });
+};
+
+describe("SonarClient.complete", () => {
+  it("returns the parsed completion", async () => {
+    const client = clientAnswering(JSON.stringify({ choices: [{ message: { content: "Hello" } }] }));
+
+    assert.equal(getContent(await client.complete(request)), "Hello");
+  });
+
+  it("wraps a body that is not JSON in SonarApiError with a snippet", async () => {
+    const client = clientAnswering(`<html>Bad gateway</html>${"x".repeat(1000)}`);
+
+    await assert.rejects(client.complete(request), (error: unknown) => {
+      assert.ok(error instanceof SonarApiError);
+      assert.match(error.message, /not JSON \(200\)/);
+      assert.equal(error.status, 502);
+      assert.ok(error.details.startsWith("<html>Bad gateway</html>"));
+      assert.equal(error.details.length, 500);
+      assert.equal(error.endpoint, "https://sonar.test/chat/completions");
+      return true;
+    });
+  });
+
+  it("reports non-2xx responses with their status and body", async () => {
+    const client = clientAnswering('{"error":"rate limited"}', 429);
+
+    await assert.rejects(client.complete(request), { name: "SonarApiError", status: 429, details: '{"error":"rate limited"}' });
+  });
+});
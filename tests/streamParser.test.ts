@@ -0,0 +1,43 @@
+// tests/streamParser.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createMarkdownBulletParser, createJsonStreamParser } from "@/lib/streamParser";
+
+describe("createMarkdownBulletParser", () => {
+  it("builds bullets across deltas and extracts their source link", () => {
+    const parser = createMarkdownBulletParser();
+    const events = [
+      ...parser.push("• First bul"),
+      ...parser.push("let [Src](https://a.com)\n- Second"),
+      ...parser.end()
+    ];
+
+    const completed = events.filter(event => event.type === "bulletCompleted");
+    assert.deepEqual(
+      completed.map(event => event.type === "bulletCompleted" && event.bullet.text),
+      ["First bullet", "Second"]
+    );
+    assert.deepEqual(
+      events.find(event => event.type === "citationFound"),
+      { type: "citationFound", section: null, index: 0, citation: { title: "Src", url: "https://a.com" } }
+    );
+  });
+});
+
+describe("createJsonStreamParser", () => {
+  it("emits sections, bullets and fields from partial JSON", () => {
+    const parser = createJsonStreamParser();
+    const events = [
+      ...parser.push('{"fundamentals": [{"text": "Rev'),
+      ...parser.push('enue up"}], "date": "2025-01-01"}'),
+      ...parser.end()
+    ];
+
+    assert.deepEqual(events[0], { type: "sectionChanged", section: "fundamentals" });
+    assert.deepEqual(
+      events.find(event => event.type === "bulletCompleted"),
+      { type: "bulletCompleted", section: "fundamentals", index: 0, bullet: { text: "Revenue up" } }
+    );
+    assert.deepEqual(events[events.length - 1], { type: "fieldCompleted", key: "date", value: "2025-01-01" });
+  });
+});
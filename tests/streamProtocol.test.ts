@@ -0,0 +1,80 @@
+// tests/streamProtocol.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  encodeEvent,
+  decodeEvent,
+  PROTOCOL_STREAM_OPTIONS,
+  type StreamEvent
+} from "@/lib/streamProtocol";
+import { replayCompletion } from "@/lib/cache";
+import { collectEvents } from "@/app/api/cachedResults";
+
+/**
+ * Splits one encoded frame into its SSE fields, as a client reads them
+ */
+function readFrame(frame: string): Record<string, string> {
+  assert.ok(frame.endsWith("\n\n"), "a frame ends with a blank line");
+  return Object.fromEntries(
+    frame.trimEnd().split("\n").map(line => {
+      const separator = line.indexOf(":");
+      return [line.slice(0, separator), line.slice(separator + 1).replace(/^ /, "")];
+    })
+  );
+}
+
+const roundTrip = (event: StreamEvent, id?: string): StreamEvent => {
+  const { event: name, data } = readFrame(encodeEvent(event.type, event.data as never, id));
+  return decodeEvent(data, name);
+};
+
+describe("stream protocol", () => {
+  it("decodes every event type as it was encoded", () => {
+    const events: StreamEvent[] = [
+      { type: "meta", data: { company: "AAPL", cache: "MISS", window: "90d" } },
+      { type: "delta", data: { content: "• Line one\n• Line \"two\"" } },
+      { type: "citation", data: { citations: [{ index: 1, url: "https://a.com", title: "A", domain: "a.com" }] } },
+      { type: "section", data: { name: "risks" } },
+      { type: "warning", data: { code: "reddit_unavailable", message: "Fell back" } },
+      { type: "error", data: { code: "stream_failed", message: "Boom" } },
+      { type: "done", data: { finishReason: null } }
+    ];
+
+    for (const event of events) assert.deepEqual(roundTrip(event), event);
+  });
+
+  it("puts the event id on its own line", () => {
+    const frame = readFrame(encodeEvent("delta", { content: "hi" }, "2026-01-01T00:00:00.000Z-3"));
+
+    assert.equal(frame.id, "2026-01-01T00:00:00.000Z-3");
+    assert.equal(frame.event, "delta");
+    assert.equal("id" in readFrame(encodeEvent("delta", { content: "hi" })), false);
+  });
+
+  it("rejects events outside the protocol and data that is not an object", () => {
+    assert.throws(() => decodeEvent("{}", "message"), /Unknown stream event "message"/);
+    assert.throws(() => decodeEvent("42", "delta"), /Invalid data for stream event "delta"/);
+    assert.throws(() => decodeEvent("null", "meta"), /Invalid data/);
+    assert.throws(() => decodeEvent("{not json", "delta"), SyntaxError);
+  });
+
+  it("ends on done and surfaces error events", () => {
+    const done = decodeEvent('{"finishReason":"stop"}', "done");
+    const failure = decodeEvent('{"code":"stream_failed","message":"Boom"}', "error");
+
+    assert.equal(PROTOCOL_STREAM_OPTIONS.isTerminal(done), true);
+    assert.equal(PROTOCOL_STREAM_OPTIONS.isTerminal(failure), false);
+    assert.equal(PROTOCOL_STREAM_OPTIONS.getError(failure), "Boom");
+    assert.equal(PROTOCOL_STREAM_OPTIONS.getError(done), null);
+  });
+
+  it("replays a cached completion as deltas then its citations", () => {
+    const events = collectEvents(send =>
+      replayCompletion({ content: "Revenue grew 12% this year", citations: ["https://a.com/report"] }, send)
+    );
+
+    assert.deepEqual(events.map(event => event.type), ["delta", "citation"]);
+    assert.deepEqual(events[0].data, { content: "Revenue grew 12% this year" });
+    assert.equal(events[1].type === "citation" && events[1].data.citations[0].url, "https://a.com/report");
+  });
+});
@@ -40,9 +40,23 @@ export interface ResponseSchema {
 }
 
 // Response format configuration
-export interface ResponseFormat {
-  type: "json_object";
-  schema: ResponseSchema;
+export type ResponseFormat =
+  | {
+      type: "json_object";
+      schema: ResponseSchema;
+    }
+  | {
+      // Structured outputs: the model is constrained to the schema
+      type: "json_schema";
+      json_schema: {
+        schema: ResponseSchema;
+      };
+    };
+
+// Domain filter used by the Reddit-only fallback searches
+export interface SearchDomainFilter {
+  include_domains?: string[];
+  exclude_domains?: string[];
 }
 
 // Sonar API request structure
@@ -51,6 +65,9 @@ export interface SonarRequest {
   messages: Message[];
   stream?: boolean;
   search_sources?: SearchSources;
+  search_domain_filter?: SearchDomainFilter;
+  search_context_size?: "low" | "medium" | "high";
+  search_recency_filter?: "day" | "week" | "month" | "quarter" | "year";
   response_format?: ResponseFormat;
   max_tokens?: number;
   temperature?: number;
@@ -63,6 +80,15 @@ export interface Delta {
   content?: string;
 }
 
+// Search result the answer was grounded on
+export interface SearchResult {
+  title: string;
+  url: string;
+  date?: string | null;         // Publication date, when known
+  last_updated?: string | null;
+  snippet?: string;
+}
+
 // Stream chunk format
 export interface StreamChunk {
   id: string;
@@ -74,6 +100,8 @@ export interface StreamChunk {
     delta: Delta;
     finish_reason: null | string;
   }>;
+  citations?: string[];            // URLs numbered as the [n] markers in the content
+  search_results?: SearchResult[];
 }
 
 // Complete response message
@@ -95,10 +123,23 @@ export interface SonarResponse {
     completion_tokens: number;
     total_tokens: number;
   };
+  citations?: string[];            // URLs numbered as the [n] markers in the content
+  search_results?: SearchResult[];
+}
+
+// A numbered source shown as a footnote in the UI
+export interface Citation {
+  index: number;         // 1-based footnote number, matching [n] markers
+  url: string;
+  title?: string;
+  domain: string;        // Hostname without "www."
+  date?: string | null;
 }
 
 // Narrative analysis response specific to our app
 export interface NarrativeAnalysis {
   company: string;
   narratives: string[];
+  citations?: Citation[];
+  bulletCitations?: number[][];  // Footnote numbers for each narrative
 }
\ No newline at end of file